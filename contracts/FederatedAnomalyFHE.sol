@@ -1,13 +1,58 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, euint64, externalEuint32, externalEuint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract FederatedAnomalyFHE is SepoliaConfig {
+    enum ParticipantStatus {
+        None,
+        Pending,
+        Active,
+        Suspended,
+        Removed
+    }
+
+    enum DecryptionStatus {
+        None,
+        Pending,                     // Waiting for the oracle callback
+        Fulfilled,
+        Expired                      // Not fulfilled before its deadline, may be re-requested
+    }
+
+    enum AnomalyStatus {
+        None,
+        Detected,                    // Open for review by other participants
+        Verified,                    // Confirmed by a review quorum
+        FalsePositive                // Rejected by a review quorum
+    }
+
+    enum RoundStatus {
+        None,
+        Open,                        // Started, no update received yet
+        Collecting,                  // Accepting updates until the deadline
+        Aggregating,                 // Closed with quorum, awaiting finalization
+        Finalized,
+        Aborted
+    }
+
+    struct Participant {
+        uint256 participantId;
+        address account;
+        string organization;         // Public organization name
+        string metadataURI;          // Off-chain organization profile
+        ParticipantStatus status;
+        uint256 registeredAt;
+    }
+
+    struct FeatureSchema {
+        uint8 dimension;             // Number of features per batch
+        uint8 bitWidth;              // Width of submitted features (32 or 64)
+    }
+
     struct EncryptedDataBatch {
         uint256 batchId;
-        euint32 encryptedFeatures;    // Encrypted feature vectors
+        euint64[] encryptedFeatures;  // Encrypted feature vector, widened to euint64
         euint32 encryptedLabels;     // Encrypted anomaly labels
         uint256 participantId;       // Organization ID
         uint256 timestamp;
@@ -15,71 +60,479 @@ contract FederatedAnomalyFHE is SepoliaConfig {
 
     struct EncryptedModelUpdate {
         uint256 updateId;
-        euint32 encryptedWeights;    // Encrypted model weights
+        uint256 roundId;            // Training round the update contributes to
+        euint32[] encryptedWeights;  // Encrypted model weights, one per feature
         euint32 encryptedBias;      // Encrypted model bias
         uint256 participantId;      // Organization ID
         uint256 timestamp;
     }
 
+    struct TrainingRound {
+        uint256 roundId;
+        RoundStatus status;
+        uint256 startedAt;
+        uint256 deadline;            // Block timestamp after which updates are rejected
+        uint64 minParticipants;      // Quorum required before the round can be aggregated
+        uint256 finalizedAt;         // Set on finalization or abort
+        uint256[] contributors;      // Participant ids, in submission order
+        euint64[] weightSums;        // Running encrypted sums of contributed weights
+        euint64 biasSum;
+        uint256 modelVersion;        // Global model published by this round
+    }
+
+    struct GlobalModel {
+        uint256 version;
+        uint256 roundId;
+        euint64[] weights;           // Encrypted averaged weights
+        euint64 bias;                // Encrypted averaged bias
+        uint256[] contributors;      // Participant ids whose updates were averaged
+        uint256 publishedAt;
+    }
+
+    struct EncryptedResult {
+        euint64 encryptedScore;      // Homomorphically computed anomaly score
+        ebool encryptedIsAnomaly;    // Encrypted verdict (score > threshold)
+        uint256 thresholdVersion;    // Threshold the verdict was computed against
+    }
+
     struct DecryptedResult {
-        uint32 anomalyScore;
+        uint64 anomalyScore;
         bool isAnomaly;
         bool isRevealed;
+        uint256 thresholdVersion;
+    }
+
+    struct DecryptionRequest {
+        uint256 resultId;
+        DecryptionStatus status;
+        uint256 requestedAt;
+        uint256 expiresAt;           // Callbacks arriving later are rejected
+    }
+
+    struct AnomalyReport {
+        uint256 anomalyId;
+        string key;                  // Client generated id, also used by legacy adapter records
+        uint256 batchId;             // Encrypted batch the report was filed with, 0 if unknown
+        uint256 participantId;
+        address reporter;
+        bytes record;                // Serialized report, replaced as a whole on update
+        uint256 reportedAt;
+        uint256 updatedAt;
+        AnomalyStatus status;        // Authoritative review status, independent of the record
+        uint256 reviewRound;         // Incremented on reopen, votes only count for the current round
+        uint64 confirmations;
+        uint64 rejections;
+    }
+
+    struct ReviewVote {
+        address voter;
+        uint256 participantId;
+        bool confirm;
+        uint256 votedAt;
     }
 
+    // Anomaly record carried over from the UniversalAdapter key/value store
+    struct LegacyAnomaly {
+        string key;
+        address reporter;
+        uint256 batchId;
+        bytes record;
+        uint256 reportedAt;
+        AnomalyStatus status;        // Settled legacy statuses are carried over as is
+    }
+
+    struct DetectionThreshold {
+        euint64 value;               // Encrypted so participants cannot tune batches around it
+        uint256 updatedAt;
+    }
+
+    // Initial threshold, replaced by an encrypted value through setDetectionThreshold
+    uint64 public constant DEFAULT_DETECTION_THRESHOLD = 50;
+    uint256 public constant DECRYPTION_REQUEST_TTL = 1 days;
+    uint64 public constant DEFAULT_REVIEW_QUORUM = 2;
+
     uint256 public batchCount;
     uint256 public updateCount;
     uint256 public participantCount;
+    uint256 public roundCount;
+    uint256 public currentRoundId;
+    uint256 public globalModelVersion;
+    uint256 public detectionThresholdVersion;
+    uint256 public activeModelVersion;   // Version currently served, pinned by the admin on rollback
+    uint256 public anomalyCount;
+    uint64 public reviewQuorum;          // Matching votes needed to settle a review
+    address public admin;
+    address[] private auditors;
+    FeatureSchema public featureSchema;
+    mapping(uint256 => Participant) public participants;
+    mapping(address => uint256) public participantIdOf;
     mapping(uint256 => EncryptedDataBatch) public encryptedBatches;
     mapping(uint256 => EncryptedModelUpdate) public encryptedUpdates;
-    mapping(uint256 => DecryptedResult) public decryptedResults;
+    mapping(uint256 => TrainingRound) private trainingRounds;
+    mapping(uint256 => mapping(address => bool)) public hasContributed;
+    mapping(uint256 => GlobalModel) private globalModels;
+    mapping(uint256 => DetectionThreshold) private detectionThresholds;
+    mapping(uint256 => EncryptedResult) private encryptedResults;
+    mapping(address => bool) public isAuditor;
+    mapping(uint256 => DecryptedResult) private decryptedResults;
     
-    mapping(uint256 => uint256) private requestToBatchId;
-    mapping(uint256 => uint256) private resultRequestToId;
+    mapping(uint256 => DecryptionRequest) private decryptionRequests;
+    mapping(uint256 => bool) private disclosurePending;
+    mapping(uint256 => AnomalyReport) private anomalyReports;
+    mapping(bytes32 => uint256) public anomalyIdByKey;   // keccak256(key) => anomalyId
+    mapping(uint256 => mapping(uint256 => ReviewVote[])) private reviewVotes;   // anomalyId => round => votes
+    mapping(uint256 => mapping(uint256 => mapping(uint256 => bool))) public hasReviewed;   // anomalyId => round => participantId
     
     event BatchSubmitted(uint256 indexed batchId, uint256 participantId, uint256 timestamp);
     event ModelUpdated(uint256 indexed updateId, uint256 participantId, uint256 timestamp);
     event DetectionRequested(uint256 indexed requestId, uint256 batchId);
     event ResultDecrypted(uint256 indexed resultId);
+    event DecryptionFailed(uint256 indexed requestId, uint256 indexed resultId, string reason);
+    event DetectionComputed(uint256 indexed resultId, uint256 thresholdVersion);
+    event ResultAccessGranted(uint256 indexed resultId, address indexed account);
+    event AuditorAdded(address indexed auditor);
+    event AuditorRemoved(address indexed auditor);
+    event ParticipantRegistered(uint256 indexed participantId, address indexed account, string organization);
+    event ParticipantStatusChanged(uint256 indexed participantId, ParticipantStatus status);
+    event ParticipantMetadataUpdated(uint256 indexed participantId, string organization, string metadataURI);
+    event RoundStarted(uint256 indexed roundId, uint64 minParticipants, uint256 deadline);
+    event RoundStatusChanged(uint256 indexed roundId, RoundStatus status);
+    event ModelAggregated(uint256 indexed roundId, uint256 indexed version, uint256 contributorCount);
+    event ActiveModelChanged(uint256 indexed version, uint256 previousVersion);
+    event DetectionThresholdUpdated(uint256 indexed version, address indexed updatedBy, uint256 timestamp);
+    event AdminTransferred(address indexed previousAdmin, address indexed newAdmin);
+    event AnomalyAppended(uint256 indexed anomalyId, uint256 indexed batchId, address indexed reporter, string key, bytes record);
+    event AnomalyRecordUpdated(uint256 indexed anomalyId, address indexed updatedBy, string key, bytes record);
+    event ReviewVoteCast(uint256 indexed anomalyId, uint256 indexed round, address indexed voter, uint256 participantId, bool confirm, uint256 timestamp);
+    event AnomalyStatusChanged(uint256 indexed anomalyId, AnomalyStatus status, uint256 round);
+    event ReviewQuorumUpdated(uint64 quorum);
+
+    modifier onlyAdmin() {
+        require(msg.sender == admin, "Only admin");
+        _;
+    }
 
     modifier onlyParticipant(uint256 participantId) {
-        // Add proper participant authentication in production
+        require(participantId != 0 && participantIdOf[msg.sender] == participantId, "Not participant owner");
+        require(participants[participantId].status == ParticipantStatus.Active, "Participant not active");
         _;
     }
 
-    function registerParticipant() public {
+    constructor(uint8 featureDimension, uint8 featureBitWidth) {
+        require(featureDimension > 0, "Invalid feature dimension");
+        require(featureBitWidth == 32 || featureBitWidth == 64, "Unsupported feature width");
+
+        admin = msg.sender;
+        featureSchema = FeatureSchema({ dimension: featureDimension, bitWidth: featureBitWidth });
+        _setDetectionThreshold(FHE.asEuint64(DEFAULT_DETECTION_THRESHOLD));
+        reviewQuorum = DEFAULT_REVIEW_QUORUM;
+    }
+
+    function transferAdmin(address newAdmin) public onlyAdmin {
+        require(newAdmin != address(0), "Invalid admin");
+        emit AdminTransferred(admin, newAdmin);
+        admin = newAdmin;
+        FHE.allow(detectionThresholds[detectionThresholdVersion].value, newAdmin);
+    }
+
+    function setDetectionThreshold(externalEuint64 thresholdInput, bytes calldata inputProof) public onlyAdmin {
+        _setDetectionThreshold(FHE.fromExternal(thresholdInput, inputProof));
+    }
+
+    // Applies to reviews still open; settled ones keep their outcome
+    function setReviewQuorum(uint64 quorum) public onlyAdmin {
+        require(quorum > 0, "Quorum required");
+        reviewQuorum = quorum;
+        emit ReviewQuorumUpdated(quorum);
+    }
+
+    function registerParticipant(string calldata organization, string calldata metadataURI) public returns (uint256) {
+        require(participantIdOf[msg.sender] == 0, "Already registered");
+        require(bytes(organization).length > 0, "Organization required");
+
         participantCount += 1;
+        uint256 newParticipantId = participantCount;
+
+        participants[newParticipantId] = Participant({
+            participantId: newParticipantId,
+            account: msg.sender,
+            organization: organization,
+            metadataURI: metadataURI,
+            status: ParticipantStatus.Pending,
+            registeredAt: block.timestamp
+        });
+        participantIdOf[msg.sender] = newParticipantId;
+
+        emit ParticipantRegistered(newParticipantId, msg.sender, organization);
+        return newParticipantId;
+    }
+
+    function updateParticipantMetadata(string calldata organization, string calldata metadataURI) public {
+        uint256 participantId = participantIdOf[msg.sender];
+        require(participantId != 0, "Not registered");
+        require(bytes(organization).length > 0, "Organization required");
+
+        Participant storage p = participants[participantId];
+        p.organization = organization;
+        p.metadataURI = metadataURI;
+
+        emit ParticipantMetadataUpdated(participantId, organization, metadataURI);
+    }
+
+    function approveParticipant(uint256 participantId) public onlyAdmin {
+        require(participants[participantId].status == ParticipantStatus.Pending, "Participant not pending");
+        _setParticipantStatus(participantId, ParticipantStatus.Active);
+    }
+
+    function suspendParticipant(uint256 participantId) public onlyAdmin {
+        require(participants[participantId].status == ParticipantStatus.Active, "Participant not active");
+        _setParticipantStatus(participantId, ParticipantStatus.Suspended);
+    }
+
+    function reinstateParticipant(uint256 participantId) public onlyAdmin {
+        require(participants[participantId].status == ParticipantStatus.Suspended, "Participant not suspended");
+        _setParticipantStatus(participantId, ParticipantStatus.Active);
+    }
+
+    function removeParticipant(uint256 participantId) public onlyAdmin {
+        Participant storage p = participants[participantId];
+        require(p.status != ParticipantStatus.None && p.status != ParticipantStatus.Removed, "Participant not removable");
+
+        // Free the address so the organization can re-apply under a new id
+        delete participantIdOf[p.account];
+        _setParticipantStatus(participantId, ParticipantStatus.Removed);
+    }
+
+    function getParticipant(uint256 participantId) public view returns (
+        address account,
+        string memory organization,
+        string memory metadataURI,
+        ParticipantStatus status,
+        uint256 registeredAt
+    ) {
+        Participant storage p = participants[participantId];
+        return (p.account, p.organization, p.metadataURI, p.status, p.registeredAt);
     }
 
+    // featureInputs are external handles encrypted as euint32 or euint64, per featureSchema.bitWidth
     function submitEncryptedDataBatch(
-        euint32 encryptedFeatures,
-        euint32 encryptedLabels,
+        bytes32[] calldata featureInputs,
+        externalEuint32 labelsInput,
+        bytes calldata inputProof,
         uint256 participantId
     ) public onlyParticipant(participantId) {
-        batchCount += 1;
-        uint256 newBatchId = batchCount;
-        
-        encryptedBatches[newBatchId] = EncryptedDataBatch({
-            batchId: newBatchId,
-            encryptedFeatures: encryptedFeatures,
-            encryptedLabels: encryptedLabels,
+        _storeBatch(featureInputs, labelsInput, inputProof, participantId);
+    }
+
+    // Files the batch and its anomaly report in one transaction so neither can exist without the other
+    function submitAnomalyReport(
+        bytes32[] calldata featureInputs,
+        externalEuint32 labelsInput,
+        bytes calldata inputProof,
+        uint256 participantId,
+        string calldata key,
+        bytes calldata record
+    ) public onlyParticipant(participantId) returns (uint256) {
+        uint256 batchId = _storeBatch(featureInputs, labelsInput, inputProof, participantId);
+        return _appendAnomaly(key, batchId, participantId, msg.sender, record, block.timestamp, AnomalyStatus.Detected);
+    }
+
+    function updateAnomalyRecord(string calldata key, bytes calldata record) public {
+        uint256 anomalyId = _anomalyIdOf(key);
+        require(record.length > 0, "Record required");
+
+        AnomalyReport storage report = anomalyReports[anomalyId];
+        uint256 participantId = participantIdOf[msg.sender];
+        require(participantId != 0 && participants[participantId].status == ParticipantStatus.Active, "Participant not active");
+        require(report.reporter == msg.sender, "Not anomaly reporter");
+        report.record = record;
+        report.updatedAt = block.timestamp;
+
+        emit AnomalyRecordUpdated(anomalyId, msg.sender, key, record);
+    }
+
+    // Keys that were already migrated are skipped, so an interrupted migration can simply be re-run
+    function migrateLegacyAnomalies(LegacyAnomaly[] calldata legacy) public onlyAdmin returns (uint256 migrated) {
+        for (uint i = 0; i < legacy.length; i++) {
+            if (anomalyIdByKey[keccak256(bytes(legacy[i].key))] != 0) {
+                continue;
+            }
+            require(legacy[i].batchId <= batchCount, "Invalid batch");
+            _appendAnomaly(
+                legacy[i].key,
+                legacy[i].batchId,
+                participantIdOf[legacy[i].reporter],
+                legacy[i].reporter,
+                legacy[i].record,
+                legacy[i].reportedAt,
+                legacy[i].status
+            );
+            migrated += 1;
+        }
+    }
+
+    // Any active participant other than the reporter's organization may vote once per review round
+    function castReviewVote(string calldata key, bool confirm) public {
+        uint256 anomalyId = _anomalyIdOf(key);
+        AnomalyReport storage report = anomalyReports[anomalyId];
+        uint256 participantId = participantIdOf[msg.sender];
+        require(participantId != 0 && participants[participantId].status == ParticipantStatus.Active, "Participant not active");
+        require(participantId != report.participantId, "Reporter cannot review");
+        require(report.status == AnomalyStatus.Detected, "Review closed");
+        require(!hasReviewed[anomalyId][report.reviewRound][participantId], "Already reviewed");
+
+        hasReviewed[anomalyId][report.reviewRound][participantId] = true;
+        reviewVotes[anomalyId][report.reviewRound].push(ReviewVote({
+            voter: msg.sender,
             participantId: participantId,
-            timestamp: block.timestamp
-        });
-        
-        emit BatchSubmitted(newBatchId, participantId, block.timestamp);
+            confirm: confirm,
+            votedAt: block.timestamp
+        }));
+        emit ReviewVoteCast(anomalyId, report.reviewRound, msg.sender, participantId, confirm, block.timestamp);
+
+        if (confirm) {
+            report.confirmations += 1;
+            if (report.confirmations >= reviewQuorum) {
+                _setAnomalyStatus(anomalyId, report, AnomalyStatus.Verified);
+            }
+        } else {
+            report.rejections += 1;
+            if (report.rejections >= reviewQuorum) {
+                _setAnomalyStatus(anomalyId, report, AnomalyStatus.FalsePositive);
+            }
+        }
+    }
+
+    // The only way back to Detected: starts a new review round with no votes
+    function reopenAnomaly(string calldata key) public {
+        uint256 anomalyId = _anomalyIdOf(key);
+        AnomalyReport storage report = anomalyReports[anomalyId];
+        require(msg.sender == admin || msg.sender == report.reporter, "Not reporter or admin");
+        require(report.status == AnomalyStatus.Verified || report.status == AnomalyStatus.FalsePositive, "Review not settled");
+
+        report.reviewRound += 1;
+        report.confirmations = 0;
+        report.rejections = 0;
+        _setAnomalyStatus(anomalyId, report, AnomalyStatus.Detected);
+    }
+
+    function getAnomalyReview(uint256 anomalyId) public view returns (
+        AnomalyStatus status,
+        uint256 reviewRound,
+        uint64 confirmations,
+        uint64 rejections
+    ) {
+        AnomalyReport storage report = anomalyReports[anomalyId];
+        return (report.status, report.reviewRound, report.confirmations, report.rejections);
+    }
+
+    function getReviewVotes(uint256 anomalyId, uint256 round) public view returns (
+        address[] memory voters,
+        uint256[] memory participantIds,
+        bool[] memory confirms,
+        uint256[] memory votedAts
+    ) {
+        ReviewVote[] storage votes = reviewVotes[anomalyId][round];
+        voters = new address[](votes.length);
+        participantIds = new uint256[](votes.length);
+        confirms = new bool[](votes.length);
+        votedAts = new uint256[](votes.length);
+        for (uint i = 0; i < votes.length; i++) {
+            voters[i] = votes[i].voter;
+            participantIds[i] = votes[i].participantId;
+            confirms[i] = votes[i].confirm;
+            votedAts[i] = votes[i].votedAt;
+        }
+    }
+
+    function getAnomalyReport(uint256 anomalyId) public view returns (
+        string memory key,
+        uint256 batchId,
+        uint256 participantId,
+        address reporter,
+        bytes memory record,
+        uint256 reportedAt,
+        uint256 updatedAt
+    ) {
+        AnomalyReport storage report = anomalyReports[anomalyId];
+        return (report.key, report.batchId, report.participantId, report.reporter, report.record, report.reportedAt, report.updatedAt);
+    }
+
+    function startTrainingRound(uint64 minParticipants, uint256 duration) public onlyAdmin returns (uint256) {
+        require(!_isRoundActive(currentRoundId), "Round already active");
+        require(minParticipants > 0, "Quorum required");
+        require(duration > 0, "Duration required");
+
+        roundCount += 1;
+        uint256 newRoundId = roundCount;
+
+        TrainingRound storage round = trainingRounds[newRoundId];
+        round.roundId = newRoundId;
+        round.startedAt = block.timestamp;
+        round.deadline = block.timestamp + duration;
+        round.minParticipants = minParticipants;
+        currentRoundId = newRoundId;
+
+        emit RoundStarted(newRoundId, minParticipants, round.deadline);
+        _setRoundStatus(round, RoundStatus.Open);
+        return newRoundId;
     }
 
     function submitModelUpdate(
-        euint32 encryptedWeights,
-        euint32 encryptedBias,
+        externalEuint32[] calldata weightInputs,
+        externalEuint32 biasInput,
+        bytes calldata inputProof,
         uint256 participantId
     ) public onlyParticipant(participantId) {
+        uint256 roundId = currentRoundId;
+        TrainingRound storage round = trainingRounds[roundId];
+        require(
+            round.status == RoundStatus.Open || round.status == RoundStatus.Collecting,
+            "Round not accepting updates"
+        );
+        require(block.timestamp <= round.deadline, "Round deadline passed");
+        require(!hasContributed[roundId][msg.sender], "Already contributed");
+        require(weightInputs.length == featureSchema.dimension, "Weight dimension mismatch");
+
+        bool firstContribution = round.contributors.length == 0;
+        if (firstContribution) {
+            _setRoundStatus(round, RoundStatus.Collecting);
+        }
+
+        euint32[] memory encryptedWeights = new euint32[](weightInputs.length);
+        for (uint i = 0; i < weightInputs.length; i++) {
+            encryptedWeights[i] = FHE.fromExternal(weightInputs[i], inputProof);
+            FHE.allowThis(encryptedWeights[i]);
+            FHE.allow(encryptedWeights[i], msg.sender);
+
+            euint64 widened = FHE.asEuint64(encryptedWeights[i]);
+            euint64 weightSum = firstContribution ? widened : FHE.add(round.weightSums[i], widened);
+            FHE.allowThis(weightSum);
+            if (firstContribution) {
+                round.weightSums.push(weightSum);
+            } else {
+                round.weightSums[i] = weightSum;
+            }
+        }
+
+        euint32 encryptedBias = FHE.fromExternal(biasInput, inputProof);
+        FHE.allowThis(encryptedBias);
+        FHE.allow(encryptedBias, msg.sender);
+
+        euint64 widenedBias = FHE.asEuint64(encryptedBias);
+        round.biasSum = firstContribution ? widenedBias : FHE.add(round.biasSum, widenedBias);
+        FHE.allowThis(round.biasSum);
+
+        round.contributors.push(participantId);
+        // Keyed by account, a re-registered organization gets a new id but not a second update
+        hasContributed[roundId][msg.sender] = true;
+
         updateCount += 1;
         uint256 newUpdateId = updateCount;
         
         encryptedUpdates[newUpdateId] = EncryptedModelUpdate({
             updateId: newUpdateId,
+            roundId: roundId,
             encryptedWeights: encryptedWeights,
             encryptedBias: encryptedBias,
             participantId: participantId,
@@ -89,17 +542,220 @@ contract FederatedAnomalyFHE is SepoliaConfig {
         emit ModelUpdated(newUpdateId, participantId, block.timestamp);
     }
 
+    // Stops collection: the admin may close early once quorum is met, anyone may close after the
+    // deadline. A round that missed its quorum by the deadline is aborted instead.
+    function closeRound() public {
+        TrainingRound storage round = trainingRounds[currentRoundId];
+        require(
+            round.status == RoundStatus.Open || round.status == RoundStatus.Collecting,
+            "Round not accepting updates"
+        );
+
+        bool quorumReached = round.contributors.length >= round.minParticipants;
+        if (block.timestamp <= round.deadline) {
+            require(msg.sender == admin, "Round still open");
+            require(quorumReached, "Quorum not reached");
+        }
+
+        if (quorumReached) {
+            _setRoundStatus(round, RoundStatus.Aggregating);
+        } else {
+            round.finalizedAt = block.timestamp;
+            _setRoundStatus(round, RoundStatus.Aborted);
+        }
+    }
+
+    function abortRound() public onlyAdmin {
+        TrainingRound storage round = trainingRounds[currentRoundId];
+        require(_isRoundActive(currentRoundId), "No active round");
+
+        round.finalizedAt = block.timestamp;
+        _setRoundStatus(round, RoundStatus.Aborted);
+    }
+
+    // Averages the round's encrypted sums into a new global model version
+    function finalizeRound() public onlyAdmin returns (uint256) {
+        uint256 roundId = currentRoundId;
+        TrainingRound storage round = trainingRounds[roundId];
+        require(round.status == RoundStatus.Aggregating, "Round not closed");
+
+        uint64 contributorCount = uint64(round.contributors.length);
+
+        globalModelVersion += 1;
+        uint256 newVersion = globalModelVersion;
+
+        GlobalModel storage model = globalModels[newVersion];
+        model.version = newVersion;
+        model.roundId = roundId;
+        model.contributors = round.contributors;
+        model.publishedAt = block.timestamp;
+
+        for (uint i = 0; i < round.weightSums.length; i++) {
+            euint64 averagedWeight = FHE.div(round.weightSums[i], contributorCount);
+            _allowToContributors(averagedWeight, round.contributors);
+            model.weights.push(averagedWeight);
+        }
+        model.bias = FHE.div(round.biasSum, contributorCount);
+        _allowToContributors(model.bias, round.contributors);
+
+        round.finalizedAt = block.timestamp;
+        round.modelVersion = newVersion;
+
+        emit ModelAggregated(roundId, newVersion, contributorCount);
+        _setRoundStatus(round, RoundStatus.Finalized);
+        _setActiveModel(newVersion);
+        return newVersion;
+    }
+
+    // Rolls the served model back (or forward) to any published version, e.g. after a poisoned round
+    function pinModelVersion(uint256 version) public onlyAdmin {
+        require(version != 0 && version <= globalModelVersion, "Invalid model version");
+        require(version != activeModelVersion, "Version already active");
+
+        _setActiveModel(version);
+    }
+
+    function getTrainingRound(uint256 roundId) public view returns (
+        RoundStatus status,
+        uint256 startedAt,
+        uint256 deadline,
+        uint64 minParticipants,
+        uint256 finalizedAt,
+        uint256[] memory contributors,
+        uint256 modelVersion
+    ) {
+        TrainingRound storage r = trainingRounds[roundId];
+        return (r.status, r.startedAt, r.deadline, r.minParticipants, r.finalizedAt, r.contributors, r.modelVersion);
+    }
+
+    function getGlobalModel(uint256 version) public view returns (
+        uint256 roundId,
+        euint64[] memory weights,
+        euint64 bias,
+        uint256 publishedAt,
+        uint256[] memory contributors
+    ) {
+        GlobalModel storage m = globalModels[version];
+        return (m.roundId, m.weights, m.bias, m.publishedAt, m.contributors);
+    }
+
+    function getModelHistory() public view returns (
+        uint256[] memory roundIds,
+        uint256[] memory publishedAts,
+        uint256[] memory contributorCounts
+    ) {
+        roundIds = new uint256[](globalModelVersion);
+        publishedAts = new uint256[](globalModelVersion);
+        contributorCounts = new uint256[](globalModelVersion);
+
+        // Index i describes version i + 1
+        for (uint i = 0; i < globalModelVersion; i++) {
+            GlobalModel storage m = globalModels[i + 1];
+            roundIds[i] = m.roundId;
+            publishedAts[i] = m.publishedAt;
+            contributorCounts[i] = m.contributors.length;
+        }
+    }
+
+    function addAuditor(address auditor) public onlyAdmin {
+        require(auditor != address(0), "Invalid auditor");
+        require(!isAuditor[auditor], "Already auditor");
+
+        isAuditor[auditor] = true;
+        auditors.push(auditor);
+        emit AuditorAdded(auditor);
+    }
+
+    // ACL grants are permanent, so a removed auditor keeps access to results shared before removal
+    function removeAuditor(address auditor) public onlyAdmin {
+        require(isAuditor[auditor], "Not auditor");
+
+        isAuditor[auditor] = false;
+        for (uint i = 0; i < auditors.length; i++) {
+            if (auditors[i] == auditor) {
+                auditors[i] = auditors[auditors.length - 1];
+                auditors.pop();
+                break;
+            }
+        }
+        emit AuditorRemoved(auditor);
+    }
+
+    function getAuditors() public view returns (address[] memory) {
+        return auditors;
+    }
+
+    // Results stay encrypted; only the batch owner and auditors can re-encrypt them via the ACL
     function requestAnomalyDetection(uint256 batchId) public {
+        require(batchId != 0 && batchId <= batchCount, "Invalid batch");
         EncryptedDataBatch storage batch = encryptedBatches[batchId];
+        bool ownerActive = _isActiveOwner(batch.participantId, participants[batch.participantId].account);
+        require(_isActiveOwner(batch.participantId, msg.sender) || msg.sender == admin, "Not authorized for batch");
+        require(!disclosurePending[batchId], "Disclosure pending");
+        
+        // Score and verdict are computed on ciphertexts; raw features are never decrypted
+        euint64 score = _computeAnomalyScore(batch.encryptedFeatures);
+        ebool isAnomaly = FHE.gt(score, detectionThresholds[detectionThresholdVersion].value);
+        FHE.allowThis(score);
+        FHE.allowThis(isAnomaly);
+        
+        uint256 resultId = batchId; // Using batchId as resultId for simplicity
+        // A disclosed cleartext belongs to the previous score, so the new one can be disclosed again
+        delete decryptedResults[resultId];
+        encryptedResults[resultId] = EncryptedResult({
+            encryptedScore: score,
+            encryptedIsAnomaly: isAnomaly,
+            thresholdVersion: detectionThresholdVersion
+        });
+
+        // A removed or suspended organization keeps its old grants but gets none for new scores
+        if (ownerActive) {
+            _allowResult(resultId, participants[batch.participantId].account);
+        }
+        for (uint i = 0; i < auditors.length; i++) {
+            _allowResult(resultId, auditors[i]);
+        }
         
+        emit DetectionComputed(resultId, detectionThresholdVersion);
+    }
+
+    // Shares an existing result with an auditor appointed after it was computed
+    function grantResultAccess(uint256 resultId, address auditor) public onlyAdmin {
+        require(_resultExists(resultId), "Result not computed");
+        require(isAuditor[auditor], "Not auditor");
+
+        _allowResult(resultId, auditor);
+    }
+
+    function canAccessResult(uint256 resultId, address account) public view returns (bool) {
+        if (!_resultExists(resultId)) return false;
+        EncryptedResult storage r = encryptedResults[resultId];
+        return FHE.isAllowed(r.encryptedScore, account) && FHE.isAllowed(r.encryptedIsAnomaly, account);
+    }
+
+    // Opt-in public disclosure: the owner asks the oracle to publish the verdict in cleartext
+    function requestResultDisclosure(uint256 resultId) public {
+        require(_resultExists(resultId), "Result not computed");
+        require(_isActiveOwner(encryptedBatches[resultId].participantId, msg.sender), "Not result owner");
+        require(!decryptedResults[resultId].isRevealed, "Already disclosed");
+        require(!disclosurePending[resultId], "Disclosure pending");
+
+        EncryptedResult storage r = encryptedResults[resultId];
         bytes32[] memory ciphertexts = new bytes32[](2);
-        ciphertexts[0] = FHE.toBytes32(batch.encryptedFeatures);
-        ciphertexts[1] = FHE.toBytes32(batch.encryptedLabels);
+        ciphertexts[0] = FHE.toBytes32(r.encryptedScore);
+        ciphertexts[1] = FHE.toBytes32(r.encryptedIsAnomaly);
         
+        // requestDecryption marks both handles as decryptable through IACL.allowForDecryption
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.detectAnomalies.selector);
-        requestToBatchId[reqId] = batchId;
+        decryptionRequests[reqId] = DecryptionRequest({
+            resultId: resultId,
+            status: DecryptionStatus.Pending,
+            requestedAt: block.timestamp,
+            expiresAt: block.timestamp + DECRYPTION_REQUEST_TTL
+        });
+        disclosurePending[resultId] = true;
         
-        emit DetectionRequested(reqId, batchId);
+        emit DetectionRequested(reqId, resultId);
     }
 
     function detectAnomalies(
@@ -107,39 +763,82 @@ contract FederatedAnomalyFHE is SepoliaConfig {
         bytes memory cleartexts,
         bytes memory proof
     ) public {
-        uint256 batchId = requestToBatchId[requestId];
-        require(batchId != 0, "Invalid request");
+        DecryptionRequest storage request = decryptionRequests[requestId];
+        require(request.status != DecryptionStatus.None, "Invalid request");
+        require(request.status == DecryptionStatus.Pending, "Request already settled");
+        // A late answer settles the request as failed rather than reverting and leaving it pending
+        if (block.timestamp > request.expiresAt) {
+            _expireDecryptionRequest(requestId, request);
+            return;
+        }
         
         FHE.checkSignatures(requestId, cleartexts, proof);
         
-        (uint32[] memory features, uint32[] memory labels) = abi.decode(cleartexts, (uint32[], uint32[]));
+        // One-shot: a replayed or duplicate callback fails the Pending check above
+        request.status = DecryptionStatus.Fulfilled;
+        uint256 resultId = request.resultId;
+        disclosurePending[resultId] = false;
         
-        // Simplified anomaly detection (in production this would use FHE ML model)
-        uint32 score = calculateAnomalyScore(features);
-        bool isAnomaly = score > 50; // Threshold for demo purposes
+        (uint64 score, bool isAnomaly) = abi.decode(cleartexts, (uint64, bool));
         
-        // Store result (in production this would remain encrypted)
-        uint256 resultId = batchId; // Using batchId as resultId for simplicity
         decryptedResults[resultId] = DecryptedResult({
             anomalyScore: score,
             isAnomaly: isAnomaly,
-            isRevealed: true
+            isRevealed: true,
+            thresholdVersion: encryptedResults[resultId].thresholdVersion
         });
         
         emit ResultDecrypted(resultId);
     }
 
+    // Settles a request the oracle never answered so its owner can ask again
+    function expireDecryptionRequest(uint256 requestId) public {
+        DecryptionRequest storage request = decryptionRequests[requestId];
+        require(request.status == DecryptionStatus.Pending, "Request not pending");
+        require(block.timestamp > request.expiresAt, "Request not expired");
+
+        _expireDecryptionRequest(requestId, request);
+    }
+
+    function getDecryptionRequest(uint256 requestId) public view returns (
+        uint256 resultId,
+        DecryptionStatus status,
+        uint256 requestedAt,
+        uint256 expiresAt
+    ) {
+        DecryptionRequest storage r = decryptionRequests[requestId];
+        return (r.resultId, r.status, r.requestedAt, r.expiresAt);
+    }
+
     function getDecryptedResult(uint256 resultId) public view returns (
-        uint32 anomalyScore,
+        uint64 anomalyScore,
         bool isAnomaly,
-        bool isRevealed
+        bool isRevealed,
+        uint256 thresholdVersion
     ) {
         DecryptedResult storage r = decryptedResults[resultId];
-        return (r.anomalyScore, r.isAnomaly, r.isRevealed);
+        return (r.anomalyScore, r.isAnomaly, r.isRevealed, r.thresholdVersion);
+    }
+
+    function getEncryptedResult(uint256 resultId) public view returns (
+        euint64 score,
+        ebool isAnomaly,
+        uint256 thresholdVersion
+    ) {
+        EncryptedResult storage r = encryptedResults[resultId];
+        return (r.encryptedScore, r.encryptedIsAnomaly, r.thresholdVersion);
+    }
+
+    function getDetectionThreshold(uint256 version) public view returns (
+        euint64 threshold,
+        uint256 updatedAt
+    ) {
+        DetectionThreshold storage t = detectionThresholds[version];
+        return (t.value, t.updatedAt);
     }
 
     function getEncryptedBatch(uint256 batchId) public view returns (
-        euint32 features,
+        euint64[] memory features,
         euint32 labels,
         uint256 participantId,
         uint256 timestamp
@@ -149,21 +848,179 @@ contract FederatedAnomalyFHE is SepoliaConfig {
     }
 
     function getEncryptedUpdate(uint256 updateId) public view returns (
-        euint32 weights,
+        euint32[] memory weights,
         euint32 bias,
         uint256 participantId,
-        uint256 timestamp
+        uint256 timestamp,
+        uint256 roundId
     ) {
         EncryptedModelUpdate storage u = encryptedUpdates[updateId];
-        return (u.encryptedWeights, u.encryptedBias, u.participantId, u.timestamp);
+        return (u.encryptedWeights, u.encryptedBias, u.participantId, u.timestamp, u.roundId);
+    }
+
+    function _storeBatch(
+        bytes32[] calldata featureInputs,
+        externalEuint32 labelsInput,
+        bytes calldata inputProof,
+        uint256 participantId
+    ) private returns (uint256) {
+        require(featureInputs.length == featureSchema.dimension, "Feature dimension mismatch");
+
+        euint64[] memory encryptedFeatures = new euint64[](featureInputs.length);
+        for (uint i = 0; i < featureInputs.length; i++) {
+            encryptedFeatures[i] = _importFeature(featureInputs[i], inputProof);
+            FHE.allowThis(encryptedFeatures[i]);
+            FHE.allow(encryptedFeatures[i], msg.sender);
+        }
+
+        euint32 encryptedLabels = FHE.fromExternal(labelsInput, inputProof);
+        FHE.allowThis(encryptedLabels);
+        FHE.allow(encryptedLabels, msg.sender);
+
+        batchCount += 1;
+        uint256 newBatchId = batchCount;
+        
+        encryptedBatches[newBatchId] = EncryptedDataBatch({
+            batchId: newBatchId,
+            encryptedFeatures: encryptedFeatures,
+            encryptedLabels: encryptedLabels,
+            participantId: participantId,
+            timestamp: block.timestamp
+        });
+        
+        emit BatchSubmitted(newBatchId, participantId, block.timestamp);
+        return newBatchId;
+    }
+
+    function _appendAnomaly(
+        string calldata key,
+        uint256 batchId,
+        uint256 participantId,
+        address reporter,
+        bytes calldata record,
+        uint256 reportedAt,
+        AnomalyStatus status
+    ) private returns (uint256) {
+        bytes32 keyHash = keccak256(bytes(key));
+        require(bytes(key).length > 0, "Key required");
+        require(record.length > 0, "Record required");
+        require(anomalyIdByKey[keyHash] == 0, "Anomaly key taken");
+        require(status != AnomalyStatus.None, "Invalid status");
+
+        anomalyCount += 1;
+        uint256 newAnomalyId = anomalyCount;
+
+        anomalyReports[newAnomalyId] = AnomalyReport({
+            anomalyId: newAnomalyId,
+            key: key,
+            batchId: batchId,
+            participantId: participantId,
+            reporter: reporter,
+            record: record,
+            reportedAt: reportedAt,
+            updatedAt: reportedAt,
+            status: status,
+            reviewRound: 1,
+            confirmations: 0,
+            rejections: 0
+        });
+        anomalyIdByKey[keyHash] = newAnomalyId;
+
+        emit AnomalyAppended(newAnomalyId, batchId, reporter, key, record);
+        emit AnomalyStatusChanged(newAnomalyId, status, 1);
+        return newAnomalyId;
+    }
+
+    function _anomalyIdOf(string calldata key) private view returns (uint256) {
+        uint256 anomalyId = anomalyIdByKey[keccak256(bytes(key))];
+        require(anomalyId != 0, "Unknown anomaly");
+        return anomalyId;
+    }
+
+    function _setAnomalyStatus(uint256 anomalyId, AnomalyReport storage report, AnomalyStatus status) private {
+        report.status = status;
+        emit AnomalyStatusChanged(anomalyId, status, report.reviewRound);
+    }
+
+    function _setParticipantStatus(uint256 participantId, ParticipantStatus status) private {
+        participants[participantId].status = status;
+        emit ParticipantStatusChanged(participantId, status);
+    }
+
+    function _setRoundStatus(TrainingRound storage round, RoundStatus status) private {
+        round.status = status;
+        emit RoundStatusChanged(round.roundId, status);
+    }
+
+    function _expireDecryptionRequest(uint256 requestId, DecryptionRequest storage request) private {
+        request.status = DecryptionStatus.Expired;
+        disclosurePending[request.resultId] = false;
+
+        emit DecryptionFailed(requestId, request.resultId, "Request expired");
+    }
+
+    // participantIdOf is cleared on removal, so this also rejects the old account of a removed organization
+    function _isActiveOwner(uint256 participantId, address account) private view returns (bool) {
+        return participantId != 0
+            && participantIdOf[account] == participantId
+            && participants[participantId].status == ParticipantStatus.Active;
+    }
+
+    function _resultExists(uint256 resultId) private view returns (bool) {
+        return encryptedResults[resultId].thresholdVersion != 0;
+    }
+
+    function _allowResult(uint256 resultId, address account) private {
+        EncryptedResult storage r = encryptedResults[resultId];
+        FHE.allow(r.encryptedScore, account);
+        FHE.allow(r.encryptedIsAnomaly, account);
+        emit ResultAccessGranted(resultId, account);
+    }
+
+    function _setDetectionThreshold(euint64 threshold) private {
+        FHE.allowThis(threshold);
+        FHE.allow(threshold, admin);
+
+        detectionThresholdVersion += 1;
+        detectionThresholds[detectionThresholdVersion] = DetectionThreshold({
+            value: threshold,
+            updatedAt: block.timestamp
+        });
+
+        emit DetectionThresholdUpdated(detectionThresholdVersion, msg.sender, block.timestamp);
+    }
+
+    function _setActiveModel(uint256 version) private {
+        uint256 previousVersion = activeModelVersion;
+        activeModelVersion = version;
+        emit ActiveModelChanged(version, previousVersion);
+    }
+
+    function _isRoundActive(uint256 roundId) private view returns (bool) {
+        RoundStatus status = trainingRounds[roundId].status;
+        return status == RoundStatus.Open || status == RoundStatus.Collecting || status == RoundStatus.Aggregating;
+    }
+
+    function _allowToContributors(euint64 value, uint256[] storage contributors) private {
+        FHE.allowThis(value);
+        for (uint i = 0; i < contributors.length; i++) {
+            FHE.allow(value, participants[contributors[i]].account);
+        }
+    }
+
+    function _importFeature(bytes32 featureInput, bytes calldata inputProof) private returns (euint64) {
+        if (featureSchema.bitWidth == 32) {
+            return FHE.asEuint64(FHE.fromExternal(externalEuint32.wrap(featureInput), inputProof));
+        }
+        return FHE.fromExternal(externalEuint64.wrap(featureInput), inputProof);
     }
 
-    // Helper function for simplified anomaly detection
-    function calculateAnomalyScore(uint32[] memory features) private pure returns (uint32) {
-        uint32 sum = 0;
-        for (uint i = 0; i < features.length; i++) {
-            sum += features[i];
+    // Mean of the encrypted feature vector, computed homomorphically
+    function _computeAnomalyScore(euint64[] storage features) private returns (euint64) {
+        euint64 sum = features[0];
+        for (uint i = 1; i < features.length; i++) {
+            sum = FHE.add(sum, features[i]);
         }
-        return sum / uint32(features.length);
+        return FHE.div(sum, uint64(features.length));
     }
 }
\ No newline at end of file
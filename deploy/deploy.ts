@@ -340,46 +340,67 @@ async function main() {
   // Deploy the plain UniversalAdapter contract
   const UniversalAdapterFactory = await hardhatEthers.getContractFactory("UniversalAdapter", wallet);
   const factory = await UniversalAdapterFactory.deploy();
-  await factory.waitForDeployment();
+  const factoryReceipt = await factory.deploymentTransaction()?.wait();
 
   const deployedAddress = (factory as any).target || (factory as any).address;
   console.log("UniversalAdapter contract deployed at:", deployedAddress);
 
+  // Deploy the FederatedAnomalyFHE contract with its feature schema
+  const featureDimension = Number((await ask("Feature dimension per batch (press Enter for 8): ")) || "8");
+  const featureBitWidth = Number((await ask("Feature bit width, 32 or 64 (press Enter for 32): ")) || "32");
+
+  const FederatedAnomalyFactory = await hardhatEthers.getContractFactory("FederatedAnomalyFHE", wallet);
+  const federatedAnomaly = await FederatedAnomalyFactory.deploy(featureDimension, featureBitWidth);
+  const federatedAnomalyReceipt = await federatedAnomaly.deploymentTransaction()?.wait();
+
+  const federatedAnomalyAddress = await federatedAnomaly.getAddress();
+  console.log("FederatedAnomalyFHE contract deployed at:", federatedAnomalyAddress);
+
   // Write config for the frontend
   const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
   if (!fs.existsSync(frontendConfigDir)) {
     console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
   } else {
-    const config = {
+    // Deployments are kept per chain id, so local and testnet deployments live side by side.
+    // The frontend starts on the chain deployed to last.
+    const configPath = path.join(frontendConfigDir, "config.json");
+    const { chainId } = await provider.getNetwork();
+    const existing = fs.existsSync(configPath) ? JSON.parse(fs.readFileSync(configPath, "utf8")) : {};
+    const networks = existing.networks ?? {};
+    networks[chainId.toString()] = {
+      ...networks[chainId.toString()],
       network: rpc,
       contractAddress: deployedAddress,
+      contractDeployBlock: factoryReceipt?.blockNumber,
+      federatedAnomalyAddress,
+      federatedAnomalyDeployBlock: federatedAnomalyReceipt?.blockNumber,
       deployer: wallet.address,
     };
-    fs.writeFileSync(
-      path.join(frontendConfigDir, "config.json"),
-      JSON.stringify(config, null, 2)
-    );
-    console.log("Wrote frontend config: frontend/web/src/config.json");
+    const config = { defaultChainId: Number(chainId), networks };
+    fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
+    console.log(`Wrote frontend config for chain ${chainId}: frontend/web/src/config.json`);
 
-    // Copy ABI to the frontend
-    try {
-      const artifactPath = path.join(
-        __dirname,
-        "..",
-        "artifacts",
-        "contracts",
-        "UniversalAdapter.sol",
-        "UniversalAdapter.json"
-      );
-      const targetAbiPath = path.join(frontendConfigDir, "abi");
-      if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-      fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalAdapter.json"));
-      console.log("Copied ABI to frontend/web/src/abi/UniversalAdapter.json");
-    } catch (e) {
-      console.warn(
-        "Failed to copy ABI automatically. Please copy artifacts/.../UniversalAdapter.json manually to frontend/web/src/abi/UniversalAdapter.json",
-        e
-      );
+    // Copy ABIs to the frontend
+    for (const contractName of ["UniversalAdapter", "FederatedAnomalyFHE"]) {
+      try {
+        const artifactPath = path.join(
+          __dirname,
+          "..",
+          "artifacts",
+          "contracts",
+          `${contractName}.sol`,
+          `${contractName}.json`
+        );
+        const targetAbiPath = path.join(frontendConfigDir, "abi");
+        if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
+        fs.copyFileSync(artifactPath, path.join(targetAbiPath, `${contractName}.json`));
+        console.log(`Copied ABI to frontend/web/src/abi/${contractName}.json`);
+      } catch (e) {
+        console.warn(
+          `Failed to copy ABI automatically. Please copy artifacts/.../${contractName}.json manually to frontend/web/src/abi/${contractName}.json`,
+          e
+        );
+      }
     }
   }
 }
@@ -1,58 +1,197 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { Link, Navigate, Route, Routes, useLocation, useMatch, useNavigate, useSearchParams } from "react-router-dom";
+import {
+  getFederatedContractReadOnly,
+  getRpcPool,
+  getTransactionManager,
+  federatedCalls,
+  fetchFeatureSchema,
+  fetchParticipants,
+  fetchEncryptedBatches,
+  fetchModelUpdates,
+  fetchDetectionRequests,
+  fetchDetectionResults,
+  fetchComputedResults,
+  fetchCurrentRound,
+  fetchModelHistory,
+  config,
+  FeatureSchema,
+  Participant,
+  EncryptedBatch,
+  ModelUpdate,
+  DetectionRequest,
+  DetectionResult,
+  ComputedResult,
+  TrainingRound,
+  GlobalModelVersion
+} from "./contract";
+import { encryptFeatureBatch, encryptThreshold, parseDataPoints, userDecryptResult } from "./fhe";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
+import NetworkSelector from "./components/NetworkSelector";
+import DecryptionTracker from "./components/DecryptionTracker";
+import AuditDrawer from "./components/AuditDrawer";
+import AnomalyDetail from "./components/AnomalyDetail";
+import RoundDetail from "./components/RoundDetail";
+import AnomalyFilters from "./components/AnomalyFilters";
+import Pagination from "./components/Pagination";
+import TransactionQueue, { TransactionActions } from "./components/TransactionQueue";
+import { AuditEntry, buildAnomalyTrail, buildModelUpdateTrail, signAuditExport } from "./audit";
+import { verifyAuditExport } from "./auditExport";
+import { AnomalyReview, IndexStatus, syncAnomalyRecords } from "./indexer";
+import { AnomalyRecord, decodeAnomalyRecord, encodeAnomalyRecord } from "./anomalyRecord";
+import { decodeError, describeError } from "./errors";
+import { CostPreview, PlannedCall, estimateCalls, formatFee } from "./gasEstimate";
+import { activeNetwork, explorerTxUrl } from "./networks";
+import { ManagedTransaction, isSettled } from "./txManager";
+import { AnomalyQuery, AnomalySortKey, PAGE_SIZES, parseAnomalyQuery, queryAnomalies, serializeAnomalyQuery, toggleSort } from "./anomalyQuery";
 import "./App.css";
 
-interface AnomalyData {
+interface AnomalyData extends AnomalyRecord {
   id: string;
-  encryptedData: string;
-  timestamp: number;
-  organization: string;
-  anomalyType: string;
-  confidence: number;
-  status: "detected" | "verified" | "false_positive";
+  registered: boolean;       // In the on-chain registry rather than the legacy adapter store
+  review?: AnomalyReview;    // Registry review, its status overrides the one in the record
+}
+
+// Stored records that failed validation, listed instead of being dropped
+interface QuarantinedRecord {
+  id: string;
+  errors: string[];
+  registered: boolean;
+  blockNumber: number;
+}
+
+// Top level pages, each served at /<section>
+const SECTIONS = ["dashboard", "anomalies", "federated", "models", "participants", "team"];
+
+// Modal over the page; txId ties it to a transaction in the manager, whose progress it then shows
+interface TransactionStatus {
+  visible: boolean;
+  status: "pending" | "success" | "error";
+  message: string;
+  hint?: string;
+  txId?: string;
+}
+
+const HIDDEN_STATUS: TransactionStatus = { visible: false, status: "pending", message: "" };
+
+// History shown in the audit drawer; subject identifies the record in the signed export
+interface AuditTrail {
+  title: string;
+  subject: string;
+  entries: AuditEntry[];
+  loading: boolean;
+  error: string;
 }
 
 const App: React.FC = () => {
   const [account, setAccount] = useState("");
   const [loading, setLoading] = useState(true);
   const [anomalies, setAnomalies] = useState<AnomalyData[]>([]);
+  const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([]);
+  const [reviewQuorum, setReviewQuorum] = useState(0);
+  const [newReviewQuorum, setNewReviewQuorum] = useState("");
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
   const [walletSelectorOpen, setWalletSelectorOpen] = useState(false);
-  const [transactionStatus, setTransactionStatus] = useState<{
-    visible: boolean;
-    status: "pending" | "success" | "error";
-    message: string;
-  }>({ visible: false, status: "pending", message: "" });
+  const [transactionStatus, setTransactionStatus] = useState<TransactionStatus>(HIDDEN_STATUS);
+  const [transactions, setTransactions] = useState<ManagedTransaction[]>([]);
+  const [loadError, setLoadError] = useState<{ message: string; hint?: string } | null>(null);
+  const [indexStatus, setIndexStatus] = useState<IndexStatus | null>(null);
   const [newAnomalyData, setNewAnomalyData] = useState({
     anomalyType: "",
     description: "",
     dataPoints: ""
   });
-  const [searchTerm, setSearchTerm] = useState("");
-  const [filterType, setFilterType] = useState("all");
-  const [activeSection, setActiveSection] = useState("dashboard");
+  // Encrypted report for the form contents in key, shared by the cost preview and the submission
+  const preparedReport = useRef<{ key: string; call: PlannedCall } | null>(null);
+  const [costPreview, setCostPreview] = useState<{ key: string; preview?: CostPreview; error?: string } | null>(null);
+  const [estimatingCost, setEstimatingCost] = useState(false);
+  const navigate = useNavigate();
+  const location = useLocation();
+  // Detail routes render their own page but keep the parent section highlighted in the nav
+  const activeSection = useMatch("/:section")?.params.section ?? "";
+  const navSection = location.pathname.startsWith("/rounds/") ? "federated" : location.pathname.split("/")[1];
+  const [featureSchema, setFeatureSchema] = useState<FeatureSchema | null>(null);
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [adminAddress, setAdminAddress] = useState("");
+  const [newParticipant, setNewParticipant] = useState({
+    organization: "",
+    metadataURI: ""
+  });
+  const [batches, setBatches] = useState<EncryptedBatch[]>([]);
+  const [modelUpdates, setModelUpdates] = useState<ModelUpdate[]>([]);
+  const [detectionRequests, setDetectionRequests] = useState<DetectionRequest[]>([]);
+  const [detectionResults, setDetectionResults] = useState<DetectionResult[]>([]);
+  const [computedResults, setComputedResults] = useState<ComputedResult[]>([]);
+  const [privateResults, setPrivateResults] = useState<Record<number, { score: number; isAnomaly: boolean }>>({});
+  const [auditors, setAuditors] = useState<string[]>([]);
+  const [newAuditor, setNewAuditor] = useState("");
+  const [currentRound, setCurrentRound] = useState<TrainingRound | null>(null);
+  const [modelHistory, setModelHistory] = useState<GlobalModelVersion[]>([]);
+  const [auditTrail, setAuditTrail] = useState<AuditTrail | null>(null);
+  const [exportingAudit, setExportingAudit] = useState(false);
+  const [activeModelVersion, setActiveModelVersion] = useState(0);
+  const [thresholdVersion, setThresholdVersion] = useState(0);
+  const [newThreshold, setNewThreshold] = useState("");
+  const [newRound, setNewRound] = useState({
+    minParticipants: "2",
+    durationMinutes: "60"
+  });
+  const [now, setNow] = useState(Math.floor(Date.now() / 1000));
 
   // Calculate statistics
   const detectedCount = anomalies.filter(a => a.status === "detected").length;
   const verifiedCount = anomalies.filter(a => a.status === "verified").length;
   const falsePositiveCount = anomalies.filter(a => a.status === "false_positive").length;
 
-  // Filter anomalies based on search and filter
-  const filteredAnomalies = anomalies.filter(anomaly => {
-    const matchesSearch = anomaly.anomalyType.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         anomaly.organization.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesFilter = filterType === "all" || anomaly.status === filterType;
-    return matchesSearch && matchesFilter;
-  });
+  // The anomaly table query lives in the URL so filtered views can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const anomalyQuery = useMemo(() => parseAnomalyQuery(searchParams), [searchParams]);
+  const anomalyPage = useMemo(() => queryAnomalies(anomalies, anomalyQuery), [anomalies, anomalyQuery]);
+  const anomalyTypeOptions = useMemo(
+    () => [...new Set(anomalies.map(a => a.anomalyType))].sort().map(type => ({ value: type, label: type })),
+    [anomalies]
+  );
+  const anomalyOrganizationOptions = useMemo(
+    () => [...new Set(anomalies.map(a => a.organization.toLowerCase()))].sort().map(address => ({
+      value: address,
+      label: participants.find(p => p.account.toLowerCase() === address)?.organization || `${address.substring(0, 6)}...${address.substring(38)}`
+    })),
+    [anomalies, participants]
+  );
 
   useEffect(() => {
-    loadAnomalies().finally(() => setLoading(false));
+    Promise.all([loadAnomalies(), loadFederatedData()]).finally(() => setLoading(false));
+  }, []);
+
+  // Pull new DataStored logs into the local index
+  useEffect(() => {
+    const timer = setInterval(() => loadAnomalies(), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Transactions restored from an earlier visit have no caller waiting on them, reload when they land
+  useEffect(() => {
+    const manager = getTransactionManager();
+    const restored = new Set(manager.list().filter(tx => !isSettled(tx)).map(tx => tx.id));
+    return manager.subscribe(list => {
+      setTransactions(list);
+      const landed = list.filter(tx => restored.has(tx.id) && isSettled(tx));
+      if (landed.length > 0) {
+        landed.forEach(tx => restored.delete(tx.id));
+        refreshAll();
+      }
+    });
+  }, []);
+
+  // Tick once per second for the round countdown
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
   }, []);
 
   const onWalletSelect = async (wallet: any) => {
@@ -69,7 +208,7 @@ const App: React.FC = () => {
         setAccount(newAcc);
       });
     } catch (e) {
-      alert("Failed to connect wallet");
+      alert(describeError(e, "Failed to connect wallet"));
     }
   };
 
@@ -81,64 +220,420 @@ const App: React.FC = () => {
 
   const loadAnomalies = async () => {
     setIsRefreshing(true);
+    setIndexStatus(null);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      // Check contract availability
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        console.error("Contract is not available");
-        return;
-      }
-      
-      const keysBytes = await contract.getData("anomaly_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing anomaly keys:", e);
-        }
-      }
-      
+      // Served from the local event index, which only fetches logs newer than its cursor
+      const { records, reviews } = await syncAnomalyRecords(setIndexStatus);
       const list: AnomalyData[] = [];
+      const invalid: QuarantinedRecord[] = [];
       
-      for (const key of keys) {
+      for (const record of records) {
+        if (record.key === "anomaly_keys") continue;
+        const id = record.key.substring("anomaly_".length);
+        
+        let json: string;
         try {
-          const anomalyBytes = await contract.getData(`anomaly_${key}`);
-          if (anomalyBytes.length > 0) {
-            try {
-              const anomalyData = JSON.parse(ethers.toUtf8String(anomalyBytes));
-              list.push({
-                id: key,
-                encryptedData: anomalyData.data,
-                timestamp: anomalyData.timestamp,
-                organization: anomalyData.organization,
-                anomalyType: anomalyData.anomalyType,
-                confidence: anomalyData.confidence || 0,
-                status: anomalyData.status || "detected"
-              });
-            } catch (e) {
-              console.error(`Error parsing anomaly data for ${key}:`, e);
-            }
-          }
+          json = ethers.toUtf8String(record.value);
         } catch (e) {
-          console.error(`Error loading anomaly ${key}:`, e);
+          invalid.push({ id, errors: ["record is not UTF-8 text"], registered: record.registered, blockNumber: record.blockNumber });
+          continue;
+        }
+        
+        const decoded = decodeAnomalyRecord(json);
+        if (!decoded.ok) {
+          invalid.push({ id, errors: decoded.errors, registered: record.registered, blockNumber: record.blockNumber });
+          continue;
         }
+        const review = record.anomalyId !== undefined ? reviews.get(record.anomalyId) : undefined;
+        list.push({
+          ...decoded.record,
+          status: review && review.status !== "none" ? review.status : decoded.record.status,
+          batchId: record.batchId ?? decoded.record.batchId,
+          id,
+          registered: record.registered,
+          review
+        });
       }
       
       list.sort((a, b) => b.timestamp - a.timestamp);
       setAnomalies(list);
+      setQuarantined(invalid.sort((a, b) => b.blockNumber - a.blockNumber));
     } catch (e) {
-      console.error("Error loading anomalies:", e);
+      showLoadError(e);
     } finally {
+      // Progress is only interesting while it lasts, reorg warnings stay until the next refresh
+      setIndexStatus(current => current?.warning ? current : null);
       setIsRefreshing(false);
       setLoading(false);
     }
   };
 
+  const loadFederatedData = async () => {
+    try {
+      const contract = await getFederatedContractReadOnly();
+      if (!contract) return;
+      
+      const [schema, admin, participantList, batchList, updateList, requestList, resultList, round, history, activeVersion, currentThresholdVersion, computedList, auditorList, quorum] = await Promise.all([
+        fetchFeatureSchema(contract),
+        contract.admin(),
+        fetchParticipants(contract),
+        fetchEncryptedBatches(contract),
+        fetchModelUpdates(contract),
+        fetchDetectionRequests(contract),
+        fetchDetectionResults(contract),
+        fetchCurrentRound(contract),
+        fetchModelHistory(contract),
+        contract.activeModelVersion(),
+        contract.detectionThresholdVersion(),
+        fetchComputedResults(contract),
+        contract.getAuditors(),
+        contract.reviewQuorum()
+      ]);
+      
+      setFeatureSchema(schema);
+      setAdminAddress(admin);
+      setParticipants(participantList.sort((a, b) => a.participantId - b.participantId));
+      setBatches(batchList.sort((a, b) => b.batchId - a.batchId));
+      setModelUpdates(updateList.sort((a, b) => b.updateId - a.updateId));
+      setDetectionRequests(requestList);
+      setDetectionResults(resultList.sort((a, b) => b.resultId - a.resultId));
+      setCurrentRound(round);
+      setModelHistory(history.sort((a, b) => b.version - a.version));
+      setActiveModelVersion(Number(activeVersion));
+      setThresholdVersion(Number(currentThresholdVersion));
+      setComputedResults(computedList);
+      setAuditors([...auditorList]);
+      setReviewQuorum(Number(quorum));
+    } catch (e) {
+      showLoadError(e);
+    }
+  };
+
+  // Reads fail over between RPC endpoints on their own, so whatever reaches here needs the user
+  const showLoadError = (e: unknown) => {
+    const error = decodeError(e, "network");
+    setLoadError({ message: error.message, hint: error.hint });
+  };
+
+  const refreshAll = async () => {
+    setLoadError(null);
+    await Promise.all([loadAnomalies(), loadFederatedData()]);
+  };
+
+  // Shows a final state and hides it after a while, unless something else has been shown since
+  const flashTransactionStatus = (status: TransactionStatus, ms: number) => {
+    setTransactionStatus(status);
+    setTimeout(() => setTransactionStatus(current => current === status ? HIDDEN_STATUS : current), ms);
+  };
+
+  // The decoded message, with what to do about it underneath; kept up longer when there is a hint to read
+  const showTransactionError = (action: string, e: unknown) => {
+    const error = decodeError(e);
+    flashTransactionStatus({
+      visible: true,
+      status: "error",
+      message: `${action}: ${error.message}`,
+      hint: error.hint
+    }, error.hint ? 6000 : 3000);
+  };
+
+  // Queued in the transaction manager; the modal follows the record from signature to confirmation
+  const submitTransaction = (label: string, build: () => Promise<ethers.TransactionRequest>) =>
+    getTransactionManager().submit(label, build, tx => setTransactionStatus(current => ({ ...current, txId: tx.id })));
+
+  const speedUpTransaction = (id: string) =>
+    getTransactionManager().speedUp(id).catch(e => alert(describeError(e, "Speed up failed")));
+
+  const cancelTransaction = (id: string) =>
+    getTransactionManager().cancel(id).catch(e => alert(describeError(e, "Cancel failed")));
+
+  // Resolves to whether the transaction was confirmed
+  const sendFederatedTx = async (
+    pendingMessage: string,
+    successMessage: string,
+    build: (contract: typeof federatedCalls) => Promise<ethers.ContractTransaction>
+  ) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return false;
+    }
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: pendingMessage
+    });
+
+    try {
+      await submitTransaction(pendingMessage, () => build(federatedCalls));
+      
+      flashTransactionStatus({
+        visible: true,
+        status: "success",
+        message: successMessage
+      }, 2000);
+      
+      await loadFederatedData();
+      return true;
+    } catch (e) {
+      showTransactionError("Transaction failed", e);
+      return false;
+    }
+  };
+
+  const requestDetection = (batchId: number) => sendFederatedTx(
+    "Scoring encrypted batch...",
+    "Encrypted verdict computed, decrypt it to view the result",
+    contract => contract.requestAnomalyDetection.populateTransaction(batchId)
+  );
+
+  const requestDisclosure = (resultId: number) => sendFederatedTx(
+    "Requesting public disclosure of the verdict...",
+    "Disclosure requested, waiting for the decryption oracle",
+    contract => contract.requestResultDisclosure.populateTransaction(resultId)
+  );
+
+  // A timed-out request still blocks the result until it is settled as expired
+  const reRequestDisclosure = async (request: DetectionRequest) => {
+    if (request.status === "pending") {
+      const expired = await sendFederatedTx(
+        `Expiring the timed-out request for batch #${request.batchId}...`,
+        "Request expired",
+        contract => contract.expireDecryptionRequest.populateTransaction(request.requestId)
+      );
+      if (!expired) return;
+    }
+    await sendFederatedTx(
+      `Re-requesting disclosure of batch #${request.batchId}...`,
+      "Disclosure requested again, waiting for the decryption oracle",
+      contract => contract.requestResultDisclosure.populateTransaction(request.batchId)
+    );
+  };
+
+  const decryptResult = async (resultId: number) => {
+    const result = computedResults.find(r => r.resultId === resultId);
+    if (!provider || !result) return;
+    
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Sign the request to decrypt the result for your account..."
+    });
+    
+    try {
+      const signer = await provider.getSigner();
+      const clear = await userDecryptResult(
+        config.federatedAnomalyAddress,
+        signer,
+        result.scoreHandle,
+        result.verdictHandle
+      );
+      setPrivateResults(prev => ({ ...prev, [resultId]: clear }));
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
+    } catch (e) {
+      showTransactionError("Decryption failed", e);
+    }
+  };
+
+  const addAuditor = async () => {
+    if (!ethers.isAddress(newAuditor)) {
+      alert("Please enter a valid auditor address");
+      return;
+    }
+    await sendFederatedTx(
+      "Adding auditor...",
+      "Auditor added",
+      contract => contract.addAuditor.populateTransaction(newAuditor)
+    );
+    setNewAuditor("");
+  };
+
+  const removeAuditor = (auditor: string) => sendFederatedTx(
+    "Removing auditor...",
+    "Auditor removed",
+    contract => contract.removeAuditor.populateTransaction(auditor)
+  );
+
+  const registerParticipant = async () => {
+    if (!newParticipant.organization) {
+      alert("Please enter an organization name");
+      return;
+    }
+    await sendFederatedTx(
+      "Submitting participant registration...",
+      "Registration submitted, awaiting admin approval",
+      contract => contract.registerParticipant.populateTransaction(newParticipant.organization, newParticipant.metadataURI)
+    );
+    setNewParticipant({ organization: "", metadataURI: "" });
+  };
+
+  const approveParticipant = (participantId: number) => sendFederatedTx(
+    "Approving participant...",
+    "Participant approved",
+    contract => contract.approveParticipant.populateTransaction(participantId)
+  );
+
+  const suspendParticipant = (participantId: number) => sendFederatedTx(
+    "Suspending participant...",
+    "Participant suspended",
+    contract => contract.suspendParticipant.populateTransaction(participantId)
+  );
+
+  const reinstateParticipant = (participantId: number) => sendFederatedTx(
+    "Reinstating participant...",
+    "Participant reinstated",
+    contract => contract.reinstateParticipant.populateTransaction(participantId)
+  );
+
+  const removeParticipant = (participantId: number) => sendFederatedTx(
+    "Removing participant...",
+    "Participant removed",
+    contract => contract.removeParticipant.populateTransaction(participantId)
+  );
+
+  const startRound = async () => {
+    const minParticipants = parseInt(newRound.minParticipants);
+    const durationMinutes = parseInt(newRound.durationMinutes);
+    if (!(minParticipants > 0) || !(durationMinutes > 0)) {
+      alert("Quorum and duration must be positive numbers");
+      return;
+    }
+    await sendFederatedTx(
+      "Opening training round...",
+      "Training round opened",
+      contract => contract.startTrainingRound.populateTransaction(minParticipants, durationMinutes * 60)
+    );
+  };
+
+  const closeRound = () => sendFederatedTx(
+    "Closing training round...",
+    "Training round closed",
+    contract => contract.closeRound.populateTransaction()
+  );
+
+  const finalizeRound = () => sendFederatedTx(
+    "Aggregating encrypted model updates...",
+    "New global model version published",
+    contract => contract.finalizeRound.populateTransaction()
+  );
+
+  const abortRound = () => sendFederatedTx(
+    "Aborting training round...",
+    "Training round aborted",
+    contract => contract.abortRound.populateTransaction()
+  );
+
+  const updateThreshold = async () => {
+    if (!/^\d+$/.test(newThreshold)) {
+      alert("Threshold must be an unsigned integer");
+      return;
+    }
+    // Encrypted client-side so the value never appears in calldata or events
+    await sendFederatedTx(
+      "Encrypting and updating detection threshold...",
+      "Detection threshold updated",
+      async contract => {
+        const encrypted = await encryptThreshold(config.federatedAnomalyAddress, account, BigInt(newThreshold));
+        return contract.setDetectionThreshold.populateTransaction(encrypted.handle, encrypted.inputProof);
+      }
+    );
+    setNewThreshold("");
+  };
+
+  const pinModelVersion = (version: number) => sendFederatedTx(
+    `Pinning global model v${version}...`,
+    `Global model v${version} is now active`,
+    contract => contract.pinModelVersion.populateTransaction(version)
+  );
+
+  const formatTimeRemaining = (deadline: number) => {
+    const seconds = deadline - now;
+    if (seconds <= 0) return "Deadline passed";
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    return `${hours}h ${minutes.toString().padStart(2, "0")}m ${(seconds % 60).toString().padStart(2, "0")}s`;
+  };
+
+  const getBatchDetectionStatus = (batchId: number) => {
+    if (detectionResults.some(r => r.resultId === batchId)) return "decrypted";
+    if (detectionRequests.some(r => r.batchId === batchId && r.status === "pending")) return "requested";
+    if (computedResults.some(r => r.resultId === batchId)) return "computed";
+    return "none";
+  };
+
+  const shortHandle = (handle: string) => `${handle.substring(0, 10)}...${handle.substring(62)}`;
+
+  const reportKey = JSON.stringify([account, newAnomalyData]);
+
+  // Encryption goes through the relayer, so it runs once per form state rather than once per estimate and submit
+  const prepareAnomalyReport = async (): Promise<PlannedCall> => {
+    const key = reportKey;
+    if (preparedReport.current?.key === key) return preparedReport.current.call;
+    
+    if (!featureSchema) {
+      throw new Error("FederatedAnomalyFHE contract is not available");
+    }
+    if (!myParticipant || myParticipant.status !== "active") {
+      throw new Error("Your organization must be an active participant to report anomalies");
+    }
+    
+    const dataPoints = parseDataPoints(newAnomalyData.dataPoints, featureSchema);
+    
+    // Encrypt the feature vector with an "anomalous" label; the input proof is bound to the contract and signer
+    const encrypted = await encryptFeatureBatch(
+      config.federatedAnomalyAddress,
+      account,
+      featureSchema,
+      dataPoints,
+      1
+    );
+    
+    const anomalyId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+    const anomalyRecord = ethers.toUtf8Bytes(encodeAnomalyRecord({
+      data: encrypted.featureHandles,
+      timestamp: Math.floor(Date.now() / 1000),
+      organization: account,
+      anomalyType: newAnomalyData.anomalyType,
+      description: newAnomalyData.description,
+      confidence: Math.floor(Math.random() * 100), // Simulated confidence score
+      status: "detected"
+    }));
+    
+    // Batch and report are appended in one transaction, the batch id is assigned on-chain
+    const call: PlannedCall = {
+      label: "Submit encrypted anomaly report",
+      payloadBytes: anomalyRecord.length,
+      build: () => federatedCalls.submitAnomalyReport.populateTransaction(
+        encrypted.featureHandles,
+        encrypted.labelHandle,
+        encrypted.inputProof,
+        myParticipant.participantId,
+        anomalyId,
+        anomalyRecord
+      )
+    };
+    preparedReport.current = { key, call };
+    return call;
+  };
+
+  const estimateAnomalyCost = async () => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+    const key = reportKey;
+    setEstimatingCost(true);
+    try {
+      const call = await prepareAnomalyReport();
+      setCostPreview({ key, preview: await estimateCalls(getRpcPool().provider, account, [call]) });
+    } catch (e) {
+      setCostPreview({ key, error: describeError(e) });
+    } finally {
+      setEstimatingCost(false);
+    }
+  };
+
   const submitAnomaly = async () => {
     if (!provider) { 
       alert("Please connect wallet first"); 
@@ -153,59 +648,27 @@ const App: React.FC = () => {
     });
     
     try {
-      // Simulate FHE encryption
-      const encryptedData = `FHE-${btoa(JSON.stringify(newAnomalyData))}`;
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const anomalyId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-      const anomalyData = {
-        data: encryptedData,
-        timestamp: Math.floor(Date.now() / 1000),
-        organization: account,
-        anomalyType: newAnomalyData.anomalyType,
-        confidence: Math.floor(Math.random() * 100), // Simulated confidence score
-        status: "detected"
-      };
-      
-      // Store encrypted data on-chain using FHE
-      await contract.setData(
-        `anomaly_${anomalyId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(anomalyData))
-      );
+      const call = await prepareAnomalyReport();
       
-      const keysBytes = await contract.getData("anomaly_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing keys:", e);
-        }
-      }
-      
-      keys.push(anomalyId);
+      setTransactionStatus({
+        visible: true,
+        status: "pending",
+        message: "Submitting encrypted anomaly report..."
+      });
       
-      await contract.setData(
-        "anomaly_keys", 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
-      );
+      await submitTransaction("Submitting encrypted anomaly report...", call.build);
+      preparedReport.current = null;
+      setCostPreview(null);
       
-      setTransactionStatus({
+      flashTransactionStatus({
         visible: true,
         status: "success",
         message: "Encrypted anomaly data submitted securely!"
-      });
+      }, 2000);
       
-      await loadAnomalies();
+      await refreshAll();
       
       setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
         setNewAnomalyData({
           anomalyType: "",
@@ -213,153 +676,187 @@ const App: React.FC = () => {
           dataPoints: ""
         });
       }, 2000);
-    } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction")
-        ? "Transaction rejected by user"
-        : "Submission failed: " + (e.message || "Unknown error");
-      
-      setTransactionStatus({
-        visible: true,
-        status: "error",
-        message: errorMessage
-      });
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 3000);
+    } catch (e) {
+      // The prepared call carries the anomaly id, drop it so the next submit generates a new one
+      if (decodeError(e).reason === "Anomaly key taken") {
+        preparedReport.current = null;
+        setCostPreview(null);
+      }
+      showTransactionError("Submission failed", e);
     } finally {
       setCreating(false);
     }
   };
 
-  const verifyAnomaly = async (anomalyId: string) => {
-    if (!provider) {
-      alert("Please connect wallet first");
+  // Status only changes through the registry's review: votes of other participants, or a reopen
+  const castReviewVote = async (anomalyId: string, confirm: boolean) => {
+    await sendFederatedTx(
+      confirm ? "Submitting confirmation vote..." : "Submitting rejection vote...",
+      "Review vote recorded",
+      contract => contract.castReviewVote.populateTransaction(anomalyId, confirm)
+    );
+    await loadAnomalies();
+  };
+
+  const reopenAnomaly = async (anomalyId: string) => {
+    await sendFederatedTx(
+      "Reopening anomaly for review...",
+      "Anomaly reopened, earlier votes were discarded",
+      contract => contract.reopenAnomaly.populateTransaction(anomalyId)
+    );
+    await loadAnomalies();
+  };
+
+  const updateReviewQuorum = async () => {
+    const quorum = parseInt(newReviewQuorum);
+    if (!(quorum > 0)) {
+      alert("Quorum must be a positive number");
       return;
     }
+    await sendFederatedTx(
+      "Updating review quorum...",
+      "Review quorum updated",
+      contract => contract.setReviewQuorum.populateTransaction(quorum)
+    );
+    setNewReviewQuorum("");
+  };
 
-    setTransactionStatus({
-      visible: true,
-      status: "pending",
-      message: "Processing encrypted data with FHE..."
-    });
-
+  const openAuditTrail = async (title: string, subject: string, build: () => Promise<AuditEntry[]>) => {
+    setAuditTrail({ title, subject, entries: [], loading: true, error: "" });
     try {
-      // Simulate FHE computation time
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const anomalyBytes = await contract.getData(`anomaly_${anomalyId}`);
-      if (anomalyBytes.length === 0) {
-        throw new Error("Anomaly not found");
-      }
-      
-      const anomalyData = JSON.parse(ethers.toUtf8String(anomalyBytes));
-      
-      const updatedAnomaly = {
-        ...anomalyData,
-        status: "verified"
-      };
-      
-      await contract.setData(
-        `anomaly_${anomalyId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedAnomaly))
-      );
-      
-      setTransactionStatus({
-        visible: true,
-        status: "success",
-        message: "FHE verification completed successfully!"
-      });
-      
-      await loadAnomalies();
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 2000);
-    } catch (e: any) {
-      setTransactionStatus({
-        visible: true,
-        status: "error",
-        message: "Verification failed: " + (e.message || "Unknown error")
-      });
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 3000);
+      const entries = await build();
+      setAuditTrail(current => current?.subject === subject ? { ...current, entries, loading: false } : current);
+    } catch (e) {
+      const error = decodeError(e, "network");
+      setAuditTrail(current => current?.subject === subject ? { ...current, loading: false, error: error.message } : current);
     }
   };
 
-  const markAsFalsePositive = async (anomalyId: string) => {
-    if (!provider) {
-      alert("Please connect wallet first");
-      return;
-    }
+  const showAnomalyAuditTrail = (key: string) =>
+    openAuditTrail(`Anomaly #${key.substring(0, 6)}`, `anomaly:${key}`, () => buildAnomalyTrail(key));
 
-    setTransactionStatus({
-      visible: true,
-      status: "pending",
-      message: "Processing encrypted data with FHE..."
-    });
+  const showModelUpdateAuditTrail = (update: ModelUpdate) =>
+    openAuditTrail(`Model update #${update.updateId}`, `model-update:${update.updateId}`, () => buildModelUpdateTrail(update.updateId, update.roundId));
 
+  const exportAuditTrail = async () => {
+    if (!provider || !auditTrail) return;
+    setExportingAudit(true);
     try {
-      // Simulate FHE computation time
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
+      const signed = await signAuditExport(await provider.getSigner(), auditTrail.subject, auditTrail.entries);
+      // Contract wallets and some hardware wallets sign differently; an export nobody can verify is useless
+      if (!verifyAuditExport(signed)) {
+        throw new Error("The wallet's signature does not verify against the export, sign with an externally owned account");
       }
-      
-      const anomalyBytes = await contract.getData(`anomaly_${anomalyId}`);
-      if (anomalyBytes.length === 0) {
-        throw new Error("Anomaly not found");
-      }
-      
-      const anomalyData = JSON.parse(ethers.toUtf8String(anomalyBytes));
-      
-      const updatedAnomaly = {
-        ...anomalyData,
-        status: "false_positive"
-      };
-      
-      await contract.setData(
-        `anomaly_${anomalyId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedAnomaly))
-      );
-      
-      setTransactionStatus({
-        visible: true,
-        status: "success",
-        message: "FHE processing completed successfully!"
-      });
-      
-      await loadAnomalies();
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 2000);
-    } catch (e: any) {
-      setTransactionStatus({
-        visible: true,
-        status: "error",
-        message: "Operation failed: " + (e.message || "Unknown error")
-      });
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 3000);
+      const url = URL.createObjectURL(new Blob([JSON.stringify(signed, null, 2)], { type: "application/json" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `audit-${auditTrail.subject.replace(/[^a-zA-Z0-9_-]/g, "_")}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      alert(describeError(e, "Export failed"));
+    } finally {
+      setExportingAudit(false);
     }
   };
 
+  const modalTransaction = transactionStatus.txId ? transactions.find(tx => tx.id === transactionStatus.txId) : undefined;
+
   const isOwner = (address: string) => {
     return account.toLowerCase() === address.toLowerCase();
   };
 
+  const isAdmin = !!account && !!adminAddress && isOwner(adminAddress);
+  const myParticipant = participants.find(p => isOwner(p.account) && p.status !== "removed");
+  const isAuditor = auditors.some(auditor => isOwner(auditor));
+  const canReview = (anomaly: AnomalyData) =>
+    !!anomaly.review &&
+    anomaly.review.status === "detected" &&
+    myParticipant?.status === "active" &&
+    !isOwner(anomaly.organization) &&
+    !anomaly.review.votes.some(vote => vote.participantId === myParticipant.participantId);
+
+  const describeVotes = (review: AnomalyReview) => review.votes.length === 0
+    ? `Review round ${review.round}, no votes yet`
+    : review.votes
+        .map(vote => `${vote.voter} ${vote.confirm ? "confirmed" : "rejected"} on ${new Date(vote.votedAt * 1000).toLocaleString()}`)
+        .join("\n");
+
+  // Any filter change returns to the first page unless the change is the page itself
+  const updateAnomalyQuery = (changes: Partial<AnomalyQuery>) => {
+    setSearchParams(serializeAnomalyQuery({ ...anomalyQuery, page: 1, ...changes }), { replace: true });
+  };
+
+  const renderSortHeader = (key: AnomalySortKey, label: string) => {
+    const index = anomalyQuery.sort.findIndex(spec => spec.key === key);
+    const spec = anomalyQuery.sort[index];
+    return (
+      <div 
+        className={`header-cell sortable ${spec ? "sorted" : ""}`}
+        title="Click to sort, shift+click to add as a secondary sort"
+        onClick={(e) => updateAnomalyQuery({ sort: toggleSort(anomalyQuery.sort, key, e.shiftKey) })}
+      >
+        {label}
+        {spec && (
+          <span className="sort-indicator">
+            {spec.direction === "asc" ? "▲" : "▼"}{anomalyQuery.sort.length > 1 && index + 1}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  const ownsBatch = (batch: EncryptedBatch) => batch.participantId === myParticipant?.participantId;
+  const roundActive = !!currentRound && ["open", "collecting", "aggregating"].includes(currentRound.status);
+  const roundAcceptingUpdates = !!currentRound && ["open", "collecting"].includes(currentRound.status);
+  const roundQuorumReached = !!currentRound && currentRound.contributors.length >= currentRound.minParticipants;
+
+  const renderCurrentRound = () => {
+    if (!currentRound) {
+      return <p className="round-empty">No training round has been started yet</p>;
+    }
+
+    return (
+      <>
+        <div className="round-summary">
+          <div className="round-field">
+            <span className="round-label">Round</span>
+            <Link to={`/rounds/${currentRound.roundId}`} className="round-value">#{currentRound.roundId}</Link>
+          </div>
+          <div className="round-field">
+            <span className="round-label">Status</span>
+            <span className={`status-badge ${currentRound.status}`}>{currentRound.status}</span>
+          </div>
+          <div className="round-field">
+            <span className="round-label">Quorum</span>
+            <span className="round-value">{currentRound.contributors.length} / {currentRound.minParticipants}</span>
+          </div>
+          <div className="round-field">
+            <span className="round-label">Time Remaining</span>
+            <span className="round-value">
+              {roundAcceptingUpdates ? formatTimeRemaining(currentRound.deadline) : "Collection closed"}
+            </span>
+          </div>
+        </div>
+        
+        <div className="round-contributors">
+          <span className="round-label">Contributors</span>
+          {currentRound.contributors.length === 0 ? (
+            <p>No updates received yet</p>
+          ) : (
+            <ul>
+              {currentRound.contributors.map(participantId => (
+                <li key={participantId}>
+                  #{participantId} {participants.find(p => p.participantId === participantId)?.organization || "Unknown organization"}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </>
+    );
+  };
+
   const renderPieChart = () => {
     const total = anomalies.length || 1;
     const detectedPercentage = (detectedCount / total) * 100;
@@ -454,6 +951,13 @@ const App: React.FC = () => {
         </div>
         
         <div className="header-actions">
+          <TransactionQueue
+            transactions={transactions}
+            onSpeedUp={speedUpTransaction}
+            onCancel={cancelTransaction}
+            onClear={() => getTransactionManager().clearSettled()}
+          />
+          <NetworkSelector />
           <WalletManager account={account} onConnect={onConnect} onDisconnect={onDisconnect} />
         </div>
       </header>
@@ -463,22 +967,43 @@ const App: React.FC = () => {
           <div className="nav-section">
             <h3>Navigation</h3>
             <button 
-              className={`nav-btn ${activeSection === "dashboard" ? "active" : ""}`}
-              onClick={() => setActiveSection("dashboard")}
+              className={`nav-btn ${navSection === "dashboard" ? "active" : ""}`}
+              onClick={() => navigate("/dashboard")}
             >
               <span className="nav-icon">📊</span>
               Dashboard
             </button>
             <button 
-              className={`nav-btn ${activeSection === "anomalies" ? "active" : ""}`}
-              onClick={() => setActiveSection("anomalies")}
+              className={`nav-btn ${navSection === "anomalies" ? "active" : ""}`}
+              onClick={() => navigate("/anomalies")}
             >
               <span className="nav-icon">🔍</span>
               Anomaly Detection
             </button>
             <button 
-              className={`nav-btn ${activeSection === "team" ? "active" : ""}`}
-              onClick={() => setActiveSection("team")}
+              className={`nav-btn ${navSection === "federated" ? "active" : ""}`}
+              onClick={() => navigate("/federated")}
+            >
+              <span className="nav-icon">🧠</span>
+              Federated Learning
+            </button>
+            <button 
+              className={`nav-btn ${navSection === "models" ? "active" : ""}`}
+              onClick={() => navigate("/models")}
+            >
+              <span className="nav-icon">🗂️</span>
+              Model History
+            </button>
+            <button 
+              className={`nav-btn ${navSection === "participants" ? "active" : ""}`}
+              onClick={() => navigate("/participants")}
+            >
+              <span className="nav-icon">🏦</span>
+              Participants
+            </button>
+            <button 
+              className={`nav-btn ${navSection === "team" ? "active" : ""}`}
+              onClick={() => navigate("/team")}
             >
               <span className="nav-icon">👥</span>
               Team
@@ -495,7 +1020,7 @@ const App: React.FC = () => {
               Report Anomaly
             </button>
             <button 
-              onClick={loadAnomalies}
+              onClick={refreshAll}
               className="nav-btn"
               disabled={isRefreshing}
             >
@@ -510,6 +1035,45 @@ const App: React.FC = () => {
         </nav>
         
         <main className="main-content">
+          {loadError && (
+            <div className="load-error cyber-card">
+              <div>
+                <strong>{loadError.message}</strong>
+                {loadError.hint && <p className="tracker-muted">{loadError.hint}</p>}
+              </div>
+              <button className="cyber-button" onClick={refreshAll}>Retry</button>
+            </div>
+          )}
+          {indexStatus && (
+            <div className={`index-status ${indexStatus.warning ? "warning" : ""}`}>{indexStatus.message}</div>
+          )}
+          <Routes>
+            <Route path="/" element={<Navigate to="/dashboard" replace />} />
+            <Route path="/anomalies/:id" element={
+              <AnomalyDetail
+                anomalies={anomalies}
+                loading={loading}
+                participants={participants}
+                batches={batches}
+                requests={detectionRequests}
+                results={detectionResults}
+                onShowAuditTrail={showAnomalyAuditTrail}
+              />
+            } />
+            <Route path="/rounds/:id" element={
+              <RoundDetail
+                currentRound={currentRound}
+                participants={participants}
+                modelUpdates={modelUpdates}
+                modelHistory={modelHistory}
+                onShowAuditTrail={showModelUpdateAuditTrail}
+              />
+            } />
+            {/* Sections are rendered below from activeSection */}
+            {SECTIONS.map(section => <Route key={section} path={`/${section}`} element={null} />)}
+            <Route path="*" element={<Navigate to="/dashboard" replace />} />
+          </Routes>
+          
           {activeSection === "dashboard" && (
             <>
               <div className="welcome-banner">
@@ -574,6 +1138,64 @@ const App: React.FC = () => {
                   <h3>Anomaly Types</h3>
                   {renderBarChart()}
                 </div>
+                
+                <div className="dashboard-card cyber-card round-card">
+                  <h3>Current Training Round</h3>
+                  {renderCurrentRound()}
+                  
+                  {isAdmin && (
+                    <div className="round-admin">
+                      {!roundActive && (
+                        <>
+                          <div className="form-grid">
+                            <div className="form-group">
+                              <label>Minimum participants</label>
+                              <input 
+                                type="number"
+                                min="1"
+                                value={newRound.minParticipants}
+                                onChange={(e) => setNewRound({ ...newRound, minParticipants: e.target.value })}
+                                className="cyber-input"
+                              />
+                            </div>
+                            <div className="form-group">
+                              <label>Duration (minutes)</label>
+                              <input 
+                                type="number"
+                                min="1"
+                                value={newRound.durationMinutes}
+                                onChange={(e) => setNewRound({ ...newRound, durationMinutes: e.target.value })}
+                                className="cyber-input"
+                              />
+                            </div>
+                          </div>
+                          <button className="cyber-button primary" onClick={startRound}>
+                            Start Round
+                          </button>
+                        </>
+                      )}
+                      {roundAcceptingUpdates && (
+                        <button
+                          className="cyber-button"
+                          onClick={closeRound}
+                          disabled={!roundQuorumReached && currentRound!.deadline > now}
+                        >
+                          Close Round
+                        </button>
+                      )}
+                      {currentRound?.status === "aggregating" && (
+                        <button className="cyber-button primary" onClick={finalizeRound}>
+                          Finalize Round
+                        </button>
+                      )}
+                      {roundActive && (
+                        <button className="cyber-button" onClick={abortRound}>
+                          Abort Round
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
               </div>
             </>
           )}
@@ -582,41 +1204,54 @@ const App: React.FC = () => {
             <div className="anomalies-section">
               <div className="section-header">
                 <h2>Anomaly Detection</h2>
-                <div className="header-actions">
-                  <div className="search-box">
+              </div>
+              
+              <AnomalyFilters
+                query={anomalyQuery}
+                typeOptions={anomalyTypeOptions}
+                organizationOptions={anomalyOrganizationOptions}
+                onChange={updateAnomalyQuery}
+              />
+              
+              <div className="threshold-card cyber-card">
+                <h3>Review</h3>
+                <p>
+                  Reports are confirmed or rejected by <strong>{reviewQuorum}</strong> matching vote(s) from other active
+                  participants. Settled reports only return to review when their reporter or the admin reopens them.
+                </p>
+                {isAdmin && (
+                  <div className="threshold-form">
                     <input 
-                      type="text" 
-                      placeholder="Search anomalies..." 
-                      value={searchTerm}
-                      onChange={(e) => setSearchTerm(e.target.value)}
+                      type="number"
+                      min="1"
+                      value={newReviewQuorum}
+                      onChange={(e) => setNewReviewQuorum(e.target.value)}
+                      placeholder="New quorum..."
                       className="cyber-input"
                     />
+                    <button className="cyber-button primary" onClick={updateReviewQuorum}>
+                      Update Quorum
+                    </button>
                   </div>
-                  <select 
-                    value={filterType}
-                    onChange={(e) => setFilterType(e.target.value)}
-                    className="cyber-select"
-                  >
-                    <option value="all">All Statuses</option>
-                    <option value="detected">Detected</option>
-                    <option value="verified">Verified</option>
-                    <option value="false_positive">False Positives</option>
-                  </select>
-                </div>
+                )}
               </div>
               
               <div className="anomalies-list cyber-card">
                 <div className="table-header">
-                  <div className="header-cell">ID</div>
-                  <div className="header-cell">Type</div>
-                  <div className="header-cell">Organization</div>
-                  <div className="header-cell">Date</div>
-                  <div className="header-cell">Confidence</div>
-                  <div className="header-cell">Status</div>
+                  {renderSortHeader("id", "ID")}
+                  {renderSortHeader("anomalyType", "Type")}
+                  {renderSortHeader("organization", "Organization")}
+                  {renderSortHeader("timestamp", "Date")}
+                  {renderSortHeader("confidence", "Confidence")}
+                  {renderSortHeader("status", "Status")}
                   <div className="header-cell">Actions</div>
                 </div>
                 
-                {filteredAnomalies.length === 0 ? (
+                {anomalies.length > 0 && anomalyPage.total === 0 ? (
+                  <div className="no-anomalies">
+                    <p>No anomalies match the current filters</p>
+                  </div>
+                ) : anomalies.length === 0 ? (
                   <div className="no-anomalies">
                     <div className="no-anomalies-icon"></div>
                     <p>No anomalies found</p>
@@ -628,9 +1263,11 @@ const App: React.FC = () => {
                     </button>
                   </div>
                 ) : (
-                  filteredAnomalies.map(anomaly => (
+                  anomalyPage.rows.map(anomaly => (
                     <div className="anomaly-row" key={anomaly.id}>
-                      <div className="table-cell anomaly-id">#{anomaly.id.substring(0, 6)}</div>
+                      <div className="table-cell anomaly-id">
+                        <Link to={`/anomalies/${encodeURIComponent(anomaly.id)}`}>#{anomaly.id.substring(0, 6)}</Link>
+                      </div>
                       <div className="table-cell">{anomaly.anomalyType}</div>
                       <div className="table-cell">{anomaly.organization.substring(0, 6)}...{anomaly.organization.substring(38)}</div>
                       <div className="table-cell">
@@ -645,28 +1282,478 @@ const App: React.FC = () => {
                           <span>{anomaly.confidence}%</span>
                         </div>
                       </div>
-                      <div className="table-cell">
+                      <div className="table-cell" title={anomaly.review ? describeVotes(anomaly.review) : "Legacy record, migrate it to the registry to review it"}>
                         <span className={`status-badge ${anomaly.status}`}>
                           {anomaly.status.replace('_', ' ')}
                         </span>
+                        {anomaly.review?.status === "detected" && (
+                          <span className="review-tally">
+                            {anomaly.review.votes.filter(v => v.confirm).length}✓ {anomaly.review.votes.filter(v => !v.confirm).length}✗ / {reviewQuorum}
+                          </span>
+                        )}
+                        {!anomaly.registered && <span className="review-tally">legacy</span>}
                       </div>
                       <div className="table-cell actions">
-                        {isOwner(anomaly.organization) && anomaly.status === "detected" && (
+                        {canReview(anomaly) && (
                           <>
                             <button 
                               className="action-btn cyber-button success"
-                              onClick={() => verifyAnomaly(anomaly.id)}
+                              onClick={() => castReviewVote(anomaly.id, true)}
                             >
-                              Verify
+                              Confirm
                             </button>
                             <button 
                               className="action-btn cyber-button warning"
-                              onClick={() => markAsFalsePositive(anomaly.id)}
+                              onClick={() => castReviewVote(anomaly.id, false)}
                             >
-                              False Positive
+                              Reject
                             </button>
                           </>
                         )}
+                        {anomaly.registered && anomaly.status !== "detected" && (isAdmin || isOwner(anomaly.organization)) && (
+                          <button 
+                            className="action-btn cyber-button"
+                            onClick={() => reopenAnomaly(anomaly.id)}
+                          >
+                            Reopen
+                          </button>
+                        )}
+                        <button 
+                          className="action-btn cyber-button"
+                          onClick={() => showAnomalyAuditTrail(anomaly.id)}
+                        >
+                          History
+                        </button>
+                      </div>
+                    </div>
+                  ))
+                )}
+                
+                {anomalyPage.total > 0 && (
+                  <Pagination
+                    page={anomalyPage.page}
+                    pageCount={anomalyPage.pageCount}
+                    pageSize={anomalyQuery.pageSize}
+                    pageSizes={PAGE_SIZES}
+                    total={anomalyPage.total}
+                    onPageChange={page => updateAnomalyQuery({ page })}
+                    onPageSizeChange={pageSize => updateAnomalyQuery({ pageSize })}
+                  />
+                )}
+              </div>
+              
+              {quarantined.length > 0 && (
+                <>
+                  <div className="section-header">
+                    <h2>Quarantined Records</h2>
+                  </div>
+                  <div className="anomalies-list quarantine-table cyber-card">
+                    <div className="table-header">
+                      <div className="header-cell">ID</div>
+                      <div className="header-cell">Store</div>
+                      <div className="header-cell">Block</div>
+                      <div className="header-cell">Problems</div>
+                    </div>
+                    {quarantined.map(record => (
+                      <div className="anomaly-row" key={record.id}>
+                        <div className="table-cell anomaly-id" title={record.id}>#{record.id.substring(0, 6)}</div>
+                        <div className="table-cell">{record.registered ? "Registry" : "Legacy adapter"}</div>
+                        <div className="table-cell">{record.blockNumber}</div>
+                        <div className="table-cell quarantine-errors">{record.errors.join("; ")}</div>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+          
+          {activeSection === "federated" && (
+            <div className="federated-section">
+              <div className="threshold-card cyber-card">
+                <h3>Detection Threshold</h3>
+                <p>
+                  Verdicts compare each encrypted score against an encrypted threshold, currently at version{" "}
+                  <strong>v{thresholdVersion}</strong>. Its value is only visible to the admin.
+                </p>
+                {isAdmin && (
+                  <div className="threshold-form">
+                    <input 
+                      type="text"
+                      value={newThreshold}
+                      onChange={(e) => setNewThreshold(e.target.value)}
+                      placeholder="New threshold..."
+                      className="cyber-input"
+                    />
+                    <button className="cyber-button primary" onClick={updateThreshold}>
+                      Update Threshold
+                    </button>
+                  </div>
+                )}
+              </div>
+              
+              <div className="section-header">
+                <h2>Encrypted Data Batches</h2>
+              </div>
+              <div className="anomalies-list federated-table cyber-card">
+                <div className="table-header">
+                  <div className="header-cell">Batch</div>
+                  <div className="header-cell">Participant</div>
+                  <div className="header-cell">Features</div>
+                  <div className="header-cell">Date</div>
+                  <div className="header-cell">Detection</div>
+                  <div className="header-cell">Actions</div>
+                </div>
+                
+                {batches.length === 0 ? (
+                  <div className="no-anomalies">
+                    <p>No encrypted batches submitted</p>
+                  </div>
+                ) : (
+                  batches.map(batch => {
+                    const detectionStatus = getBatchDetectionStatus(batch.batchId);
+                    return (
+                      <div className="anomaly-row" key={batch.batchId}>
+                        <div className="table-cell anomaly-id">#{batch.batchId}</div>
+                        <div className="table-cell">{batch.participantId}</div>
+                        <div className="table-cell handle-cell" title={batch.featureHandles.join("\n")}>
+                          {batch.featureHandles.length} × {shortHandle(batch.featureHandles[0] || ethers.ZeroHash)}
+                        </div>
+                        <div className="table-cell">{new Date(batch.timestamp * 1000).toLocaleDateString()}</div>
+                        <div className="table-cell">
+                          {privateResults[batch.batchId] ? (
+                            <span className={`status-badge ${privateResults[batch.batchId].isAnomaly ? "anomalous" : "normal"}`}>
+                              {privateResults[batch.batchId].isAnomaly ? "anomaly" : "normal"} ({privateResults[batch.batchId].score})
+                            </span>
+                          ) : (
+                            <span className={`status-badge ${detectionStatus}`}>{detectionStatus}</span>
+                          )}
+                        </div>
+                        <div className="table-cell actions">
+                          {detectionStatus === "none" && (isAdmin || ownsBatch(batch)) && (
+                            <button 
+                              className="action-btn cyber-button primary"
+                              onClick={() => requestDetection(batch.batchId)}
+                            >
+                              Detect
+                            </button>
+                          )}
+                          {detectionStatus !== "none" && (isAuditor || ownsBatch(batch)) && !privateResults[batch.batchId] && (
+                            <button 
+                              className="action-btn cyber-button"
+                              onClick={() => decryptResult(batch.batchId)}
+                            >
+                              Decrypt
+                            </button>
+                          )}
+                          {detectionStatus === "computed" && ownsBatch(batch) && (
+                            <button 
+                              className="action-btn cyber-button warning"
+                              onClick={() => requestDisclosure(batch.batchId)}
+                            >
+                              Disclose
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+              
+              <div className="section-header">
+                <h2>Decryption Requests</h2>
+              </div>
+              <DecryptionTracker
+                requests={detectionRequests}
+                results={detectionResults}
+                now={now}
+                canReRequest={batchId => batches.some(batch => batch.batchId === batchId && ownsBatch(batch))}
+                onEvent={loadFederatedData}
+                onReRequest={reRequestDisclosure}
+              />
+              
+              <div className="section-header">
+                <h2>Model Updates</h2>
+              </div>
+              <div className="anomalies-list federated-table cyber-card">
+                <div className="table-header">
+                  <div className="header-cell">Update</div>
+                  <div className="header-cell">Round</div>
+                  <div className="header-cell">Participant</div>
+                  <div className="header-cell">Weights</div>
+                  <div className="header-cell">Bias Handle</div>
+                  <div className="header-cell">Date</div>
+                </div>
+                
+                {modelUpdates.length === 0 ? (
+                  <div className="no-anomalies">
+                    <p>No model updates submitted</p>
+                  </div>
+                ) : (
+                  modelUpdates.map(update => (
+                    <div className="anomaly-row" key={update.updateId}>
+                      <div className="table-cell anomaly-id">#{update.updateId}</div>
+                      <div className="table-cell"><Link to={`/rounds/${update.roundId}`}>#{update.roundId}</Link></div>
+                      <div className="table-cell">{update.participantId}</div>
+                      <div className="table-cell handle-cell" title={update.weightHandles.join("\n")}>
+                        {update.weightHandles.length} × euint32
+                      </div>
+                      <div className="table-cell handle-cell" title={update.biasHandle}>{shortHandle(update.biasHandle)}</div>
+                      <div className="table-cell">
+                        {new Date(update.timestamp * 1000).toLocaleDateString()}
+                        <button 
+                          className="history-link"
+                          onClick={() => showModelUpdateAuditTrail(update)}
+                        >
+                          History
+                        </button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+              
+              <div className="section-header">
+                <h2>Publicly Disclosed Results</h2>
+              </div>
+              <div className="anomalies-list federated-table cyber-card">
+                <div className="table-header">
+                  <div className="header-cell">Result</div>
+                  <div className="header-cell">Batch</div>
+                  <div className="header-cell">Score</div>
+                  <div className="header-cell">Verdict</div>
+                  <div className="header-cell">Threshold</div>
+                  <div className="header-cell">Tx</div>
+                </div>
+                
+                {detectionResults.length === 0 ? (
+                  <div className="no-anomalies">
+                    <p>No results have been disclosed by their owners</p>
+                  </div>
+                ) : (
+                  detectionResults.map(result => (
+                    <div className="anomaly-row" key={result.resultId}>
+                      <div className="table-cell anomaly-id">#{result.resultId}</div>
+                      <div className="table-cell">#{result.resultId}</div>
+                      <div className="table-cell">{result.anomalyScore}</div>
+                      <div className="table-cell">
+                        <span className={`status-badge ${result.isAnomaly ? "anomalous" : "normal"}`}>
+                          {result.isAnomaly ? "anomaly" : "normal"}
+                        </span>
+                      </div>
+                      <div className="table-cell">v{result.thresholdVersion}</div>
+                      <div className="table-cell handle-cell" title={result.txHash}>
+                        {explorerTxUrl(result.txHash)
+                          ? <a href={explorerTxUrl(result.txHash)} target="_blank" rel="noreferrer">{shortHandle(result.txHash)}</a>
+                          : shortHandle(result.txHash)}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+          
+          {activeSection === "models" && (
+            <div className="federated-section">
+              <div className="section-header">
+                <h2>Model History</h2>
+                <div className="header-actions">
+                  {activeModelVersion > 0 && (
+                    <span className="status-badge active">Active: v{activeModelVersion}</span>
+                  )}
+                </div>
+              </div>
+              <div className="anomalies-list federated-table cyber-card">
+                <div className="table-header">
+                  <div className="header-cell">Version</div>
+                  <div className="header-cell">Round</div>
+                  <div className="header-cell">Contributors</div>
+                  <div className="header-cell">Aggregated</div>
+                  <div className="header-cell">Status</div>
+                  <div className="header-cell">Actions</div>
+                </div>
+                
+                {modelHistory.length === 0 ? (
+                  <div className="no-anomalies">
+                    <p>No global model has been aggregated yet</p>
+                  </div>
+                ) : (
+                  modelHistory.map(model => (
+                    <div className="anomaly-row" key={model.version}>
+                      <div className="table-cell anomaly-id">v{model.version}</div>
+                      <div className="table-cell"><Link to={`/rounds/${model.roundId}`}>#{model.roundId}</Link></div>
+                      <div
+                        className="table-cell"
+                        title={model.contributors
+                          .map(id => participants.find(p => p.participantId === id)?.organization || `#${id}`)
+                          .join(", ")}
+                      >
+                        {model.contributors.length} participant{model.contributors.length === 1 ? "" : "s"}
+                      </div>
+                      <div className="table-cell">{new Date(model.publishedAt * 1000).toLocaleString()}</div>
+                      <div className="table-cell">
+                        {model.version === activeModelVersion ? (
+                          <span className="status-badge active">active</span>
+                        ) : (
+                          <span className="status-badge none">archived</span>
+                        )}
+                      </div>
+                      <div className="table-cell actions">
+                        {isAdmin && model.version !== activeModelVersion && (
+                          <button 
+                            className="action-btn cyber-button"
+                            onClick={() => pinModelVersion(model.version)}
+                          >
+                            Pin
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+          
+          {activeSection === "participants" && (
+            <div className="participants-section">
+              <div className="section-header">
+                <h2>Participants</h2>
+              </div>
+              
+              {account && !myParticipant && (
+                <div className="register-participant cyber-card">
+                  <h3>Register Your Organization</h3>
+                  <div className="form-grid">
+                    <div className="form-group">
+                      <label>Organization *</label>
+                      <input 
+                        type="text"
+                        value={newParticipant.organization}
+                        onChange={(e) => setNewParticipant({ ...newParticipant, organization: e.target.value })}
+                        placeholder="Organization name..."
+                        className="cyber-input"
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label>Metadata URI</label>
+                      <input 
+                        type="text"
+                        value={newParticipant.metadataURI}
+                        onChange={(e) => setNewParticipant({ ...newParticipant, metadataURI: e.target.value })}
+                        placeholder="ipfs://..."
+                        className="cyber-input"
+                      />
+                    </div>
+                  </div>
+                  <button className="cyber-button primary" onClick={registerParticipant}>
+                    Request Onboarding
+                  </button>
+                </div>
+              )}
+              
+              {isAdmin && (
+                <div className="register-participant cyber-card">
+                  <h3>Auditors</h3>
+                  <p className="auditor-hint">Auditors can decrypt every verdict computed while they are designated.</p>
+                  {auditors.length === 0 ? (
+                    <p className="auditor-hint">No auditors designated</p>
+                  ) : (
+                    <ul className="auditor-list">
+                      {auditors.map(auditor => (
+                        <li key={auditor}>
+                          <span className="handle-cell">{auditor}</span>
+                          <button 
+                            className="action-btn cyber-button warning"
+                            onClick={() => removeAuditor(auditor)}
+                          >
+                            Remove
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="threshold-form">
+                    <input 
+                      type="text"
+                      value={newAuditor}
+                      onChange={(e) => setNewAuditor(e.target.value)}
+                      placeholder="0x..."
+                      className="cyber-input"
+                    />
+                    <button className="cyber-button primary" onClick={addAuditor}>
+                      Add Auditor
+                    </button>
+                  </div>
+                </div>
+              )}
+              
+              {myParticipant && (
+                <div className="participant-notice cyber-card">
+                  Registered as <strong>{myParticipant.organization}</strong> (participant #{myParticipant.participantId}) —{" "}
+                  <span className={`status-badge ${myParticipant.status}`}>{myParticipant.status}</span>
+                </div>
+              )}
+              
+              <div className="anomalies-list participants-table cyber-card">
+                <div className="table-header">
+                  <div className="header-cell">ID</div>
+                  <div className="header-cell">Organization</div>
+                  <div className="header-cell">Account</div>
+                  <div className="header-cell">Registered</div>
+                  <div className="header-cell">Status</div>
+                  <div className="header-cell">Actions</div>
+                </div>
+                
+                {participants.length === 0 ? (
+                  <div className="no-anomalies">
+                    <p>No participants registered</p>
+                  </div>
+                ) : (
+                  participants.map(participant => (
+                    <div className="anomaly-row" key={participant.participantId}>
+                      <div className="table-cell anomaly-id">#{participant.participantId}</div>
+                      <div className="table-cell" title={participant.metadataURI}>{participant.organization}</div>
+                      <div className="table-cell">{participant.account.substring(0, 6)}...{participant.account.substring(38)}</div>
+                      <div className="table-cell">{new Date(participant.registeredAt * 1000).toLocaleDateString()}</div>
+                      <div className="table-cell">
+                        <span className={`status-badge ${participant.status}`}>{participant.status}</span>
+                      </div>
+                      <div className="table-cell actions">
+                        {isAdmin && participant.status === "pending" && (
+                          <button 
+                            className="action-btn cyber-button success"
+                            onClick={() => approveParticipant(participant.participantId)}
+                          >
+                            Approve
+                          </button>
+                        )}
+                        {isAdmin && participant.status === "active" && (
+                          <button 
+                            className="action-btn cyber-button warning"
+                            onClick={() => suspendParticipant(participant.participantId)}
+                          >
+                            Suspend
+                          </button>
+                        )}
+                        {isAdmin && participant.status === "suspended" && (
+                          <button 
+                            className="action-btn cyber-button success"
+                            onClick={() => reinstateParticipant(participant.participantId)}
+                          >
+                            Reinstate
+                          </button>
+                        )}
+                        {isAdmin && participant.status !== "removed" && (
+                          <button 
+                            className="action-btn cyber-button warning"
+                            onClick={() => removeParticipant(participant.participantId)}
+                          >
+                            Remove
+                          </button>
+                        )}
                       </div>
                     </div>
                   ))
@@ -717,11 +1804,28 @@ const App: React.FC = () => {
           onSubmit={submitAnomaly} 
           onClose={() => setShowCreateModal(false)} 
           creating={creating}
+          featureSchema={featureSchema}
+          costPreview={costPreview?.key === reportKey ? costPreview : null}
+          estimatingCost={estimatingCost}
+          onEstimateCost={estimateAnomalyCost}
           anomalyData={newAnomalyData}
           setAnomalyData={setNewAnomalyData}
         />
       )}
       
+      {auditTrail && (
+        <AuditDrawer
+          title={auditTrail.title}
+          entries={auditTrail.entries}
+          loading={auditTrail.loading}
+          error={auditTrail.error}
+          exporting={exportingAudit}
+          canExport={!!provider}
+          onExport={exportAuditTrail}
+          onClose={() => setAuditTrail(null)}
+        />
+      )}
+      
       {walletSelectorOpen && (
         <WalletSelector
           isOpen={walletSelectorOpen}
@@ -741,6 +1845,19 @@ const App: React.FC = () => {
             <div className="transaction-message">
               {transactionStatus.message}
             </div>
+            {transactionStatus.hint && (
+              <div className="transaction-hint">{transactionStatus.hint}</div>
+            )}
+            {modalTransaction && transactionStatus.status === "pending" && (
+              <>
+                <TransactionActions tx={modalTransaction} onSpeedUp={speedUpTransaction} onCancel={cancelTransaction} />
+                {modalTransaction.status === "pending" && (
+                  <button className="history-link" onClick={() => setTransactionStatus(HIDDEN_STATUS)}>
+                    Continue in background
+                  </button>
+                )}
+              </>
+            )}
           </div>
         </div>
       )}
@@ -777,6 +1894,10 @@ interface ModalCreateProps {
   onSubmit: () => void; 
   onClose: () => void; 
   creating: boolean;
+  featureSchema: FeatureSchema | null;
+  costPreview: { preview?: CostPreview; error?: string } | null;  // Only when it matches the current form
+  estimatingCost: boolean;
+  onEstimateCost: () => void;
   anomalyData: any;
   setAnomalyData: (data: any) => void;
 }
@@ -785,6 +1906,10 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
   onSubmit, 
   onClose, 
   creating,
+  featureSchema,
+  costPreview,
+  estimatingCost,
+  onEstimateCost,
   anomalyData,
   setAnomalyData
 }) => {
@@ -796,14 +1921,17 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
     });
   };
 
-  const handleSubmit = () => {
+  const requireFields = (action: () => void) => () => {
     if (!anomalyData.anomalyType || !anomalyData.dataPoints) {
       alert("Please fill required fields");
       return;
     }
     
-    onSubmit();
+    action();
   };
+  
+  const symbol = activeNetwork.nativeCurrency.symbol;
+  const preview = costPreview?.preview;
 
   return (
     <div className="modal-overlay">
@@ -838,7 +1966,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
             </div>
             
             <div className="form-group">
-              <label>Description</label>
+              <label>Description (public)</label>
               <input 
                 type="text"
                 name="description"
@@ -850,12 +1978,12 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
             </div>
             
             <div className="form-group full-width">
-              <label>Data Points *</label>
+              <label>Data Points *{featureSchema && ` (${featureSchema.dimension} × euint${featureSchema.bitWidth})`}</label>
               <textarea 
                 name="dataPoints"
                 value={anomalyData.dataPoints} 
                 onChange={handleChange}
-                placeholder="Enter data points that indicate the anomaly..." 
+                placeholder={`${featureSchema?.dimension ?? "N"} unsigned integer features, separated by commas or spaces...`}
                 className="cyber-textarea"
                 rows={4}
               />
@@ -868,6 +1996,40 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
         </div>
         
         <div className="modal-footer">
+          <div className="cost-preview">
+            {(!costPreview || costPreview.error) && (
+              <button
+                onClick={requireFields(onEstimateCost)}
+                disabled={estimatingCost || creating}
+                className="history-link"
+              >
+                {estimatingCost ? "Encrypting and estimating..." : costPreview ? "Retry estimate" : "Estimate cost"}
+              </button>
+            )}
+            {costPreview?.error && <span className="cost-warning">Could not estimate: {costPreview.error}</span>}
+            {preview && (
+              <>
+                {preview.calls.map((call, i) => (
+                  <div key={i} className="cost-line">
+                    <span>{call.label}</span>
+                    {call.gas !== null ? (
+                      <span title={`${call.calldataBytes} bytes of calldata`}>
+                        {call.gas.toLocaleString()} gas, ~{formatFee(call.fee!, symbol)}
+                      </span>
+                    ) : (
+                      <span className="cost-warning">{call.error}</span>
+                    )}
+                    {call.warnings.map(warning => <span key={warning} className="cost-warning">{warning}</span>)}
+                  </div>
+                ))}
+                {preview.complete && (
+                  <div className="cost-total">
+                    Total ~{formatFee(preview.totalFee, symbol)}, at most {formatFee(preview.totalMaxFee, symbol)}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
           <button 
             onClick={onClose}
             className="cancel-btn cyber-button"
@@ -875,7 +2037,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
             Cancel
           </button>
           <button 
-            onClick={handleSubmit} 
+            onClick={requireFields(onSubmit)} 
             disabled={creating}
             className="submit-btn cyber-button primary"
           >
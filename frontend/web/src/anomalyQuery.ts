@@ -0,0 +1,174 @@
+// anomalyQuery.ts
+// Filtering, multi-column sorting and paging of anomaly rows, with the query kept in the URL
+// search string so a view can be shared. Shaped like a server query so the table never has to
+// render more than one page, whatever the number of records.
+import { ANOMALY_STATUSES, AnomalyRecord, AnomalyStatus } from "./anomalyRecord";
+
+export const ANOMALY_SORT_KEYS = ["id", "anomalyType", "organization", "timestamp", "confidence", "status"] as const;
+export type AnomalySortKey = typeof ANOMALY_SORT_KEYS[number];
+
+export const PAGE_SIZES = [25, 50, 100, 250];
+
+export interface SortSpec {
+  key: AnomalySortKey;
+  direction: "asc" | "desc";
+}
+
+export interface AnomalyQuery {
+  search: string;
+  statuses: AnomalyStatus[];
+  types: string[];
+  organizations: string[];     // Lowercase reporter addresses
+  from: string;                // YYYY-MM-DD, inclusive, "" when open
+  to: string;
+  minConfidence: number;
+  maxConfidence: number;
+  sort: SortSpec[];            // Primary key first
+  page: number;                // 1-based
+  pageSize: number;
+}
+
+export type QueryableAnomaly = Pick<AnomalyRecord, "anomalyType" | "organization" | "timestamp" | "confidence" | "status" | "description"> & {
+  id: string;
+};
+
+export interface AnomalyPage<T> {
+  rows: T[];
+  total: number;               // Rows matching the filters
+  page: number;                // Requested page clamped to the available ones
+  pageCount: number;
+}
+
+export const DEFAULT_ANOMALY_QUERY: AnomalyQuery = {
+  search: "",
+  statuses: [],
+  types: [],
+  organizations: [],
+  from: "",
+  to: "",
+  minConfidence: 0,
+  maxConfidence: 100,
+  sort: [{ key: "timestamp", direction: "desc" }],
+  page: 1,
+  pageSize: 50
+};
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const intParam = (value: string | null, fallback: number, min: number, max: number) => {
+  const parsed = value === null ? NaN : Number(value);
+  return Number.isInteger(parsed) && parsed >= min && parsed <= max ? parsed : fallback;
+};
+
+// Sort specs are written as a comma separated list of keys, descending ones prefixed with "-"
+const parseSort = (value: string | null): SortSpec[] => {
+  if (!value) return DEFAULT_ANOMALY_QUERY.sort;
+  const sort: SortSpec[] = [];
+  for (const part of value.split(",")) {
+    const direction = part.startsWith("-") ? "desc" : "asc";
+    const key = part.replace(/^-/, "") as AnomalySortKey;
+    if (ANOMALY_SORT_KEYS.includes(key) && !sort.some(spec => spec.key === key)) {
+      sort.push({ key, direction });
+    }
+  }
+  return sort.length > 0 ? sort : DEFAULT_ANOMALY_QUERY.sort;
+};
+
+const formatSort = (sort: SortSpec[]) =>
+  sort.map(spec => `${spec.direction === "desc" ? "-" : ""}${spec.key}`).join(",");
+
+// Unknown or malformed parameters fall back to their defaults instead of failing the page
+export function parseAnomalyQuery(params: URLSearchParams): AnomalyQuery {
+  const minConfidence = intParam(params.get("minConfidence"), 0, 0, 100);
+  return {
+    search: params.get("q") ?? "",
+    statuses: params.getAll("status").filter((s): s is AnomalyStatus => ANOMALY_STATUSES.includes(s as AnomalyStatus)),
+    types: params.getAll("type"),
+    organizations: params.getAll("org").map(org => org.toLowerCase()),
+    from: DATE.test(params.get("from") ?? "") ? params.get("from")! : "",
+    to: DATE.test(params.get("to") ?? "") ? params.get("to")! : "",
+    minConfidence,
+    maxConfidence: intParam(params.get("maxConfidence"), 100, minConfidence, 100),
+    sort: parseSort(params.get("sort")),
+    page: intParam(params.get("page"), 1, 1, Number.MAX_SAFE_INTEGER),
+    pageSize: PAGE_SIZES.includes(Number(params.get("size"))) ? Number(params.get("size")) : DEFAULT_ANOMALY_QUERY.pageSize
+  };
+}
+
+// Only values that differ from the defaults are written, to keep shared links short
+export function serializeAnomalyQuery(query: AnomalyQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.search) params.set("q", query.search);
+  query.statuses.forEach(status => params.append("status", status));
+  query.types.forEach(type => params.append("type", type));
+  query.organizations.forEach(org => params.append("org", org));
+  if (query.from) params.set("from", query.from);
+  if (query.to) params.set("to", query.to);
+  if (query.minConfidence !== 0) params.set("minConfidence", String(query.minConfidence));
+  if (query.maxConfidence !== 100) params.set("maxConfidence", String(query.maxConfidence));
+  if (formatSort(query.sort) !== formatSort(DEFAULT_ANOMALY_QUERY.sort)) params.set("sort", formatSort(query.sort));
+  if (query.page !== 1) params.set("page", String(query.page));
+  if (query.pageSize !== DEFAULT_ANOMALY_QUERY.pageSize) params.set("size", String(query.pageSize));
+  return params;
+}
+
+// Plain click sorts by the column alone (flipping it if it already was the only key),
+// an additive click appends it as a tie breaker or flips it in place
+export function toggleSort(sort: SortSpec[], key: AnomalySortKey, additive: boolean): SortSpec[] {
+  const existing = sort.find(spec => spec.key === key);
+  const flipped = (spec: SortSpec): SortSpec => ({ ...spec, direction: spec.direction === "asc" ? "desc" : "asc" });
+  const initial: SortSpec = { key, direction: key === "timestamp" || key === "confidence" ? "desc" : "asc" };
+
+  if (additive) {
+    return existing ? sort.map(spec => spec.key === key ? flipped(spec) : spec) : [...sort, initial];
+  }
+  return sort.length === 1 && existing ? [flipped(existing)] : [initial];
+}
+
+const compare = (a: QueryableAnomaly, b: QueryableAnomaly, key: AnomalySortKey) => {
+  const x = a[key];
+  const y = b[key];
+  return typeof x === "number" && typeof y === "number" ? x - y : String(x).localeCompare(String(y));
+};
+
+// Dates are taken as local calendar days, matching how the table displays them
+const dayStart = (date: string) => new Date(`${date}T00:00:00`).getTime() / 1000;
+
+export function queryAnomalies<T extends QueryableAnomaly>(rows: T[], query: AnomalyQuery): AnomalyPage<T> {
+  const search = query.search.trim().toLowerCase();
+  const statuses = new Set<string>(query.statuses);
+  const types = new Set(query.types);
+  const organizations = new Set(query.organizations);
+  const from = query.from ? dayStart(query.from) : -Infinity;
+  const to = query.to ? dayStart(query.to) + 24 * 60 * 60 : Infinity;
+
+  const matching = rows.filter(row =>
+    (statuses.size === 0 || statuses.has(row.status)) &&
+    (types.size === 0 || types.has(row.anomalyType)) &&
+    (organizations.size === 0 || organizations.has(row.organization.toLowerCase())) &&
+    row.timestamp >= from && row.timestamp < to &&
+    row.confidence >= query.minConfidence && row.confidence <= query.maxConfidence &&
+    (search === "" ||
+      row.id.toLowerCase().includes(search) ||
+      row.anomalyType.toLowerCase().includes(search) ||
+      row.organization.toLowerCase().includes(search) ||
+      row.description.toLowerCase().includes(search))
+  );
+
+  matching.sort((a, b) => {
+    for (const spec of query.sort) {
+      const order = compare(a, b, spec.key);
+      if (order !== 0) return spec.direction === "asc" ? order : -order;
+    }
+    return 0;
+  });
+
+  const pageCount = Math.max(1, Math.ceil(matching.length / query.pageSize));
+  const page = Math.min(query.page, pageCount);
+  return {
+    rows: matching.slice((page - 1) * query.pageSize, page * query.pageSize),
+    total: matching.length,
+    page,
+    pageCount
+  };
+}
@@ -0,0 +1,128 @@
+// anomalyRecord.ts
+// Versioned schema of the JSON anomaly records stored in the registry (and the legacy adapter).
+// Dependency free so hardhat tasks can import it alongside the frontend.
+
+export const ANOMALY_RECORD_VERSION = 2;
+
+export const ANOMALY_STATUSES = ["detected", "verified", "false_positive"] as const;
+export type AnomalyStatus = typeof ANOMALY_STATUSES[number];
+
+export interface AnomalyRecord {
+  schemaVersion: typeof ANOMALY_RECORD_VERSION;
+  data: string[];              // Encrypted feature handles, bytes32 hex; without a batch they are ciphertext only
+  timestamp: number;           // Unix seconds
+  organization: string;        // Reporter address
+  anomalyType: string;
+  description: string;
+  confidence: number;          // 0-100
+  status: AnomalyStatus;       // As reported; for registry records the on-chain review status wins
+  batchId?: number;            // Only present in records written before the on-chain registry
+  legacyData?: string;         // Client-side "FHE-" placeholder of the first frontend, never a real ciphertext
+}
+
+export type DecodedAnomalyRecord =
+  | { ok: true; record: AnomalyRecord; migratedFrom?: number }
+  | { ok: false; errors: string[] };
+
+type RawRecord = Record<string, unknown>;
+
+// Each entry upgrades a record of version n to n + 1. Records without schemaVersion are version 1,
+// the untyped shape written by earlier frontends: `data` was either a list of handles or a single
+// base64 "FHE-" placeholder, and `confidence`, `status` and `description` were optional.
+const MIGRATIONS: Record<number, (raw: RawRecord) => RawRecord> = {
+  1: raw => ({
+    ...raw,
+    schemaVersion: 2,
+    data: Array.isArray(raw.data) ? raw.data : [],
+    ...(typeof raw.data === "string" ? { legacyData: raw.data } : {}),
+    description: raw.description ?? "",
+    confidence: raw.confidence ?? 0,
+    status: raw.status ?? "detected"
+  })
+};
+
+const HEX_BYTES32 = /^0x[0-9a-fA-F]{64}$/;
+const ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+
+const isObject = (value: unknown): value is RawRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export function validateAnomalyRecord(raw: RawRecord): string[] {
+  const errors: string[] = [];
+
+  if (raw.schemaVersion !== ANOMALY_RECORD_VERSION) {
+    errors.push(`schemaVersion must be ${ANOMALY_RECORD_VERSION}`);
+  }
+  if (!Array.isArray(raw.data) || raw.data.some(handle => typeof handle !== "string" || !HEX_BYTES32.test(handle))) {
+    errors.push("data must be a list of bytes32 handles");
+  }
+  if (!Number.isInteger(raw.timestamp) || (raw.timestamp as number) <= 0) {
+    errors.push("timestamp must be a positive integer");
+  }
+  if (typeof raw.organization !== "string" || !ADDRESS.test(raw.organization)) {
+    errors.push("organization must be an address");
+  }
+  if (typeof raw.anomalyType !== "string" || raw.anomalyType.trim() === "") {
+    errors.push("anomalyType is required");
+  }
+  if (typeof raw.description !== "string") {
+    errors.push("description must be a string");
+  }
+  if (typeof raw.confidence !== "number" || raw.confidence < 0 || raw.confidence > 100) {
+    errors.push("confidence must be between 0 and 100");
+  }
+  if (!ANOMALY_STATUSES.includes(raw.status as AnomalyStatus)) {
+    errors.push(`status must be one of ${ANOMALY_STATUSES.join(", ")}`);
+  }
+  if (raw.batchId !== undefined && (!Number.isInteger(raw.batchId) || (raw.batchId as number) < 0)) {
+    errors.push("batchId must be a non-negative integer");
+  }
+  if (raw.legacyData !== undefined && typeof raw.legacyData !== "string") {
+    errors.push("legacyData must be a string");
+  }
+
+  return errors;
+}
+
+// Parses, upgrades and validates a stored record; never throws
+export function decodeAnomalyRecord(json: string): DecodedAnomalyRecord {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (e) {
+    return { ok: false, errors: [`not valid JSON: ${(e as Error).message}`] };
+  }
+  if (!isObject(raw)) {
+    return { ok: false, errors: ["record must be a JSON object"] };
+  }
+
+  const originalVersion = raw.schemaVersion === undefined ? 1 : raw.schemaVersion;
+  if (!Number.isInteger(originalVersion) || (originalVersion as number) < 1 || (originalVersion as number) > ANOMALY_RECORD_VERSION) {
+    return { ok: false, errors: [`unsupported schemaVersion ${String(originalVersion)}`] };
+  }
+
+  let upgraded = raw;
+  for (let version = originalVersion as number; version < ANOMALY_RECORD_VERSION; version++) {
+    upgraded = MIGRATIONS[version](upgraded);
+  }
+
+  const errors = validateAnomalyRecord(upgraded);
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return {
+    ok: true,
+    record: upgraded as unknown as AnomalyRecord,
+    migratedFrom: originalVersion === ANOMALY_RECORD_VERSION ? undefined : (originalVersion as number)
+  };
+}
+
+// Validates before serializing so invalid records never reach the chain
+export function encodeAnomalyRecord(record: Omit<AnomalyRecord, "schemaVersion">): string {
+  const versioned: AnomalyRecord = { ...record, schemaVersion: ANOMALY_RECORD_VERSION };
+  const errors = validateAnomalyRecord(versioned as unknown as RawRecord);
+  if (errors.length > 0) {
+    throw new Error(`Invalid anomaly record: ${errors.join("; ")}`);
+  }
+  return JSON.stringify(versioned);
+}
@@ -0,0 +1,157 @@
+// audit.ts
+// Reconstructs the history of an anomaly or a model update from the local event index and
+// exports it as JSON signed by the connected wallet.
+import { ethers } from "ethers";
+import { decodeAnomalyRecord } from "./anomalyRecord";
+import { AUDIT_EXPORT_SCHEMA, AuditEntry, SignedAuditExport, signAuditPayload } from "./auditExport";
+import { ANOMALY_REVIEW_STATUSES, ROUND_STATUSES, config, getTestnetProvider } from "./contract";
+import { IndexedLog, getIndexedLogs, syncIndex } from "./indexer";
+
+export type { AuditEntry, SignedAuditExport } from "./auditExport";
+
+type Described = { log: IndexedLog; action: string; details: string; actor?: string };
+
+// Transactions and blocks never change once indexed, so lookups are cached for the session
+const senders = new Map<string, Promise<string>>();
+const blockTimes = new Map<number, Promise<number>>();
+
+const senderOf = (provider: ethers.Provider, txHash: string) => {
+  if (!senders.has(txHash)) {
+    senders.set(txHash, provider.getTransaction(txHash).then(tx => tx?.from ?? ethers.ZeroAddress));
+  }
+  return senders.get(txHash)!;
+};
+
+const blockTimeOf = (provider: ethers.Provider, blockNumber: number) => {
+  if (!blockTimes.has(blockNumber)) {
+    blockTimes.set(blockNumber, provider.getBlock(blockNumber).then(block => block?.timestamp ?? 0));
+  }
+  return blockTimes.get(blockNumber)!;
+};
+
+const byLogOrder = (a: IndexedLog, b: IndexedLog) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+
+const describeRecord = (value: string) => {
+  try {
+    const decoded = decodeAnomalyRecord(ethers.toUtf8String(value));
+    return decoded.ok ? `record status: ${decoded.record.status}` : `invalid record: ${decoded.errors.join("; ")}`;
+  } catch {
+    return "record is not UTF-8 text";
+  }
+};
+
+const resolve = async (described: Described[]): Promise<AuditEntry[]> => {
+  const provider = await getTestnetProvider();
+  return Promise.all(
+    described
+      .sort((a, b) => byLogOrder(a.log, b.log))
+      .map(async ({ log, action, details, actor }) => ({
+        action,
+        actor: actor ?? await senderOf(provider, log.txHash),
+        timestamp: await blockTimeOf(provider, log.blockNumber),
+        blockNumber: log.blockNumber,
+        txHash: log.txHash,
+        details
+      }))
+  );
+};
+
+// Legacy adapter writes and every registry event concerning the anomaly, oldest first
+export async function buildAnomalyTrail(key: string): Promise<AuditEntry[]> {
+  const [adapter, registry] = await syncIndex();
+  const described: Described[] = [];
+
+  for (const log of await getIndexedLogs(adapter.source, "DataStored")) {
+    if (log.key === `anomaly_${key}`) {
+      described.push({ log, action: "Written to legacy adapter", details: describeRecord(log.args.value as string) });
+    }
+  }
+
+  if (registry) {
+    const logs = await getIndexedLogs(registry.source);
+    const appended = logs.find(log => log.name === "AnomalyAppended" && log.args.key === key);
+    if (appended) {
+      const anomalyId = appended.args.anomalyId as string;
+      const reporter = appended.args.reporter as string;
+      const provider = await getTestnetProvider();
+      const migrated = (await senderOf(provider, appended.txHash)).toLowerCase() !== reporter.toLowerCase();
+      described.push({
+        log: appended,
+        action: migrated ? "Migrated to registry" : "Reported",
+        details: `anomaly #${anomalyId}, batch #${appended.args.batchId}, reporter ${reporter}; ${describeRecord(appended.args.record as string)}`
+      });
+
+      for (const log of logs.filter(log => log.args.anomalyId === anomalyId)) {
+        if (log.name === "AnomalyRecordUpdated") {
+          described.push({ log, action: "Record updated", details: describeRecord(log.args.record as string) });
+        } else if (log.name === "ReviewVoteCast") {
+          described.push({
+            log,
+            action: log.args.confirm ? "Review vote: confirm" : "Review vote: reject",
+            details: `round ${log.args.round}, participant #${log.args.participantId}`,
+            actor: log.args.voter as string
+          });
+        } else if (log.name === "AnomalyStatusChanged") {
+          described.push({
+            log,
+            action: `Status: ${ANOMALY_REVIEW_STATUSES[Number(log.args.status)]}`,
+            details: `review round ${log.args.round}`
+          });
+        }
+      }
+    }
+  }
+
+  return resolve(described);
+}
+
+// The submission, then the lifecycle of its round and the model version it was aggregated into
+export async function buildModelUpdateTrail(updateId: number, roundId: number): Promise<AuditEntry[]> {
+  const [, registry] = await syncIndex();
+  if (!registry) return [];
+
+  const logs = await getIndexedLogs(registry.source);
+  const described: Described[] = [];
+  let version: string | undefined;
+
+  for (const log of logs) {
+    if (log.name === "ModelUpdated" && Number(log.args.updateId) === updateId) {
+      described.push({ log, action: "Update submitted", details: `participant #${log.args.participantId}, round #${roundId}` });
+    } else if (log.name === "RoundStarted" && Number(log.args.roundId) === roundId) {
+      described.push({
+        log,
+        action: "Round started",
+        details: `quorum ${log.args.minParticipants}, deadline ${new Date(Number(log.args.deadline) * 1000).toISOString()}`
+      });
+    } else if (log.name === "RoundStatusChanged" && Number(log.args.roundId) === roundId) {
+      described.push({ log, action: `Round ${ROUND_STATUSES[Number(log.args.status)]}`, details: `round #${roundId}` });
+    } else if (log.name === "ModelAggregated" && Number(log.args.roundId) === roundId) {
+      version = log.args.version as string;
+      described.push({ log, action: "Aggregated", details: `global model v${version} from ${log.args.contributorCount} update(s)` });
+    }
+  }
+
+  if (version !== undefined) {
+    for (const log of logs.filter(log => log.name === "ActiveModelChanged" && log.args.version === version)) {
+      described.push({ log, action: "Model activated", details: `v${version} replaced v${log.args.previousVersion}` });
+    }
+  }
+
+  return resolve(described);
+}
+
+export async function signAuditExport(
+  signer: ethers.Signer,
+  subject: string,
+  entries: AuditEntry[]
+): Promise<SignedAuditExport> {
+  const { chainId } = await (await getTestnetProvider()).getNetwork();
+  return signAuditPayload(signer, {
+    schema: AUDIT_EXPORT_SCHEMA,
+    subject,
+    chainId: chainId.toString(),
+    contracts: { adapter: config.contractAddress, registry: config.federatedAnomalyAddress },
+    generatedAt: Math.floor(Date.now() / 1000),
+    entries
+  });
+}
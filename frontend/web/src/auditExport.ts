@@ -0,0 +1,44 @@
+// auditExport.ts
+// Format of signed audit exports. Dependency free apart from ethers, so an export can be
+// verified without the rest of the frontend.
+import { ethers } from "ethers";
+
+export const AUDIT_EXPORT_SCHEMA = "federated-anomaly-audit/1";
+
+export interface AuditEntry {
+  action: string;
+  actor: string;               // Sender of the transaction that emitted the event
+  timestamp: number;
+  blockNumber: number;
+  txHash: string;
+  details: string;
+}
+
+export interface AuditExport {
+  schema: typeof AUDIT_EXPORT_SCHEMA;
+  subject: string;
+  chainId: string;
+  contracts: { adapter: string; registry: string };
+  generatedAt: number;
+  entries: AuditEntry[];
+}
+
+export interface SignedAuditExport {
+  payload: AuditExport;
+  digest: string;              // keccak256 of the JSON encoded payload
+  signer: string;
+  signature: string;           // EIP-191 signature of the digest, check with ethers.verifyMessage
+}
+
+export async function signAuditPayload(signer: ethers.Signer, payload: AuditExport): Promise<SignedAuditExport> {
+  const digest = ethers.id(JSON.stringify(payload));
+  const signature = await signer.signMessage(ethers.getBytes(digest));
+  return { payload, digest, signer: await signer.getAddress(), signature };
+}
+
+// Recomputes the digest from the payload and checks it was signed by the claimed signer
+export function verifyAuditExport(exported: SignedAuditExport): boolean {
+  const digest = ethers.id(JSON.stringify(exported.payload));
+  return digest === exported.digest &&
+    ethers.verifyMessage(ethers.getBytes(digest), exported.signature).toLowerCase() === exported.signer.toLowerCase();
+}
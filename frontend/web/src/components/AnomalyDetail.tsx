@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { AnomalyRecord } from '../anomalyRecord';
+import { AuditEntry, buildAnomalyTrail } from '../audit';
+import { decodeError } from '../errors';
+import { DetectionRequest, DetectionResult, EncryptedBatch, Participant } from '../contract';
+import { AnomalyReview } from '../indexer';
+import { explorerTxUrl } from '../networks';
+
+interface AnomalyDetailProps {
+  anomalies: (AnomalyRecord & { id: string; registered: boolean; review?: AnomalyReview })[];
+  loading: boolean;
+  participants: Participant[];
+  batches: EncryptedBatch[];
+  requests: DetectionRequest[];
+  results: DetectionResult[];
+  onShowAuditTrail: (key: string) => void;
+}
+
+const AnomalyDetail: React.FC<AnomalyDetailProps> = ({ anomalies, loading, participants, batches, requests, results, onShowAuditTrail }) => {
+  const { id = '' } = useParams();
+  const [history, setHistory] = useState<AuditEntry[]>([]);
+  const [historyError, setHistoryError] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const anomaly = anomalies.find(a => a.id === id);
+
+  // Reload the history whenever the record changes, e.g. after a review vote settled it
+  useEffect(() => {
+    if (!anomaly) return;
+    let disposed = false;
+    buildAnomalyTrail(id)
+      .then(entries => { if (!disposed) { setHistory(entries); setHistoryError(''); } })
+      .catch(e => { if (!disposed) setHistoryError(decodeError(e, 'network').message); });
+    return () => { disposed = true; };
+  }, [id, anomaly?.status, anomaly?.review?.votes.length]);
+
+  if (!anomaly) {
+    return (
+      <div className="detail-page cyber-card">
+        <Link to="/anomalies" className="back-link">&larr; All anomalies</Link>
+        <p className="tracker-muted">{loading ? 'Loading anomaly...' : `No anomaly with id ${id} was found`}</p>
+      </div>
+    );
+  }
+
+  const participant = participants.find(p => p.account.toLowerCase() === anomaly.organization.toLowerCase());
+  const batch = anomaly.batchId ? batches.find(b => b.batchId === anomaly.batchId) : undefined;
+  const handles = anomaly.data.length > 0 ? anomaly.data : batch?.featureHandles ?? [];
+  // Latest disclosure request for the batch the anomaly was filed with
+  const request = [...requests].reverse().find(r => r.batchId === anomaly.batchId);
+  const result = request ? results.find(r => r.resultId === request.batchId) : undefined;
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="detail-page">
+      <Link to="/anomalies" className="back-link">&larr; All anomalies</Link>
+
+      <div className="section-header">
+        <h2>{anomaly.anomalyType} <span className="anomaly-id">#{anomaly.id.substring(0, 6)}</span></h2>
+        <div className="header-actions">
+          <span className={`status-badge ${anomaly.status}`}>{anomaly.status.replace('_', ' ')}</span>
+          <button className="cyber-button" onClick={copyLink}>{copied ? 'Copied' : 'Copy link'}</button>
+          <button className="cyber-button" onClick={() => onShowAuditTrail(anomaly.id)}>Audit trail</button>
+        </div>
+      </div>
+
+      <div className="detail-grid">
+        <div className="cyber-card detail-card">
+          <h3>Report</h3>
+          <dl className="detail-fields">
+            <dt>Reporting organization</dt>
+            <dd title={anomaly.organization}>
+              {participant ? `${participant.organization} (#${participant.participantId})` : anomaly.organization}
+            </dd>
+            <dt>Reported</dt>
+            <dd>{new Date(anomaly.timestamp * 1000).toLocaleString()}</dd>
+            <dt>Confidence</dt>
+            <dd>
+              <div className="confidence-meter">
+                <div className="confidence-fill" style={{ width: `${anomaly.confidence}%` }}></div>
+                <span>{anomaly.confidence}%</span>
+              </div>
+            </dd>
+            <dt>Storage</dt>
+            <dd>{anomaly.registered ? 'On-chain registry' : 'Legacy adapter record'}</dd>
+            <dt>Description</dt>
+            <dd>{anomaly.description || 'No description'}</dd>
+          </dl>
+        </div>
+
+        <div className="cyber-card detail-card">
+          <h3>Encrypted Data</h3>
+          {handles.length === 0 ? (
+            <p className="tracker-muted">
+              {anomaly.legacyData ? 'Client-side placeholder from an early frontend, no ciphertext on-chain' : 'No encrypted handles recorded'}
+            </p>
+          ) : (
+            <ul className="handle-list">
+              {handles.map((handle, i) => <li key={i} className="handle-cell" title={handle}>{handle}</li>)}
+            </ul>
+          )}
+          {batch && (
+            <p className="tracker-muted">Batch #{batch.batchId}, labels handle {batch.labelsHandle.substring(0, 10)}...</p>
+          )}
+          {!anomaly.batchId && handles.length > 0 && (
+            <p className="tracker-muted">
+              Ciphertext only: these handles were encrypted for the legacy adapter, which never verifies input proofs,
+              so they can not be scored or decrypted
+            </p>
+          )}
+        </div>
+
+        <div className="cyber-card detail-card">
+          <h3>Detection Request</h3>
+          {!request ? (
+            <p className="tracker-muted">{anomaly.batchId ? `No disclosure requested for batch #${anomaly.batchId}` : 'Not linked to an encrypted batch'}</p>
+          ) : (
+            <dl className="detail-fields">
+              <dt>Request</dt>
+              <dd title={request.requestId}>#{request.requestId.substring(0, 10)} for batch #{request.batchId}</dd>
+              <dt>Status</dt>
+              <dd><span className={`status-badge ${result ? 'decrypted' : request.status}`}>{result ? 'decrypted' : request.status}</span></dd>
+              <dt>Requested</dt>
+              <dd>{new Date(request.requestedAt * 1000).toLocaleString()}</dd>
+              {result && (
+                <>
+                  <dt>Result</dt>
+                  <dd>score {result.anomalyScore}, {result.isAnomaly ? 'anomalous' : 'normal'}</dd>
+                </>
+              )}
+              <dt>Tx</dt>
+              <dd className="handle-cell" title={request.txHash}>
+                {explorerTxUrl(request.txHash)
+                  ? <a href={explorerTxUrl(request.txHash)} target="_blank" rel="noreferrer">{request.txHash.substring(0, 10)}...</a>
+                  : `${request.txHash.substring(0, 10)}...`}
+              </dd>
+            </dl>
+          )}
+        </div>
+      </div>
+
+      <div className="cyber-card detail-card">
+        <h3>Status History</h3>
+        {historyError && <p className="tracker-muted">Could not load history: {historyError}</p>}
+        <ol className="audit-timeline">
+          {history.map(entry => (
+            <li key={`${entry.txHash}:${entry.action}:${entry.actor}`} className="audit-entry">
+              <div className="audit-action">{entry.action}</div>
+              <div className="audit-details">{entry.details}</div>
+              <div className="audit-meta">
+                <span>{new Date(entry.timestamp * 1000).toLocaleString()}</span>
+                <span title={entry.actor}>by {entry.actor.substring(0, 6)}...{entry.actor.substring(38)}</span>
+              </div>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+};
+
+export default AnomalyDetail;
@@ -0,0 +1,116 @@
+import React from 'react';
+import { ANOMALY_STATUSES } from '../anomalyRecord';
+import { AnomalyQuery, DEFAULT_ANOMALY_QUERY } from '../anomalyQuery';
+
+interface FilterOption {
+  value: string;
+  label: string;
+}
+
+interface AnomalyFiltersProps {
+  query: AnomalyQuery;
+  typeOptions: FilterOption[];
+  organizationOptions: FilterOption[];
+  onChange: (changes: Partial<AnomalyQuery>) => void;
+}
+
+interface MultiSelectProps {
+  label: string;
+  options: FilterOption[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+const MultiSelect: React.FC<MultiSelectProps> = ({ label, options, selected, onChange }) => {
+  const toggle = (value: string) =>
+    onChange(selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value]);
+
+  return (
+    <details className="multi-select">
+      <summary className="cyber-select">{selected.length === 0 ? `All ${label}` : `${label} (${selected.length})`}</summary>
+      <div className="multi-select-options">
+        {options.length === 0 && <span className="tracker-muted">No values</span>}
+        {options.map(option => (
+          <label key={option.value} title={option.value}>
+            <input type="checkbox" checked={selected.includes(option.value)} onChange={() => toggle(option.value)} />
+            {option.label}
+          </label>
+        ))}
+        {selected.length > 0 && (
+          <button className="history-link" onClick={() => onChange([])}>Clear</button>
+        )}
+      </div>
+    </details>
+  );
+};
+
+const AnomalyFilters: React.FC<AnomalyFiltersProps> = ({ query, typeOptions, organizationOptions, onChange }) => {
+  const statusOptions = ANOMALY_STATUSES.map(status => ({ value: status, label: status.replace('_', ' ') }));
+  const confidence = (value: string, fallback: number) => {
+    const parsed = parseInt(value);
+    return Number.isNaN(parsed) ? fallback : Math.min(100, Math.max(0, parsed));
+  };
+
+  return (
+    <div className="anomaly-filters">
+      <div className="search-box">
+        <input
+          type="text"
+          placeholder="Search anomalies..."
+          value={query.search}
+          onChange={e => onChange({ search: e.target.value })}
+          className="cyber-input"
+        />
+      </div>
+      <MultiSelect
+        label="Statuses"
+        options={statusOptions}
+        selected={query.statuses}
+        onChange={statuses => onChange({ statuses: statuses as AnomalyQuery['statuses'] })}
+      />
+      <MultiSelect label="Types" options={typeOptions} selected={query.types} onChange={types => onChange({ types })} />
+      <MultiSelect
+        label="Organizations"
+        options={organizationOptions}
+        selected={query.organizations}
+        onChange={organizations => onChange({ organizations })}
+      />
+      <label className="filter-range">
+        From
+        <input type="date" value={query.from} max={query.to || undefined} onChange={e => onChange({ from: e.target.value })} className="cyber-input" />
+      </label>
+      <label className="filter-range">
+        To
+        <input type="date" value={query.to} min={query.from || undefined} onChange={e => onChange({ to: e.target.value })} className="cyber-input" />
+      </label>
+      <label className="filter-range">
+        Confidence
+        <input
+          type="number"
+          min="0"
+          max={query.maxConfidence}
+          value={query.minConfidence}
+          onChange={e => onChange({ minConfidence: confidence(e.target.value, 0) })}
+          className="cyber-input"
+        />
+        –
+        <input
+          type="number"
+          min={query.minConfidence}
+          max="100"
+          value={query.maxConfidence}
+          onChange={e => onChange({ maxConfidence: confidence(e.target.value, 100) })}
+          className="cyber-input"
+        />
+      </label>
+      <button
+        className="cyber-button"
+        onClick={() => onChange({ ...DEFAULT_ANOMALY_QUERY, sort: query.sort, pageSize: query.pageSize })}
+      >
+        Reset Filters
+      </button>
+    </div>
+  );
+};
+
+export default AnomalyFilters;
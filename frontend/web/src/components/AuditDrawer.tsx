@@ -0,0 +1,69 @@
+import React from 'react';
+import { AuditEntry } from '../audit';
+import { explorerTxUrl } from '../networks';
+
+interface AuditDrawerProps {
+  title: string;
+  entries: AuditEntry[];
+  loading: boolean;
+  error: string;
+  exporting: boolean;
+  canExport: boolean;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const shortHex = (value: string) => `${value.substring(0, 6)}...${value.substring(value.length - 4)}`;
+
+const AuditDrawer: React.FC<AuditDrawerProps> = ({ title, entries, loading, error, exporting, canExport, onExport, onClose }) => {
+  return (
+    <div className="drawer-overlay" onClick={onClose}>
+      <aside className="audit-drawer cyber-card" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{title}</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="drawer-body">
+          {loading && <p className="tracker-muted">Reconstructing history from events...</p>}
+          {error && <p className="tracker-muted">Could not load history: {error}</p>}
+          {!loading && !error && entries.length === 0 && (
+            <p className="tracker-muted">No events found for this record</p>
+          )}
+
+          <ol className="audit-timeline">
+            {entries.map(entry => (
+              <li key={`${entry.txHash}:${entry.action}:${entry.actor}`} className="audit-entry">
+                <div className="audit-action">{entry.action}</div>
+                <div className="audit-details">{entry.details}</div>
+                <div className="audit-meta">
+                  <span title={entry.actor}>by {shortHex(entry.actor)}</span>
+                  <span>{new Date(entry.timestamp * 1000).toLocaleString()}</span>
+                  <span title={entry.txHash}>
+                    block {entry.blockNumber}, tx {explorerTxUrl(entry.txHash)
+                      ? <a href={explorerTxUrl(entry.txHash)} target="_blank" rel="noreferrer">{shortHex(entry.txHash)}</a>
+                      : shortHex(entry.txHash)}
+                  </span>
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn cyber-button">Close</button>
+          <button
+            onClick={onExport}
+            disabled={!canExport || loading || exporting || entries.length === 0}
+            className="submit-btn cyber-button primary"
+            title={canExport ? 'Sign the trail with the connected wallet and download it' : 'Connect a wallet to sign the export'}
+          >
+            {exporting ? 'Signing...' : 'Export signed JSON'}
+          </button>
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default AuditDrawer;
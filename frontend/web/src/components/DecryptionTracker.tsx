@@ -0,0 +1,159 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DetectionRequest, DetectionResult, getFederatedContractReadOnly } from '../contract';
+import { decodeError } from '../errors';
+
+// A pending request older than this is flagged before it actually expires on-chain; it can only be
+// re-requested once the contract's DECRYPTION_REQUEST_TTL has passed, so the tracker shows how long that is
+const STUCK_AFTER_SECONDS = 10 * 60;
+
+type TrackedState = 'pending' | 'stuck' | 'timed-out' | 'expired' | 'decrypted';
+
+interface DecryptionTrackerProps {
+  requests: DetectionRequest[];
+  results: DetectionResult[];
+  now: number;
+  canReRequest: (batchId: number) => boolean;
+  onEvent: () => void;
+  onReRequest: (request: DetectionRequest) => void;
+}
+
+const formatElapsed = (seconds: number) => {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${(seconds % 60).toString().padStart(2, '0')}s`;
+  return `${Math.floor(minutes / 60)}h ${(minutes % 60).toString().padStart(2, '0')}m`;
+};
+
+const DecryptionTracker: React.FC<DecryptionTrackerProps> = ({ requests, results, now, canReRequest, onEvent, onReRequest }) => {
+  const [live, setLive] = useState(false);
+  const [lastEvent, setLastEvent] = useState('');
+  const [subscribeError, setSubscribeError] = useState('');
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  // Reload on every oracle related event instead of polling the whole contract state
+  useEffect(() => {
+    let disposed = false;
+    let unsubscribe = () => {};
+
+    getFederatedContractReadOnly().then(async contract => {
+      if (!contract || disposed) return;
+
+      const handle = (name: string) => () => {
+        setLastEvent(`${name} at ${new Date().toLocaleTimeString()}`);
+        onEventRef.current();
+      };
+      const onRequested = handle('DetectionRequested');
+      const onDecrypted = handle('ResultDecrypted');
+      const onFailed = handle('DecryptionFailed');
+
+      await Promise.all([
+        contract.on(contract.getEvent('DetectionRequested'), onRequested),
+        contract.on(contract.getEvent('ResultDecrypted'), onDecrypted),
+        contract.on(contract.getEvent('DecryptionFailed'), onFailed)
+      ]);
+      unsubscribe = () => {
+        contract.off(contract.getEvent('DetectionRequested'), onRequested);
+        contract.off(contract.getEvent('ResultDecrypted'), onDecrypted);
+        contract.off(contract.getEvent('DecryptionFailed'), onFailed);
+      };
+      if (disposed) {
+        unsubscribe();
+      } else {
+        setLive(true);
+        setSubscribeError('');
+      }
+    }).catch(e => { if (!disposed) setSubscribeError(decodeError(e, 'network').message); });
+
+    return () => {
+      disposed = true;
+      unsubscribe();
+      setLive(false);
+    };
+  }, []);
+
+  const getState = (request: DetectionRequest): TrackedState => {
+    if (request.status === 'fulfilled') return 'decrypted';
+    if (request.status === 'expired') return 'expired';
+    if (now > request.expiresAt) return 'timed-out';
+    return now - request.requestedAt > STUCK_AFTER_SECONDS ? 'stuck' : 'pending';
+  };
+
+  // Only the newest request of a batch can be retried, older ones are history
+  const isLatestForBatch = (request: DetectionRequest) =>
+    !requests.some(other => other.batchId === request.batchId && other.requestedAt > request.requestedAt);
+
+  const sorted = [...requests].sort((a, b) => b.requestedAt - a.requestedAt);
+  const waiting = requests.filter(request => request.status === 'pending').length;
+
+  return (
+    <div className="tracker-panel">
+      <div className="tracker-status">
+        <span className={`tracker-live ${live ? 'on' : ''}`}>{live ? 'Live' : 'Offline'}</span>
+        <span>{waiting} awaiting the decryption oracle</span>
+        {lastEvent && <span className="tracker-last">Last event: {lastEvent}</span>}
+        {subscribeError && <span className="tracker-last">Not receiving live events: {subscribeError}</span>}
+      </div>
+
+      <div className="anomalies-list federated-table cyber-card">
+        <div className="table-header">
+          <div className="header-cell">Request</div>
+          <div className="header-cell">Batch</div>
+          <div className="header-cell">Elapsed</div>
+          <div className="header-cell">Status</div>
+          <div className="header-cell">Result</div>
+          <div className="header-cell">Actions</div>
+        </div>
+
+        {sorted.length === 0 ? (
+          <div className="no-anomalies">
+            <p>No disclosure requests sent to the decryption oracle</p>
+          </div>
+        ) : (
+          sorted.map(request => {
+            const state = getState(request);
+            const result = results.find(r => r.resultId === request.batchId);
+            const retryable = (state === 'timed-out' || state === 'expired') && isLatestForBatch(request) && canReRequest(request.batchId);
+            return (
+              <div className="anomaly-row" key={request.requestId}>
+                <div className="table-cell anomaly-id" title={request.txHash}>#{request.requestId}</div>
+                <div className="table-cell">#{request.batchId}</div>
+                <div className="table-cell">
+                  {state === 'pending' || state === 'stuck' || state === 'timed-out'
+                    ? formatElapsed(Math.max(0, now - request.requestedAt))
+                    : new Date(request.requestedAt * 1000).toLocaleString()}
+                </div>
+                <div className="table-cell">
+                  <span className={`status-badge ${state}`}>{state}</span>
+                </div>
+                <div className="table-cell">
+                  {state === 'decrypted' && result ? (
+                    <span className={`status-badge ${result.isAnomaly ? 'anomalous' : 'normal'}`}>
+                      {result.isAnomaly ? 'anomaly' : 'normal'} ({result.anomalyScore})
+                    </span>
+                  ) : (
+                    <span className="tracker-muted">{state === 'expired' ? 'No result' : 'Awaiting ResultDecrypted'}</span>
+                  )}
+                </div>
+                <div className="table-cell actions">
+                  {retryable && (
+                    <button className="action-btn cyber-button warning" onClick={() => onReRequest(request)}>
+                      Re-request
+                    </button>
+                  )}
+                  {state === 'stuck' && (
+                    <span className="tracker-muted" title="The contract only accepts a new request once this one has expired">
+                      Re-request in {formatElapsed(Math.max(0, request.expiresAt - now))}
+                    </span>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DecryptionTracker;
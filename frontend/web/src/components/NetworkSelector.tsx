@@ -0,0 +1,34 @@
+import React, { useState } from 'react';
+import { getRpcPool } from '../contract';
+import { NETWORKS, activeNetwork, isDeployed, switchNetwork } from '../networks';
+import { EndpointHealth } from '../rpcPool';
+
+const describeEndpoint = (endpoint: EndpointHealth) => {
+  const state = endpoint.cooldownUntil > Date.now()
+    ? `cooling down after ${endpoint.failures} failure(s)${endpoint.lastError ? `: ${endpoint.lastError}` : ''}`
+    : endpoint.latencyMs === null ? 'untested' : `${endpoint.latencyMs} ms`;
+  return `${new URL(endpoint.url).host}: ${state}`;
+};
+
+const NetworkSelector: React.FC = () => {
+  // Read on hover so the tooltip shows the pool as it is now, not as it was on the last render
+  const [health, setHealth] = useState<EndpointHealth[]>([]);
+
+  return (
+    <select
+      className="cyber-select network-select"
+      value={activeNetwork.chainId}
+      onChange={e => switchNetwork(Number(e.target.value))}
+      onMouseEnter={() => setHealth(getRpcPool().ranked())}
+      title={`RPC endpoints, in the order reads try them:\n${health.map(describeEndpoint).join('\n')}`}
+    >
+      {NETWORKS.map(network => (
+        <option key={network.chainId} value={network.chainId}>
+          {network.name}{isDeployed(network) ? '' : ' (not deployed)'}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default NetworkSelector;
@@ -0,0 +1,34 @@
+import React from 'react';
+
+interface PaginationProps {
+  page: number;
+  pageCount: number;
+  pageSize: number;
+  pageSizes: number[];
+  total: number;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+}
+
+const Pagination: React.FC<PaginationProps> = ({ page, pageCount, pageSize, pageSizes, total, onPageChange, onPageSizeChange }) => {
+  const first = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const last = Math.min(page * pageSize, total);
+
+  return (
+    <div className="pagination">
+      <span className="tracker-muted">
+        {first.toLocaleString()}–{last.toLocaleString()} of {total.toLocaleString()}
+      </span>
+      <select value={pageSize} onChange={e => onPageSizeChange(Number(e.target.value))} className="cyber-select">
+        {pageSizes.map(size => <option key={size} value={size}>{size} per page</option>)}
+      </select>
+      <button className="cyber-button" disabled={page <= 1} onClick={() => onPageChange(1)}>&laquo;</button>
+      <button className="cyber-button" disabled={page <= 1} onClick={() => onPageChange(page - 1)}>&lsaquo;</button>
+      <span>Page {page} / {pageCount}</span>
+      <button className="cyber-button" disabled={page >= pageCount} onClick={() => onPageChange(page + 1)}>&rsaquo;</button>
+      <button className="cyber-button" disabled={page >= pageCount} onClick={() => onPageChange(pageCount)}>&raquo;</button>
+    </div>
+  );
+};
+
+export default Pagination;
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { GlobalModelVersion, ModelUpdate, Participant, TrainingRound, fetchTrainingRound, getFederatedContractReadOnly } from '../contract';
+import { decodeError } from '../errors';
+
+interface RoundDetailProps {
+  // Changes whenever the federated data is reloaded, so the round is fetched again
+  currentRound: TrainingRound | null;
+  participants: Participant[];
+  modelUpdates: ModelUpdate[];
+  modelHistory: GlobalModelVersion[];
+  onShowAuditTrail: (update: ModelUpdate) => void;
+}
+
+const RoundDetail: React.FC<RoundDetailProps> = ({ currentRound, participants, modelUpdates, modelHistory, onShowAuditTrail }) => {
+  const { id = '' } = useParams();
+  const roundId = Number(id);
+  const [round, setRound] = useState<TrainingRound | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let disposed = false;
+    setLoading(true);
+    (async () => {
+      const contract = await getFederatedContractReadOnly();
+      const fetched = contract && Number.isInteger(roundId) && roundId > 0 ? await fetchTrainingRound(contract, roundId) : null;
+      if (!disposed) { setRound(fetched); setError(''); }
+    })()
+      .catch(e => { if (!disposed) setError(decodeError(e, 'network').message); })
+      .finally(() => { if (!disposed) setLoading(false); });
+    return () => { disposed = true; };
+  }, [roundId, currentRound]);
+
+  const organizationOf = (participantId: number) =>
+    participants.find(p => p.participantId === participantId)?.organization || 'Unknown organization';
+
+  if (!round) {
+    return (
+      <div className="detail-page cyber-card">
+        <Link to="/federated" className="back-link">&larr; Federated learning</Link>
+        <p className="tracker-muted">
+          {loading ? 'Loading round...' : error ? `Could not load round ${id}: ${error}` : `Round ${id} does not exist`}
+        </p>
+      </div>
+    );
+  }
+
+  const updates = modelUpdates.filter(update => update.roundId === round.roundId);
+  const model = modelHistory.find(m => m.version === round.modelVersion);
+
+  return (
+    <div className="detail-page">
+      <Link to="/federated" className="back-link">&larr; Federated learning</Link>
+
+      <div className="section-header">
+        <h2>Training Round #{round.roundId}</h2>
+        <span className={`status-badge ${round.status}`}>{round.status}</span>
+      </div>
+
+      <div className="detail-grid">
+        <div className="cyber-card detail-card">
+          <h3>Schedule</h3>
+          <dl className="detail-fields">
+            <dt>Started</dt>
+            <dd>{new Date(round.startedAt * 1000).toLocaleString()}</dd>
+            <dt>Deadline</dt>
+            <dd>{new Date(round.deadline * 1000).toLocaleString()}</dd>
+            <dt>Finalized</dt>
+            <dd>{round.finalizedAt > 0 ? new Date(round.finalizedAt * 1000).toLocaleString() : 'Not yet'}</dd>
+            <dt>Quorum</dt>
+            <dd>{round.contributors.length} / {round.minParticipants}</dd>
+          </dl>
+        </div>
+
+        <div className="cyber-card detail-card">
+          <h3>Global Model</h3>
+          {model ? (
+            <dl className="detail-fields">
+              <dt>Version</dt>
+              <dd>v{model.version}</dd>
+              <dt>Published</dt>
+              <dd>{new Date(model.publishedAt * 1000).toLocaleString()}</dd>
+              <dt>Contributors</dt>
+              <dd>{model.contributors.map(participantId => `#${participantId}`).join(', ')}</dd>
+            </dl>
+          ) : (
+            <p className="tracker-muted">No model has been aggregated from this round</p>
+          )}
+        </div>
+      </div>
+
+      <div className="section-header">
+        <h2>Encrypted Updates</h2>
+      </div>
+      <div className="anomalies-list federated-table cyber-card">
+        <div className="table-header">
+          <div className="header-cell">Update</div>
+          <div className="header-cell">Participant</div>
+          <div className="header-cell">Organization</div>
+          <div className="header-cell">Weights</div>
+          <div className="header-cell">Date</div>
+          <div className="header-cell">Actions</div>
+        </div>
+
+        {updates.length === 0 ? (
+          <div className="no-anomalies">
+            <p>No updates submitted in this round</p>
+          </div>
+        ) : (
+          updates.map(update => (
+            <div className="anomaly-row" key={update.updateId}>
+              <div className="table-cell anomaly-id">#{update.updateId}</div>
+              <div className="table-cell">#{update.participantId}</div>
+              <div className="table-cell">{organizationOf(update.participantId)}</div>
+              <div className="table-cell handle-cell" title={update.weightHandles.join('\n')}>
+                {update.weightHandles.length} × euint32
+              </div>
+              <div className="table-cell">{new Date(update.timestamp * 1000).toLocaleDateString()}</div>
+              <div className="table-cell">
+                <button className="action-btn cyber-button" onClick={() => onShowAuditTrail(update)}>History</button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoundDetail;
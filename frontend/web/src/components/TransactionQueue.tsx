@@ -0,0 +1,78 @@
+import React from 'react';
+import { explorerTxUrl } from '../networks';
+import { ManagedTransaction, isSettled } from '../txManager';
+
+interface TransactionActionsProps {
+  tx: ManagedTransaction;
+  onSpeedUp: (id: string) => void;
+  onCancel: (id: string) => void;
+}
+
+const shortHash = (hash: string) => `${hash.substring(0, 10)}...`;
+
+const describeProgress = (tx: ManagedTransaction) => {
+  switch (tx.status) {
+    case 'signing': return 'Waiting for your wallet';
+    case 'pending': return tx.blockNumber
+      ? `Mined in block ${tx.blockNumber}, ${tx.confirmations} confirmation${tx.confirmations === 1 ? '' : 's'}`
+      : `Pending with nonce ${tx.nonce}${tx.hashes.length > 1 ? `, replaced ${tx.hashes.length - 1}x` : ''}`;
+    case 'confirmed': return `Confirmed in block ${tx.blockNumber}`;
+    case 'cancelled': return 'Cancelled';
+    case 'replaced': return 'Replaced outside this app';
+    case 'failed': return tx.error || 'Failed';
+  }
+};
+
+// Progress line of one transaction, with speed up and cancel while it is pending
+export const TransactionActions: React.FC<TransactionActionsProps> = ({ tx, onSpeedUp, onCancel }) => {
+  return (
+    <div className="tx-progress">
+      <span className={`status-badge ${tx.status}`}>{tx.status}</span>
+      <span className="tx-detail">{describeProgress(tx)}</span>
+      {tx.hash && (
+        <span className="tx-detail" title={tx.hash}>
+          {explorerTxUrl(tx.hash)
+            ? <a href={explorerTxUrl(tx.hash)} target="_blank" rel="noreferrer">{shortHash(tx.hash)}</a>
+            : shortHash(tx.hash)}
+        </span>
+      )}
+      {tx.status === 'pending' && !tx.blockNumber && (
+        <span className="tx-buttons">
+          <button className="history-link" onClick={() => onSpeedUp(tx.id)}>Speed up</button>
+          {!tx.cancelHash && <button className="history-link" onClick={() => onCancel(tx.id)}>Cancel</button>}
+        </span>
+      )}
+    </div>
+  );
+};
+
+interface TransactionQueueProps {
+  transactions: ManagedTransaction[];
+  onSpeedUp: (id: string) => void;
+  onCancel: (id: string) => void;
+  onClear: () => void;
+}
+
+const TransactionQueue: React.FC<TransactionQueueProps> = ({ transactions, onSpeedUp, onCancel, onClear }) => {
+  if (transactions.length === 0) return null;
+  const pending = transactions.filter(tx => !isSettled(tx)).length;
+
+  return (
+    <details className="multi-select tx-queue">
+      <summary className="cyber-select">{pending > 0 ? `${pending} pending` : 'Transactions'}</summary>
+      <div className="multi-select-options tx-queue-list">
+        {transactions.map(tx => (
+          <div key={tx.id} className="tx-queue-item">
+            <div className="tx-label">{tx.label}</div>
+            <TransactionActions tx={tx} onSpeedUp={onSpeedUp} onCancel={onCancel} />
+          </div>
+        ))}
+        {pending < transactions.length && (
+          <button className="history-link" onClick={onClear}>Clear finished</button>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default TransactionQueue;
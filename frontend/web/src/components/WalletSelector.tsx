@@ -1,4 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { ethers } from 'ethers';
+import { WALLET_ERROR_CODES } from '../errors';
+import { activeNetwork } from '../networks';
 
 interface WalletInfo {
   name: string;
@@ -355,8 +358,8 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
 
     try {
-      // Auto-switch to Sepolia testnet
-      await switchToSepolia(wallet.provider);
+      // Auto-switch to the network the app is running against
+      await switchToActiveNetwork(wallet.provider);
       onWalletSelect(wallet);
     } catch (error) {
       console.error('Error switching network:', error);
@@ -365,34 +368,28 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
   };
 
-  const switchToSepolia = async (provider: any) => {
+  const switchToActiveNetwork = async (provider: any) => {
+    const chainId = ethers.toQuantity(activeNetwork.chainId);
     try {
       await provider.request({
         method: 'wallet_switchEthereumChain',
-        params: [{ chainId: '0xaa36a7' }], // Sepolia chainId
+        params: [{ chainId }],
       });
     } catch (switchError: any) {
-      if (switchError.code === 4902) {
+      if (switchError.code === WALLET_ERROR_CODES.unrecognizedChain) {
         try {
           await provider.request({
             method: 'wallet_addEthereumChain',
             params: [{
-              chainId: '0xaa36a7',
-              chainName: 'Sepolia',
-              nativeCurrency: {
-                name: 'Sepolia Ether',
-                symbol: 'SEP',
-                decimals: 18
-              },
-              rpcUrls: [
-                'https://rpc.sepolia.org',
-                'https://eth-sepolia.public.blastapi.io',
-              ],
-              blockExplorerUrls: ['https://sepolia.etherscan.io/']
+              chainId,
+              chainName: activeNetwork.name,
+              nativeCurrency: activeNetwork.nativeCurrency,
+              rpcUrls: activeNetwork.rpcUrls,
+              blockExplorerUrls: activeNetwork.explorerUrl ? [activeNetwork.explorerUrl] : undefined
             }]
           });
         } catch (addError) {
-          console.error('Error adding Sepolia network:', addError);
+          console.error(`Error adding ${activeNetwork.name} network:`, addError);
           // Don't throw, let the main app handle it
         }
       }
@@ -708,7 +705,7 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
           border: '1px solid var(--border-color)'
         }}>
           <div style={{ marginBottom: '6px' }}>
-            Wallet will automatically switch to Sepolia testnet
+            Wallet will automatically switch to {activeNetwork.name}
           </div>
         </div>
       </div>
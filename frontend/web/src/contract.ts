@@ -1,10 +1,109 @@
 // contract.ts
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import federatedAbiJson from "./abi/FederatedAnomalyFHE.json";
+import { InteractionError, decodeError } from "./errors";
+import { activeNetwork, scanStartBlock } from "./networks";
+import { RpcPool } from "./rpcPool";
+import { TransactionManager } from "./txManager";
+import type { FederatedAnomalyFHE } from "../../../types";
 
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+export const FEDERATED_ABI = (federatedAbiJson as any).abi || federatedAbiJson;
+// Deployment on the network selected at startup, see networks.ts
+export const config = activeNetwork.deployment;
+
+export const PARTICIPANT_STATUSES = ["none", "pending", "active", "suspended", "removed"] as const;
+export type ParticipantStatus = typeof PARTICIPANT_STATUSES[number];
+
+// Index matches FederatedAnomalyFHE.AnomalyStatus
+export const ANOMALY_REVIEW_STATUSES = ["none", "detected", "verified", "false_positive"] as const;
+export type AnomalyReviewStatus = typeof ANOMALY_REVIEW_STATUSES[number];
+
+export const ROUND_STATUSES = ["none", "open", "collecting", "aggregating", "finalized", "aborted"] as const;
+export type RoundStatus = typeof ROUND_STATUSES[number];
+
+export interface Participant {
+  participantId: number;
+  account: string;
+  organization: string;
+  metadataURI: string;
+  status: ParticipantStatus;
+  registeredAt: number;
+}
+
+export interface FeatureSchema {
+  dimension: number;
+  bitWidth: 32 | 64;
+}
+
+export interface TrainingRound {
+  roundId: number;
+  status: RoundStatus;
+  startedAt: number;
+  deadline: number;
+  minParticipants: number;
+  finalizedAt: number;
+  contributors: number[];
+  modelVersion: number;
+}
+
+export interface GlobalModelVersion {
+  version: number;
+  roundId: number;
+  contributors: number[];
+  publishedAt: number;
+  weightHandles: string[];
+  biasHandle: string;
+}
+
+export interface EncryptedBatch {
+  batchId: number;
+  featureHandles: string[];
+  labelsHandle: string;
+  participantId: number;
+  timestamp: number;
+  txHash: string;
+}
+
+export interface ModelUpdate {
+  updateId: number;
+  roundId: number;
+  weightHandles: string[];
+  biasHandle: string;
+  participantId: number;
+  timestamp: number;
+  txHash: string;
+}
+
+export const DECRYPTION_STATUSES = ["none", "pending", "fulfilled", "expired"] as const;
+export type DecryptionStatus = typeof DECRYPTION_STATUSES[number];
+
+export interface DetectionRequest {
+  requestId: string;
+  batchId: number;
+  status: DecryptionStatus;
+  requestedAt: number;
+  expiresAt: number;
+  txHash: string;
+}
+
+export interface ComputedResult {
+  resultId: number;
+  scoreHandle: string;
+  verdictHandle: string;
+  thresholdVersion: number;
+  txHash: string;
+}
+
+export interface DetectionResult {
+  resultId: number;
+  anomalyScore: number;
+  isAnomaly: boolean;
+  isRevealed: boolean;
+  thresholdVersion: number;
+  txHash: string;
+}
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -18,67 +117,260 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
+let rpcPool: RpcPool | null = null;
+
+// One pool per session: endpoint health survives reloads through localStorage, so a page load
+// goes straight to the endpoint that answered best last time instead of probing them in turn
+export const getRpcPool = () => {
+  if (!rpcPool) {
+    rpcPool = new RpcPool(
+      activeNetwork.rpcUrls,
+      { name: activeNetwork.name, chainId: activeNetwork.chainId },
+      { storage: localStorage, storageKey: `rpc-health:${activeNetwork.chainId}` }
+    );
+    rpcPool.start();
   }
-  
-  throw new Error("All RPC providers failed");
+  return rpcPool;
+};
+
+export const getTestnetProvider = async () => getRpcPool().provider;
+
+// Whether code exists at an address, asked once per session unless the lookup failed
+const deployedCode = new Map<string, Promise<boolean>>();
+
+const hasCode = (address: string) => {
+  if (!deployedCode.has(address)) {
+    const check = retry(() => getRpcPool().provider.getCode(address)).then(code => code !== "0x");
+    check.catch(() => deployedCode.delete(address));
+    deployedCode.set(address, check);
+  }
+  return deployedCode.get(address)!;
 };
 
+// null means nothing is deployed at the configured address; RPC failures throw an InteractionError
 export async function getContractReadOnly() {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
-    
-    const code = await retry(() => provider.getCode(config.contractAddress));
-    if (code === "0x") {
+    if (!(await hasCode(config.contractAddress))) {
       return null;
     }
     
-    return contract;
+    return new ethers.Contract(config.contractAddress, ABI, getRpcPool().provider);
   } catch (error) {
-    console.error("Failed to create read-only contract:", error);
-    return null;
+    throw decodeError(error, "network");
   }
 }
 
-export async function getContractWithSigner() {
+export const getInjectedSigner = async () => {
   if (!(window as any).ethereum) {
-    throw new Error("No injected wallet");
+    throw new InteractionError("wallet_unavailable", "No injected wallet found", {
+      hint: "Install or enable a browser wallet such as MetaMask, then reload the page"
+    });
   }
   try {
     const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
+    return await provider.getSigner();
   } catch (error) {
-    console.error("Failed to create contract with signer:", error);
-    throw error;
+    throw decodeError(error, "wallet_unavailable");
+  }
+};
+
+// Without a configured deploy block only recent events are read, the event index reports that case
+const federatedFromBlock = () => scanStartBlock(config.federatedAnomalyDeployBlock, getRpcPool().provider);
+
+export async function getFederatedContractReadOnly(): Promise<FederatedAnomalyFHE | null> {
+  if (config.federatedAnomalyAddress === ethers.ZeroAddress) {
+    return null;
   }
+  try {
+    if (!(await hasCode(config.federatedAnomalyAddress))) {
+      return null;
+    }
+    
+    return new ethers.Contract(config.federatedAnomalyAddress, FEDERATED_ABI, getRpcPool().provider) as unknown as FederatedAnomalyFHE;
+  } catch (error) {
+    throw decodeError(error, "network");
+  }
+}
+
+// Not connected to any runner: writes are encoded with populateTransaction and sent by the transaction manager
+export const federatedCalls = new ethers.Contract(config.federatedAnomalyAddress, FEDERATED_ABI) as unknown as FederatedAnomalyFHE;
+
+let transactionManager: TransactionManager | null = null;
+
+// Receipts are read through the RPC pool, so confirmations keep coming in when the wallet's node lags
+export const getTransactionManager = () => {
+  if (!transactionManager) {
+    transactionManager = new TransactionManager(getRpcPool().provider, getInjectedSigner, {
+      confirmations: activeNetwork.fhevm === "mock" ? 1 : 2,
+      storage: localStorage,
+      storageKey: `transactions:${activeNetwork.chainId}`
+    });
+    transactionManager.start();
+  }
+  return transactionManager;
+};
+
+export async function fetchFeatureSchema(contract: FederatedAnomalyFHE): Promise<FeatureSchema> {
+  const schema = await retry(() => contract.featureSchema());
+  return {
+    dimension: Number(schema.dimension),
+    bitWidth: Number(schema.bitWidth) === 64 ? 64 : 32
+  };
+}
+
+export async function fetchParticipants(contract: FederatedAnomalyFHE): Promise<Participant[]> {
+  const events = await retry(async () =>
+    contract.queryFilter(contract.filters.ParticipantRegistered(), await federatedFromBlock())
+  );
+  
+  return Promise.all(events.map(async event => {
+    const participant = await retry(() => contract.getParticipant(event.args.participantId));
+    return {
+      participantId: Number(event.args.participantId),
+      account: participant.account,
+      organization: participant.organization,
+      metadataURI: participant.metadataURI,
+      status: PARTICIPANT_STATUSES[Number(participant.status)],
+      registeredAt: Number(participant.registeredAt)
+    };
+  }));
+}
+
+export async function fetchEncryptedBatches(contract: FederatedAnomalyFHE): Promise<EncryptedBatch[]> {
+  const events = await retry(async () =>
+    contract.queryFilter(contract.filters.BatchSubmitted(), await federatedFromBlock())
+  );
+  
+  return Promise.all(events.map(async event => {
+    const batch = await retry(() => contract.getEncryptedBatch(event.args.batchId));
+    return {
+      batchId: Number(event.args.batchId),
+      featureHandles: [...batch.features],
+      labelsHandle: batch.labels,
+      participantId: Number(batch.participantId),
+      timestamp: Number(batch.timestamp),
+      txHash: event.transactionHash
+    };
+  }));
+}
+
+export async function fetchCurrentRound(contract: FederatedAnomalyFHE): Promise<TrainingRound | null> {
+  const roundId = await retry(() => contract.currentRoundId());
+  if (roundId === 0n) return null;
+  
+  return fetchTrainingRound(contract, Number(roundId));
+}
+
+export async function fetchTrainingRound(contract: FederatedAnomalyFHE, roundId: number): Promise<TrainingRound | null> {
+  const round = await retry(() => contract.getTrainingRound(roundId));
+  if (Number(round.status) === 0) return null;
+  
+  return {
+    roundId,
+    status: ROUND_STATUSES[Number(round.status)],
+    startedAt: Number(round.startedAt),
+    deadline: Number(round.deadline),
+    minParticipants: Number(round.minParticipants),
+    finalizedAt: Number(round.finalizedAt),
+    contributors: round.contributors.map(id => Number(id)),
+    modelVersion: Number(round.modelVersion)
+  };
+}
+
+export async function fetchModelHistory(contract: FederatedAnomalyFHE): Promise<GlobalModelVersion[]> {
+  const latestVersion = Number(await retry(() => contract.globalModelVersion()));
+  const versions = Array.from({ length: latestVersion }, (_, i) => i + 1);
+  
+  return Promise.all(versions.map(async version => {
+    const model = await retry(() => contract.getGlobalModel(version));
+    return {
+      version,
+      roundId: Number(model.roundId),
+      contributors: model.contributors.map(id => Number(id)),
+      publishedAt: Number(model.publishedAt),
+      weightHandles: [...model.weights],
+      biasHandle: model.bias
+    };
+  }));
+}
+
+export async function fetchModelUpdates(contract: FederatedAnomalyFHE): Promise<ModelUpdate[]> {
+  const events = await retry(async () =>
+    contract.queryFilter(contract.filters.ModelUpdated(), await federatedFromBlock())
+  );
+  
+  return Promise.all(events.map(async event => {
+    const update = await retry(() => contract.getEncryptedUpdate(event.args.updateId));
+    return {
+      updateId: Number(event.args.updateId),
+      roundId: Number(update.roundId),
+      weightHandles: [...update.weights],
+      biasHandle: update.bias,
+      participantId: Number(update.participantId),
+      timestamp: Number(update.timestamp),
+      txHash: event.transactionHash
+    };
+  }));
+}
+
+export async function fetchDetectionRequests(contract: FederatedAnomalyFHE): Promise<DetectionRequest[]> {
+  const events = await retry(async () =>
+    contract.queryFilter(contract.filters.DetectionRequested(), await federatedFromBlock())
+  );
+  
+  return Promise.all(events.map(async event => {
+    const request = await retry(() => contract.getDecryptionRequest(event.args.requestId));
+    return {
+      requestId: event.args.requestId.toString(),
+      batchId: Number(event.args.batchId),
+      status: DECRYPTION_STATUSES[Number(request.status)],
+      requestedAt: Number(request.requestedAt),
+      expiresAt: Number(request.expiresAt),
+      txHash: event.transactionHash
+    };
+  }));
+}
+
+export async function fetchComputedResults(contract: FederatedAnomalyFHE): Promise<ComputedResult[]> {
+  const events = await retry(async () =>
+    contract.queryFilter(contract.filters.DetectionComputed(), await federatedFromBlock())
+  );
+  
+  // A batch can be re-scored; the latest computation overwrites the stored handles
+  const latest = new Map<number, typeof events[number]>();
+  events.forEach(event => latest.set(Number(event.args.resultId), event));
+  
+  return Promise.all([...latest.values()].map(async event => {
+    const result = await retry(() => contract.getEncryptedResult(event.args.resultId));
+    return {
+      resultId: Number(event.args.resultId),
+      scoreHandle: result.score,
+      verdictHandle: result.isAnomaly,
+      thresholdVersion: Number(result.thresholdVersion),
+      txHash: event.transactionHash
+    };
+  }));
+}
+
+export async function fetchDetectionResults(contract: FederatedAnomalyFHE): Promise<DetectionResult[]> {
+  const events = await retry(async () =>
+    contract.queryFilter(contract.filters.ResultDecrypted(), await federatedFromBlock())
+  );
+  
+  // Re-scoring withdraws a disclosure, so only the latest event per result can still be revealed
+  const latest = new Map(events.map(event => [event.args.resultId, event]));
+  const results = await Promise.all([...latest.values()].map(async event => {
+    const result = await retry(() => contract.getDecryptedResult(event.args.resultId));
+    return {
+      resultId: Number(event.args.resultId),
+      anomalyScore: Number(result.anomalyScore),
+      isAnomaly: result.isAnomaly,
+      isRevealed: result.isRevealed,
+      thresholdVersion: Number(result.thresholdVersion),
+      txHash: event.transactionHash
+    };
+  }));
+  return results.filter(result => result.isRevealed);
 }
 
 export function normAddr(a: string) { 
@@ -0,0 +1,218 @@
+// errors.ts
+// Typed errors for wallet, RPC, relayer and contract failures. decodeError turns whatever ethers,
+// an injected wallet or the relayer SDK threw into an InteractionError with a message the user can
+// act on, a retry hint, and the decoded revert reason or custom error when the contract rejected it.
+import { ethers } from "ethers";
+import abiJson from "./abi/UniversalAdapter.json";
+import federatedAbiJson from "./abi/FederatedAnomalyFHE.json";
+
+export type ErrorKind =
+  | "user_rejected"       // Declined in the wallet
+  | "wallet_unavailable"  // No wallet, locked, or not authorized for this site
+  | "wrong_network"
+  | "request_pending"     // The wallet already shows a request waiting for approval
+  | "insufficient_funds"
+  | "nonce"               // Replaced, underpriced or out of order transaction
+  | "revert"              // The contract rejected the call
+  | "network"             // RPC unreachable, timed out or answering garbage
+  | "relayer"             // FHE relayer or mock engine failed
+  | "invalid_input"
+  | "unknown";
+
+interface ErrorDetails {
+  hint?: string;
+  retryable?: boolean;
+  reason?: string;        // Revert reason string or custom error name
+  cause?: unknown;
+}
+
+export class InteractionError extends Error {
+  readonly kind: ErrorKind;
+  readonly hint?: string;
+  readonly retryable: boolean;
+  readonly reason?: string;
+
+  constructor(kind: ErrorKind, message: string, details: ErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.name = "InteractionError";
+    this.kind = kind;
+    this.hint = details.hint;
+    this.retryable = details.retryable ?? false;
+    this.reason = details.reason;
+  }
+}
+
+// EIP-1193 and EIP-1474 codes returned by injected wallets
+export const WALLET_ERROR_CODES = {
+  userRejected: 4001,
+  unauthorized: 4100,
+  unsupportedMethod: 4200,
+  disconnected: 4900,
+  chainDisconnected: 4901,
+  unrecognizedChain: 4902,
+  requestPending: -32002
+} as const;
+
+const DEFAULTS: Record<ErrorKind, { message: string; hint?: string; retryable: boolean }> = {
+  user_rejected: { message: "Request rejected in your wallet", hint: "Submit again and approve it in your wallet to continue", retryable: true },
+  wallet_unavailable: { message: "Wallet is not available", hint: "Unlock your wallet, connect it to this site and try again", retryable: true },
+  wrong_network: { message: "Wallet is connected to a different network", hint: "Switch networks in your wallet or reconnect through the wallet selector", retryable: true },
+  request_pending: { message: "Your wallet already has a request waiting", hint: "Open your wallet and approve or reject the pending request first", retryable: true },
+  insufficient_funds: { message: "Not enough funds to pay for gas", hint: "Top up the connected account and try again", retryable: true },
+  nonce: { message: "Transaction conflicts with another pending transaction", hint: "Wait for earlier transactions to confirm, or reset the account's pending transactions in your wallet", retryable: true },
+  revert: { message: "The contract rejected the transaction", hint: "Refresh, the on-chain state may have changed since the page loaded", retryable: false },
+  network: { message: "Could not reach the network", hint: "Check your connection and try again, other RPC endpoints are tried automatically", retryable: true },
+  relayer: { message: "The FHE relayer could not process the request", hint: "The relayer may be busy or restarting, try again in a moment", retryable: true },
+  invalid_input: { message: "Invalid input", retryable: false },
+  unknown: { message: "Unexpected error", retryable: false }
+};
+
+// Custom errors declared in the ABIs, mostly raised by the FHE library while checking decryption proofs
+const CUSTOM_ERRORS: Record<string, { message: string; hint: string; retryable: boolean }> = {
+  InvalidKMSSignatures: {
+    message: "The decryption proof was not signed by the KMS",
+    hint: "The oracle answer was rejected, request the disclosure again",
+    retryable: true
+  },
+  NoHandleFoundForRequestID: {
+    message: "No pending decryption matches this request",
+    hint: "The request was already settled or has expired, refresh and re-request the disclosure",
+    retryable: false
+  },
+  HandlesAlreadySavedForRequestID: {
+    message: "This decryption request was already registered",
+    hint: "Refresh to see the current state of the request",
+    retryable: false
+  }
+};
+
+// What the user can do about the contract's require messages; unlisted ones are shown verbatim
+const REVERT_HINTS: Record<string, string> = {
+  "Only admin": "Only the registry admin can do this, connect the admin account",
+  "Not registered": "Register your organization as a participant first",
+  "Participant not active": "Your organization must be approved as an active participant first",
+  "Already registered": "This account already has a participant entry",
+  "Not auditor": "That account is not an auditor, add it as an auditor first",
+  "Not authorized for batch": "Only the active organization that submitted the batch, or the admin, can score it",
+  "Disclosure pending": "Wait for the decryption oracle to answer, or expire the pending request once it timed out",
+  "Request not expired": "Pending requests can only be expired after their deadline",
+  "Result not computed": "Score the batch before requesting its disclosure",
+  "No active round": "Start a training round first",
+  "Round already active": "Close or abort the current round first",
+  "Round deadline passed": "Close the round and start a new one",
+  "Round still open": "Only the admin can close a round before its deadline, otherwise wait for the deadline",
+  "Quorum not reached": "Wait for more participants to contribute, or abort the round",
+  "Already contributed": "Each participant submits one update per round",
+  "Reporter cannot review": "Another participant has to review your report",
+  "Already reviewed": "Each participant votes once per review",
+  "Review closed": "The review is settled, reopen it to vote again",
+  "Anomaly key taken": "Submit again to generate a new anomaly id"
+};
+
+const errorInterface = new ethers.Interface(
+  [...((abiJson as any).abi || abiJson), ...((federatedAbiJson as any).abi || federatedAbiJson)]
+    .filter((fragment: { type: string }) => fragment.type === "error")
+);
+
+// Wallets and ethers nest the original RPC error at varying depths
+const unwrap = (error: unknown): any[] => {
+  const chain: any[] = [];
+  const queue = [error];
+  while (queue.length > 0 && chain.length < 10) {
+    const current = queue.shift();
+    if (!current || typeof current !== "object" || chain.includes(current)) continue;
+    chain.push(current);
+    const e = current as any;
+    queue.push(e.error, e.info?.error, e.cause, e.data);
+  }
+  return chain;
+};
+
+const findRevertData = (chain: any[]): string | undefined => {
+  for (const e of chain) {
+    for (const data of [e.data, e.data?.data, e.revertData]) {
+      if (typeof data === "string" && ethers.isHexString(data) && data.length >= 10) return data;
+    }
+  }
+  return undefined;
+};
+
+const decodeRevert = (chain: any[], cause: unknown): InteractionError => {
+  const data = findRevertData(chain);
+  let parsed: ethers.ErrorDescription | null = null;
+  if (data) {
+    try {
+      parsed = errorInterface.parseError(data);
+    } catch {
+      // Unknown selector, fall back to what ethers decoded
+    }
+  }
+  const head = chain[0] ?? {};
+  const name = parsed?.name ?? head.revert?.name;
+  const args = parsed?.args ?? head.revert?.args;
+
+  if (name === "Error" || (!name && head.reason)) {
+    const reason = String(name === "Error" ? args[0] : head.reason);
+    return new InteractionError("revert", `The contract rejected the transaction: ${reason}`, {
+      hint: REVERT_HINTS[reason] ?? DEFAULTS.revert.hint,
+      reason,
+      cause
+    });
+  }
+  if (name === "Panic") {
+    return new InteractionError("revert", `The contract panicked with code ${ethers.toQuantity(args[0])}`, { reason: name, cause });
+  }
+  if (name && CUSTOM_ERRORS[name]) {
+    return new InteractionError("revert", CUSTOM_ERRORS[name].message, { ...CUSTOM_ERRORS[name], reason: name, cause });
+  }
+  if (name) {
+    return new InteractionError("revert", `The contract rejected the transaction with ${name}`, { hint: DEFAULTS.revert.hint, reason: name, cause });
+  }
+  // Mined and reverted, or a node that does not return revert data
+  const message = head.receipt ? "The transaction reverted on-chain" : DEFAULTS.revert.message;
+  return new InteractionError("revert", message, { hint: DEFAULTS.revert.hint, cause });
+};
+
+const fromKind = (kind: ErrorKind, cause: unknown, message = DEFAULTS[kind].message) =>
+  new InteractionError(kind, message, { hint: DEFAULTS[kind].hint, retryable: DEFAULTS[kind].retryable, cause });
+
+// fallback is the kind of errors nothing more specific is known about, e.g. "relayer" around SDK calls
+export function decodeError(error: unknown, fallback: ErrorKind = "unknown"): InteractionError {
+  if (error instanceof InteractionError) return error;
+
+  const chain = unwrap(error);
+  const codes = chain.map(e => e.code);
+  const messages = chain.map(e => String(e.shortMessage ?? e.message ?? "")).join("\n").toLowerCase();
+
+  if (codes.includes("ACTION_REJECTED") || codes.includes(WALLET_ERROR_CODES.userRejected) || /user (rejected|denied)/.test(messages)) {
+    return fromKind("user_rejected", error);
+  }
+  if (codes.includes(WALLET_ERROR_CODES.requestPending)) return fromKind("request_pending", error);
+  if (codes.includes(WALLET_ERROR_CODES.unrecognizedChain) || codes.includes(WALLET_ERROR_CODES.chainDisconnected) || /network changed/.test(messages)) {
+    return fromKind("wrong_network", error);
+  }
+  if ([WALLET_ERROR_CODES.unauthorized, WALLET_ERROR_CODES.unsupportedMethod, WALLET_ERROR_CODES.disconnected].some(code => codes.includes(code))) {
+    return fromKind("wallet_unavailable", error);
+  }
+  if (codes.includes("INSUFFICIENT_FUNDS") || /insufficient funds/.test(messages)) return fromKind("insufficient_funds", error);
+  if (["NONCE_EXPIRED", "REPLACEMENT_UNDERPRICED", "TRANSACTION_REPLACED"].some(code => codes.includes(code)) || /nonce too (low|high)/.test(messages)) {
+    return fromKind("nonce", error);
+  }
+  if (codes.includes("CALL_EXCEPTION") || findRevertData(chain) || /execution reverted/.test(messages)) {
+    return decodeRevert(chain, error);
+  }
+  if (["NETWORK_ERROR", "TIMEOUT", "SERVER_ERROR", "BAD_DATA"].some(code => codes.includes(code)) || /failed to fetch|all rpc endpoints failed/.test(messages)) {
+    return fromKind("network", error);
+  }
+
+  const original: string = chain[0]?.shortMessage ?? chain[0]?.message ?? (typeof error === "string" ? error : "");
+  if (!original) return fromKind(fallback, error);
+  return fromKind(fallback, error, fallback === "unknown" ? original : `${DEFAULTS[fallback].message} (${original})`);
+}
+
+// One line for status banners and alerts: "<action>: <message>. <hint>"
+export function describeError(error: unknown, action?: string): string {
+  const decoded = decodeError(error);
+  const message = action ? `${action}: ${decoded.message}` : decoded.message;
+  return decoded.hint ? `${message}. ${decoded.hint}` : message;
+}
@@ -0,0 +1,153 @@
+// fhe.ts
+import { initSDK, createInstance, FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { ethers } from "ethers";
+import { config, FeatureSchema } from "./contract";
+import { InteractionError, decodeError } from "./errors";
+import { activeNetwork } from "./networks";
+
+export interface EncryptedBatchInputs {
+  featureHandles: string[];
+  labelHandle: string;
+  inputProof: string;
+}
+
+// Gateway contracts the Hardhat fhevm plugin signs mock decryptions and input proofs for
+const MOCK_DECRYPTION_ADDRESS = "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64";
+const MOCK_INPUT_VERIFICATION_ADDRESS = "0x812b06e1CDCE800494b79fFE4f925A504a9A9810";
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+// Failures of the relayer (or the mock node standing in for it) that are not wallet or RPC errors
+const viaRelayer = <T>(request: Promise<T>): Promise<T> =>
+  request.catch(error => { throw decodeError(error, "relayer"); });
+
+// The mock node reports its fhevm contract addresses through a custom RPC method
+async function createMockInstance(rpcUrl: string): Promise<FhevmInstance> {
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const metadata = await provider.send("fhevm_relayer_metadata", []);
+  // Loaded on demand so relayer networks never ship the mock engine
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  const instance = await MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    chainId: metadata.chainId,
+    gatewayChainId: metadata.gatewayChainId,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressDecryption: MOCK_DECRYPTION_ADDRESS,
+    verifyingContractAddressInputVerification: MOCK_INPUT_VERIFICATION_ADDRESS
+  });
+  return instance as unknown as FhevmInstance;
+}
+
+export function getFhevmInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    const fhevm = activeNetwork.fhevm;
+    instancePromise = viaRelayer(fhevm === "mock"
+      ? createMockInstance(activeNetwork.rpcUrls[0])
+      : (async () => {
+          await initSDK();
+          return createInstance({
+            ...fhevm,
+            chainId: activeNetwork.chainId,
+            network: (window as any).ethereum || config.network
+          });
+        })());
+    // Allow a retry after a failed relayer or wasm bootstrap
+    instancePromise.catch(() => { instancePromise = null; });
+  }
+  return instancePromise;
+}
+
+export function parseDataPoints(input: string, schema: FeatureSchema): bigint[] {
+  const tokens = input.split(/[\s,;]+/).filter(t => t.length > 0);
+  if (tokens.length !== schema.dimension) {
+    throw new InteractionError("invalid_input", `Expected ${schema.dimension} data points, got ${tokens.length}`);
+  }
+
+  const max = (1n << BigInt(schema.bitWidth)) - 1n;
+  return tokens.map(token => {
+    if (!/^\d+$/.test(token)) {
+      throw new InteractionError("invalid_input", `Invalid data point "${token}": expected an unsigned integer`);
+    }
+    const value = BigInt(token);
+    if (value > max) {
+      throw new InteractionError("invalid_input", `Data point ${token} does not fit in euint${schema.bitWidth}`);
+    }
+    return value;
+  });
+}
+
+// Re-encrypts a result under a throwaway keypair; the relayer only serves handles the ACL allows for the signer
+export async function userDecryptResult(
+  contractAddress: string,
+  signer: ethers.Signer,
+  scoreHandle: string,
+  verdictHandle: string
+): Promise<{ score: number; isAnomaly: boolean }> {
+  const instance = await getFhevmInstance();
+  const keypair = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const durationDays = 1;
+  
+  const eip712 = instance.createEIP712(keypair.publicKey, [contractAddress], startTimestamp, durationDays);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+  
+  const results = await viaRelayer(instance.userDecrypt(
+    [
+      { handle: scoreHandle, contractAddress },
+      { handle: verdictHandle, contractAddress }
+    ],
+    keypair.privateKey,
+    keypair.publicKey,
+    signature.replace("0x", ""),
+    [contractAddress],
+    await signer.getAddress(),
+    startTimestamp,
+    durationDays
+  ));
+  return {
+    score: Number(results[scoreHandle]),
+    isAnomaly: results[verdictHandle] === true
+  };
+}
+
+export async function encryptThreshold(
+  contractAddress: string,
+  userAddress: string,
+  threshold: bigint
+): Promise<{ handle: string; inputProof: string }> {
+  const instance = await getFhevmInstance();
+  const { handles, inputProof } = await viaRelayer(instance
+    .createEncryptedInput(contractAddress, userAddress)
+    .add64(threshold)
+    .encrypt());
+  return {
+    handle: ethers.hexlify(handles[0]),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+export async function encryptFeatureBatch(
+  contractAddress: string,
+  userAddress: string,
+  schema: FeatureSchema,
+  features: bigint[],
+  label: number
+): Promise<EncryptedBatchInputs> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  features.forEach(feature => schema.bitWidth === 64 ? input.add64(feature) : input.add32(feature));
+  input.add32(label);
+
+  const { handles, inputProof } = await viaRelayer(input.encrypt());
+  const hexHandles = handles.map(handle => ethers.hexlify(handle));
+  return {
+    featureHandles: hexHandles.slice(0, features.length),
+    labelHandle: hexHandles[features.length],
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
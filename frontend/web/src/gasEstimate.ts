@@ -0,0 +1,82 @@
+// gasEstimate.ts
+// Pre-flight cost preview: estimates the gas of each call a user action is about to send, prices it
+// at the current fee data, and flags calls whose on-chain payload makes them unusually expensive.
+import { ethers } from "ethers";
+import { decodeError } from "./errors";
+
+export interface PlannedCall {
+  label: string;
+  build: () => Promise<ethers.TransactionRequest>;
+  payloadBytes?: number;       // Bytes the call writes to storage, which dominate its cost
+}
+
+export interface CallEstimate {
+  label: string;
+  gas: bigint | null;          // null when the estimate failed, see error
+  fee: bigint | null;          // At the current gas price
+  maxFee: bigint | null;       // At maxFeePerGas, the most the wallet will let it cost
+  calldataBytes: number;
+  warnings: string[];
+  error?: string;
+}
+
+export interface CostPreview {
+  calls: CallEstimate[];
+  totalFee: bigint;
+  totalMaxFee: bigint;
+  gasPrice: bigint;
+  complete: boolean;           // Every call could be estimated
+}
+
+// Fresh storage costs about 20k gas per 32 byte word, so records past this size make a report
+// several times more expensive than the encrypted batch it carries
+export const LARGE_PAYLOAD_BYTES = 1024;
+// Well above any single registry call with a reasonably sized record
+export const HIGH_GAS = 3_000_000n;
+
+const WORD_STORAGE_GAS = 20_000;
+
+export async function estimateCalls(provider: ethers.Provider, from: string, calls: PlannedCall[]): Promise<CostPreview> {
+  const feeData = await provider.getFeeData();
+  const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n;
+  const maxFeePerGas = feeData.maxFeePerGas ?? gasPrice;
+
+  const estimates: CallEstimate[] = [];
+  for (const call of calls) {
+    const warnings: string[] = [];
+    if (call.payloadBytes !== undefined && call.payloadBytes > LARGE_PAYLOAD_BYTES) {
+      const words = Math.ceil(call.payloadBytes / 32);
+      warnings.push(
+        `Stores ${(call.payloadBytes / 1024).toFixed(1)} KB on-chain, about ${(words * WORD_STORAGE_GAS).toLocaleString()} gas for storage alone`
+      );
+    }
+
+    let calldataBytes = 0;
+    try {
+      const request = await call.build();
+      calldataBytes = request.data ? ethers.dataLength(request.data) : 0;
+      const gas = await provider.estimateGas({ ...request, from });
+      if (gas > HIGH_GAS) {
+        warnings.push(`Needs ${gas.toLocaleString()} gas, far more than a typical call`);
+      }
+      estimates.push({ label: call.label, gas, fee: gas * gasPrice, maxFee: gas * maxFeePerGas, calldataBytes, warnings });
+    } catch (e) {
+      estimates.push({ label: call.label, gas: null, fee: null, maxFee: null, calldataBytes, warnings, error: decodeError(e).message });
+    }
+  }
+
+  return {
+    calls: estimates,
+    totalFee: estimates.reduce((sum, estimate) => sum + (estimate.fee ?? 0n), 0n),
+    totalMaxFee: estimates.reduce((sum, estimate) => sum + (estimate.maxFee ?? 0n), 0n),
+    gasPrice,
+    complete: estimates.every(estimate => estimate.gas !== null)
+  };
+}
+
+// "0.000123 ETH", rounded to significant digits rather than printing all 18 decimals
+export function formatFee(wei: bigint, symbol: string): string {
+  const value = Number(ethers.formatEther(wei));
+  const formatted = value === 0 ? "0" : value < 0.000001 ? "<0.000001" : Number(value.toPrecision(3)).toString();
+  return `${formatted} ${symbol}`;
+}
@@ -0,0 +1,439 @@
+// indexer.ts
+// Replays contract events into IndexedDB so the dashboard reads a local index instead of
+// issuing one RPC call per stored key. Each source is caught up incrementally from its
+// cursor, and block hashes of recent checkpoints are kept to detect and unwind reorgs.
+import { ethers } from "ethers";
+import { ABI, ANOMALY_REVIEW_STATUSES, AnomalyReviewStatus, FEDERATED_ABI, config, getTestnetProvider } from "./contract";
+import { missingDeployBlockWarning, scanStartBlock } from "./networks";
+
+const DB_NAME = "anomaly-index";
+const DB_VERSION = 1;
+// Block range per eth_getLogs call, kept under the usual provider limits
+const LOG_CHUNK_SIZE = 5000;
+// Checkpoints older than this many blocks are pruned; deeper reorgs force a full resync
+const REORG_DEPTH = 64;
+
+export interface IndexSource {
+  name: string;
+  address: string;
+  abi: ethers.InterfaceAbi;
+  startBlock: number | null;   // Deploy block, null indexes only recent blocks
+}
+
+export interface IndexedLog {
+  id: string;
+  source: string;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  txHash: string;
+  name: string;
+  args: Record<string, unknown>;
+  // Set for logs that write a record, the storage key they write
+  key?: string;
+}
+
+export interface StoredRecord {
+  source: string;
+  key: string;
+  value: string;
+  sender: string;
+  blockNumber: number;
+  logIndex: number;
+  // Registry id and encrypted batch the record was filed with, only known for registry records
+  anomalyId?: number;
+  batchId?: number;
+}
+
+export interface ReviewVote {
+  voter: string;
+  participantId: number;
+  confirm: boolean;
+  votedAt: number;
+}
+
+export interface AnomalyReview {
+  anomalyId: number;
+  status: AnomalyReviewStatus;
+  round: number;
+  // Votes of the current round only, earlier rounds were discarded by a reopen
+  votes: ReviewVote[];
+}
+
+export interface SyncReport {
+  source: string;
+  fromBlock: number;
+  toBlock: number;
+  logCount: number;
+  // Block the index was rolled back to when a reorg was detected
+  reorgAncestor?: number;
+}
+
+export interface IndexStatus {
+  source: string;
+  message: string;
+  // Reorgs and rebuilds, as opposed to catch-up progress
+  warning: boolean;
+}
+
+export type IndexStatusListener = (status: IndexStatus) => void;
+
+interface Cursor {
+  source: string;
+  lastBlock: number;
+}
+
+interface Checkpoint {
+  source: string;
+  number: number;
+  hash: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const inFlight = new Map<string, Promise<SyncReport>>();
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new Error("Index transaction aborted"));
+});
+
+const openIndex = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore("cursors", { keyPath: "source" });
+        db.createObjectStore("checkpoints", { keyPath: ["source", "number"] });
+        const logs = db.createObjectStore("logs", { keyPath: "id" });
+        logs.createIndex("byBlock", ["source", "blockNumber"]);
+        logs.createIndex("byKey", ["source", "key"]);
+        db.createObjectStore("records", { keyPath: ["source", "key"] });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Sources are keyed by chain and address so a redeployment starts a fresh index
+export const sourceKey = (chainId: bigint | number, address: string) => `${chainId}:${address.toLowerCase()}`;
+
+const blocksAfter = (source: string, block: number) => IDBKeyRange.bound([source, block + 1], [source, Infinity]);
+
+const serializeArg = (value: unknown): unknown => {
+  if (typeof value === "bigint") return value.toString();
+  if (Array.isArray(value)) return value.map(serializeArg);
+  return value;
+};
+
+const isNewer = (a: { blockNumber: number; logIndex: number }, b: { blockNumber: number; logIndex: number }) =>
+  a.blockNumber > b.blockNumber || (a.blockNumber === b.blockNumber && a.logIndex > b.logIndex);
+
+// Events that write a record: adapter writes keep their raw key, registry reports share the
+// adapter's anomaly_<key> namespace so migrated records supersede their legacy copies
+const RECORD_EVENTS: Record<string, (args: Record<string, unknown>) => { key: string; value: unknown; sender: unknown }> = {
+  DataStored: args => ({ key: args.key as string, value: args.value, sender: args.sender }),
+  AnomalyAppended: args => ({ key: `anomaly_${args.key}`, value: args.record, sender: args.reporter }),
+  AnomalyRecordUpdated: args => ({ key: `anomaly_${args.key}`, value: args.record, sender: args.updatedBy })
+};
+
+const toRecord = (log: IndexedLog): StoredRecord => {
+  const { value, sender } = RECORD_EVENTS[log.name](log.args);
+  const record: StoredRecord = {
+    source: log.source,
+    key: log.key!,
+    value: value as string,
+    sender: sender as string,
+    blockNumber: log.blockNumber,
+    logIndex: log.logIndex
+  };
+  if (log.name === "AnomalyAppended") {
+    record.anomalyId = Number(log.args.anomalyId);
+    record.batchId = Number(log.args.batchId);
+  }
+  return record;
+};
+
+// Later writes replace the value but keep fields only the first write carried
+const mergeRecord = (existing: StoredRecord | undefined | null, log: IndexedLog) =>
+  existing ? { ...existing, ...toRecord(log) } : toRecord(log);
+
+const decodeLogs = (source: string, iface: ethers.Interface, logs: ethers.Log[]): IndexedLog[] => {
+  const decoded: IndexedLog[] = [];
+  for (const log of logs) {
+    const parsed = iface.parseLog(log);
+    if (!parsed) continue;
+
+    const args: Record<string, unknown> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      args[input.name] = serializeArg(parsed.args[i]);
+    });
+    decoded.push({
+      id: `${source}:${log.blockNumber}:${log.index}`,
+      source,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      logIndex: log.index,
+      txHash: log.transactionHash,
+      name: parsed.name,
+      args,
+      key: RECORD_EVENTS[parsed.name]?.(args).key
+    });
+  }
+  return decoded;
+};
+
+// Returns the newest checkpoint still on the canonical chain, or null if none survived
+const findCommonAncestor = async (provider: ethers.Provider, checkpoints: Checkpoint[]) => {
+  for (const checkpoint of [...checkpoints].sort((a, b) => b.number - a.number)) {
+    const block = await provider.getBlock(checkpoint.number);
+    if (block?.hash === checkpoint.hash) return checkpoint.number;
+  }
+  return null;
+};
+
+// Drops everything above `ancestor` and recomputes the records those logs had written
+const rollback = async (source: string, ancestor: number) => {
+  const db = await openIndex();
+  const tx = db.transaction(["cursors", "checkpoints", "logs", "records"], "readwrite");
+  const logs = tx.objectStore("logs");
+  const records = tx.objectStore("records");
+
+  const orphaned = await promisify(logs.index("byBlock").getAll(blocksAfter(source, ancestor)) as IDBRequest<IndexedLog[]>);
+  for (const log of orphaned) {
+    logs.delete(log.id);
+  }
+  tx.objectStore("checkpoints").delete(blocksAfter(source, ancestor));
+
+  const affectedKeys = new Set(orphaned.filter(log => log.key !== undefined).map(log => log.key!));
+  for (const key of affectedKeys) {
+    const remaining = (await promisify(logs.index("byKey").getAll([source, key]) as IDBRequest<IndexedLog[]>))
+      .filter(log => log.blockNumber <= ancestor)
+      .sort((a, b) => (isNewer(a, b) ? 1 : -1));
+    const rebuilt = remaining.reduce<StoredRecord | null>((record, log) => mergeRecord(record, log), null);
+    if (rebuilt) {
+      records.put(rebuilt);
+    } else {
+      records.delete([source, key]);
+    }
+  }
+
+  tx.objectStore("cursors").put({ source, lastBlock: ancestor });
+  await transactionDone(tx);
+};
+
+const resetSource = async (source: string) => {
+  const db = await openIndex();
+  const tx = db.transaction(["cursors", "checkpoints", "logs", "records"], "readwrite");
+  const everything = IDBKeyRange.bound([source, -Infinity], [source, Infinity]);
+  const logs = tx.objectStore("logs");
+  const keys = await promisify(logs.index("byBlock").getAllKeys(everything));
+  keys.forEach(key => logs.delete(key));
+  tx.objectStore("checkpoints").delete(everything);
+  tx.objectStore("records").delete(IDBKeyRange.bound([source, ""], [source, []]));
+  tx.objectStore("cursors").delete(source);
+  await transactionDone(tx);
+};
+
+const applyChunk = async (source: string, logs: IndexedLog[], toBlock: number, toBlockHash: string) => {
+  const db = await openIndex();
+  const tx = db.transaction(["cursors", "checkpoints", "logs", "records"], "readwrite");
+  const records = tx.objectStore("records");
+  const checkpoints = tx.objectStore("checkpoints");
+
+  for (const log of logs) {
+    tx.objectStore("logs").put(log);
+    if (log.key === undefined) continue;
+
+    const existing = await promisify(records.get([source, log.key]) as IDBRequest<StoredRecord | undefined>);
+    if (!existing || isNewer(log, existing)) {
+      records.put(mergeRecord(existing, log));
+    }
+  }
+
+  for (const log of logs) {
+    checkpoints.put({ source, number: log.blockNumber, hash: log.blockHash });
+  }
+  checkpoints.put({ source, number: toBlock, hash: toBlockHash });
+  checkpoints.delete(IDBKeyRange.bound([source, -Infinity], [source, toBlock - REORG_DEPTH], false, true));
+
+  tx.objectStore("cursors").put({ source, lastBlock: toBlock });
+  await transactionDone(tx);
+};
+
+const catchUp = async (provider: ethers.Provider, source: IndexSource, onStatus: IndexStatusListener): Promise<SyncReport> => {
+  const { chainId } = await provider.getNetwork();
+  const key = sourceKey(chainId, source.address);
+  const iface = new ethers.Interface(source.abi);
+  const db = await openIndex();
+
+  const readTx = db.transaction(["cursors", "checkpoints"], "readonly");
+  const cursor = await promisify(readTx.objectStore("cursors").get(key) as IDBRequest<Cursor | undefined>);
+  const checkpoints = await promisify(
+    readTx.objectStore("checkpoints").getAll(IDBKeyRange.bound([key, -Infinity], [key, Infinity])) as IDBRequest<Checkpoint[]>
+  );
+
+  const startBlock = await scanStartBlock(source.startBlock, provider);
+  let lastBlock = cursor ? cursor.lastBlock : startBlock - 1;
+  let reorgAncestor: number | undefined;
+
+  if (cursor && checkpoints.length > 0) {
+    const ancestor = await findCommonAncestor(provider, checkpoints);
+    if (ancestor === null) {
+      onStatus({
+        source: source.name,
+        message: `Reorg deeper than ${REORG_DEPTH} blocks on ${source.name}, rebuilding its index`,
+        warning: true
+      });
+      await resetSource(key);
+      lastBlock = startBlock - 1;
+      reorgAncestor = lastBlock;
+    } else if (ancestor < cursor.lastBlock) {
+      onStatus({ source: source.name, message: `Reorg on ${source.name}, rolled back to block ${ancestor}`, warning: true });
+      await rollback(key, ancestor);
+      lastBlock = ancestor;
+      reorgAncestor = ancestor;
+    }
+  }
+
+  const head = await provider.getBlockNumber();
+  const fromBlock = lastBlock + 1;
+  let logCount = 0;
+
+  for (let start = fromBlock; start <= head; start += LOG_CHUNK_SIZE) {
+    const end = Math.min(start + LOG_CHUNK_SIZE - 1, head);
+    const [rawLogs, endBlock] = await Promise.all([
+      provider.getLogs({ address: source.address, fromBlock: start, toBlock: end }),
+      provider.getBlock(end)
+    ]);
+    if (!endBlock?.hash) {
+      throw new Error(`Block ${end} unavailable while indexing ${source.name}`);
+    }
+
+    const logs = decodeLogs(key, iface, rawLogs);
+    await applyChunk(key, logs, end, endBlock.hash);
+    logCount += logs.length;
+    if (end < head) {
+      onStatus({ source: source.name, message: `Indexing ${source.name}: block ${end} of ${head}`, warning: false });
+    }
+  }
+
+  // Reported last so catch-up progress does not replace it
+  if (source.startBlock === null) {
+    onStatus({ source: source.name, message: missingDeployBlockWarning(source.name), warning: true });
+  }
+
+  return { source: key, fromBlock, toBlock: head, logCount, reorgAncestor };
+};
+
+// Concurrent callers for the same source share one catch-up run; only the caller that started it gets its status
+export const syncSource = (
+  provider: ethers.Provider,
+  source: IndexSource,
+  onStatus: IndexStatusListener = () => {}
+): Promise<SyncReport> => {
+  const pending = inFlight.get(source.address);
+  if (pending) return pending;
+
+  const run = catchUp(provider, source, onStatus).finally(() => inFlight.delete(source.address));
+  inFlight.set(source.address, run);
+  return run;
+};
+
+export const indexSources = (): IndexSource[] => {
+  const sources: IndexSource[] = [
+    { name: "UniversalAdapter", address: config.contractAddress, abi: ABI, startBlock: config.contractDeployBlock }
+  ];
+  if (config.federatedAnomalyAddress !== ethers.ZeroAddress) {
+    sources.push({
+      name: "FederatedAnomalyFHE",
+      address: config.federatedAnomalyAddress,
+      abi: FEDERATED_ABI,
+      startBlock: config.federatedAnomalyDeployBlock
+    });
+  }
+  return sources;
+};
+
+export async function syncIndex(onStatus?: IndexStatusListener): Promise<SyncReport[]> {
+  const provider = await getTestnetProvider();
+  const reports: SyncReport[] = [];
+  for (const source of indexSources()) {
+    reports.push(await syncSource(provider, source, onStatus));
+  }
+  return reports;
+}
+
+export async function getStoredRecords(source: string, prefix = ""): Promise<StoredRecord[]> {
+  const db = await openIndex();
+  const tx = db.transaction("records", "readonly");
+  const range = IDBKeyRange.bound([source, prefix], [source, prefix + "\uffff"]);
+  return promisify(tx.objectStore("records").getAll(range) as IDBRequest<StoredRecord[]>);
+}
+
+export async function getIndexedLogs(source: string, eventName?: string): Promise<IndexedLog[]> {
+  const db = await openIndex();
+  const tx = db.transaction("logs", "readonly");
+  const range = IDBKeyRange.bound([source, -Infinity], [source, Infinity]);
+  const logs = await promisify(tx.objectStore("logs").index("byBlock").getAll(range) as IDBRequest<IndexedLog[]>);
+  return eventName ? logs.filter(log => log.name === eventName) : logs;
+}
+
+// Folds status changes and votes, in log order, into the current review of each anomaly
+const foldReviews = (logs: IndexedLog[]) => {
+  const reviews = new Map<number, AnomalyReview>();
+  for (const log of [...logs].sort((a, b) => (isNewer(a, b) ? 1 : -1))) {
+    const anomalyId = Number(log.args.anomalyId);
+    if (log.name === "AnomalyStatusChanged") {
+      const round = Number(log.args.round);
+      const previous = reviews.get(anomalyId);
+      reviews.set(anomalyId, {
+        anomalyId,
+        status: ANOMALY_REVIEW_STATUSES[Number(log.args.status)],
+        round,
+        votes: previous && previous.round === round ? previous.votes : []
+      });
+    } else if (log.name === "ReviewVoteCast") {
+      const review = reviews.get(anomalyId);
+      if (!review || review.round !== Number(log.args.round)) continue;
+      review.votes.push({
+        voter: log.args.voter as string,
+        participantId: Number(log.args.participantId),
+        confirm: log.args.confirm as boolean,
+        votedAt: Number(log.args.timestamp)
+      });
+    }
+  }
+  return reviews;
+};
+
+// Catches both indexes up and returns the latest value of every anomaly_* key, preferring
+// the registry over legacy adapter records that were not migrated yet, with registry reviews by anomaly id
+export async function syncAnomalyRecords(onStatus?: IndexStatusListener): Promise<{
+  records: (StoredRecord & { registered: boolean })[];
+  reviews: Map<number, AnomalyReview>;
+}> {
+  const [adapter, registry] = await syncIndex(onStatus);
+  const legacy = (await getStoredRecords(adapter.source, "anomaly_")).map(record => ({ ...record, registered: false }));
+  if (!registry) return { records: legacy, reviews: new Map() };
+
+  const registered = (await getStoredRecords(registry.source, "anomaly_")).map(record => ({ ...record, registered: true }));
+  const registeredKeys = new Set(registered.map(record => record.key));
+  const reviewLogs = (await getIndexedLogs(registry.source))
+    .filter(log => log.name === "AnomalyStatusChanged" || log.name === "ReviewVoteCast");
+  return {
+    records: [...registered, ...legacy.filter(record => !registeredKeys.has(record.key))],
+    reviews: foldReviews(reviewLogs)
+  };
+}
@@ -0,0 +1,160 @@
+// networks.ts
+// Registry of the chains the frontend can run against. Built-in entries cover the local Hardhat
+// fhevm mock node and Sepolia; config.json adds deployments per chain id (written by
+// deploy/deploy.ts) and can describe any other fhevm-enabled chain in full.
+import configJson from "./config.json";
+
+export interface RelayerConfig {
+  relayerUrl: string;
+  gatewayChainId: number;
+  aclContractAddress: string;
+  kmsContractAddress: string;
+  inputVerifierContractAddress: string;
+  verifyingContractAddressDecryption: string;
+  verifyingContractAddressInputVerification: string;
+}
+
+export interface NetworkDeployment {
+  network: string;             // RPC URL the contracts were deployed through
+  contractAddress: string;     // UniversalAdapter
+  contractDeployBlock: number | null;          // null when unknown, see scanStartBlock
+  federatedAnomalyAddress: string;
+  federatedAnomalyDeployBlock: number | null;
+  deployer: string;
+}
+
+export interface NetworkConfig {
+  chainId: number;
+  name: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  rpcUrls: string[];
+  explorerUrl?: string;
+  // "mock" is a Hardhat node running the fhevm mock engine, which answers relayer calls itself
+  fhevm: "mock" | RelayerConfig;
+  deployment: NetworkDeployment;
+}
+
+type ConfiguredNetwork = Partial<NetworkDeployment> & Partial<Omit<NetworkConfig, "chainId" | "deployment">>;
+
+interface FrontendConfig {
+  defaultChainId: number;
+  networks: Record<string, ConfiguredNetwork>;
+}
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+const SELECTED_NETWORK_KEY = "selectedChainId";
+
+const BUILT_IN_NETWORKS: Omit<NetworkConfig, "deployment">[] = [
+  {
+    chainId: 31337,
+    name: "Hardhat (fhevm mock)",
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: ["http://127.0.0.1:8545"],
+    fhevm: "mock"
+  },
+  {
+    chainId: 11155111,
+    name: "Sepolia",
+    nativeCurrency: { name: "Sepolia Ether", symbol: "SEP", decimals: 18 },
+    rpcUrls: [
+      "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
+      "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
+      "https://rpc.sepolia.org",
+      "https://rpc2.sepolia.org",
+      "https://eth-sepolia.public.blastapi.io"
+    ],
+    explorerUrl: "https://sepolia.etherscan.io",
+    fhevm: {
+      relayerUrl: "https://relayer.testnet.zama.cloud",
+      gatewayChainId: 55815,
+      aclContractAddress: "0x687820221192C5B662b25367F70076A37bc79b6c",
+      kmsContractAddress: "0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC",
+      inputVerifierContractAddress: "0xbc91f3daD1A5F19F8390c400196e58073B6a0BC4",
+      verifyingContractAddressDecryption: "0xb6E160B1ff80D67Bfe90A85eE06Ce0A2613607D1",
+      verifyingContractAddressInputVerification: "0x7048C39f048125eDa9d678AEbaDfB22F7900a29F"
+    }
+  }
+];
+
+const frontendConfig = configJson as FrontendConfig;
+
+const toNetwork = (chainId: number, configured: ConfiguredNetwork = {}): NetworkConfig | null => {
+  const builtIn = BUILT_IN_NETWORKS.find(network => network.chainId === chainId);
+  const rpcUrls = configured.rpcUrls ?? builtIn?.rpcUrls ?? (configured.network ? [configured.network] : []);
+  const fhevm = configured.fhevm ?? builtIn?.fhevm;
+  // Unknown chains are only usable once config.json says how to reach them and their relayer
+  if (rpcUrls.length === 0 || !fhevm) return null;
+  // Only a local mock chain is short enough to scan from genesis
+  const unknownDeployBlock = fhevm === "mock" ? 0 : null;
+
+  return {
+    chainId,
+    name: configured.name ?? builtIn?.name ?? `Chain ${chainId}`,
+    nativeCurrency: configured.nativeCurrency ?? builtIn?.nativeCurrency ?? { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls,
+    explorerUrl: configured.explorerUrl ?? builtIn?.explorerUrl,
+    fhevm,
+    deployment: {
+      network: configured.network ?? rpcUrls[0],
+      contractAddress: configured.contractAddress ?? ZERO_ADDRESS,
+      contractDeployBlock: configured.contractDeployBlock ?? unknownDeployBlock,
+      federatedAnomalyAddress: configured.federatedAnomalyAddress ?? ZERO_ADDRESS,
+      federatedAnomalyDeployBlock: configured.federatedAnomalyDeployBlock ?? unknownDeployBlock,
+      deployer: configured.deployer ?? ZERO_ADDRESS
+    }
+  };
+};
+
+export const NETWORKS: NetworkConfig[] = [
+  ...new Set([...BUILT_IN_NETWORKS.map(network => network.chainId), ...Object.keys(frontendConfig.networks).map(Number)])
+]
+  .map(chainId => toNetwork(chainId, frontendConfig.networks[chainId]))
+  .filter((network): network is NetworkConfig => network !== null);
+
+export const getNetwork = (chainId: number) => NETWORKS.find(network => network.chainId === chainId);
+
+// A choice made in the UI wins over VITE_CHAIN_ID, which wins over the chain of the last deployment
+const selectNetwork = (): NetworkConfig => {
+  const candidates = [
+    typeof localStorage !== "undefined" ? localStorage.getItem(SELECTED_NETWORK_KEY) : null,
+    import.meta.env.VITE_CHAIN_ID,
+    frontendConfig.defaultChainId
+  ];
+  for (const candidate of candidates) {
+    const network = candidate ? getNetwork(Number(candidate)) : undefined;
+    if (network) return network;
+  }
+  return NETWORKS[0];
+};
+
+export const activeNetwork = selectNetwork();
+
+// Module level clients (providers, fhevm instance, event index) are bound to the active network,
+// so switching reloads the app
+export function switchNetwork(chainId: number) {
+  if (chainId === activeNetwork.chainId || !getNetwork(chainId)) return;
+  localStorage.setItem(SELECTED_NETWORK_KEY, String(chainId));
+  window.location.reload();
+}
+
+// Blocks scanned back from the head when a contract has no configured deploy block
+export const RECENT_BLOCK_WINDOW = 50_000;
+
+// Log scans start at the deploy block. Without one, scanning a public chain from genesis means
+// thousands of getLogs calls, so scans cover only the most recent RECENT_BLOCK_WINDOW blocks
+export async function scanStartBlock(block: number | null, provider: { getBlockNumber(): Promise<number> }): Promise<number> {
+  if (block !== null) return block;
+  return Math.max(0, (await provider.getBlockNumber()) - RECENT_BLOCK_WINDOW);
+}
+
+export const missingDeployBlockWarning = (contractName: string, network = activeNetwork) =>
+  `No deploy block configured for ${contractName} on ${network.name}, only its last ${RECENT_BLOCK_WINDOW} blocks are read. ` +
+  `Add it to config.json, e.g. with: npx hardhat --network <network> task:deploy-block --write`;
+
+export const isDeployed = (network: NetworkConfig) => network.deployment.contractAddress !== ZERO_ADDRESS;
+
+export const explorerTxUrl = (txHash: string, network = activeNetwork) =>
+  network.explorerUrl ? `${network.explorerUrl}/tx/${txHash}` : undefined;
+
+export const explorerAddressUrl = (address: string, network = activeNetwork) =>
+  network.explorerUrl ? `${network.explorerUrl}/address/${address}` : undefined;
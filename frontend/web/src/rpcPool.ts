@@ -0,0 +1,205 @@
+// rpcPool.ts
+// A persistent pool of JSON-RPC endpoints behind a single ethers provider. Every request goes to
+// the best scored endpoint and fails over to the next one when it errors or times out; failures
+// and latencies are remembered, optionally across page loads, and refreshed by background checks.
+// Free of browser globals so it can be exercised against local stand-in servers.
+import { ethers } from "ethers";
+
+export interface EndpointHealth {
+  url: string;
+  latencyMs: number | null;    // Moving average of successful requests, null until one succeeded
+  failures: number;            // Consecutive failures, reset by any success
+  cooldownUntil: number;       // Skipped until then (ms since epoch) unless every endpoint is cooling down
+  blockNumber: number | null;  // Head seen by the last health check
+  lastError?: string;
+  lastCheckedAt?: number;
+}
+
+// Minimal subset of the Web Storage API, so localStorage can be passed in the browser
+export interface HealthStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+export interface RpcPoolOptions {
+  requestTimeoutMs?: number;
+  healthCheckIntervalMs?: number;
+  baseCooldownMs?: number;
+  maxCooldownMs?: number;
+  maxBlockLag?: number;        // Endpoints further behind the best head are scored as unhealthy
+  storage?: HealthStorage;
+  storageKey?: string;
+}
+
+const DEFAULTS = {
+  requestTimeoutMs: 5000,
+  healthCheckIntervalMs: 30000,
+  baseCooldownMs: 5000,
+  maxCooldownMs: 5 * 60 * 1000,
+  maxBlockLag: 5
+};
+
+// Weight of the newest sample in the latency moving average
+const LATENCY_SMOOTHING = 0.3;
+// Score of an endpoint that never answered, so untried endpoints rank after known good ones
+const UNKNOWN_LATENCY_MS = 1000;
+const FAILURE_PENALTY_MS = 2000;
+
+export class RpcPool {
+  readonly provider: ethers.JsonRpcProvider;
+  readonly #endpoints: EndpointHealth[];
+  readonly #options: typeof DEFAULTS & Pick<RpcPoolOptions, "storage" | "storageKey">;
+  #timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(urls: string[], network: ethers.Networkish, options: RpcPoolOptions = {}) {
+    if (urls.length === 0) {
+      throw new Error("RPC pool needs at least one endpoint");
+    }
+    this.#options = { ...DEFAULTS, ...options };
+    const stored = this.#load();
+    this.#endpoints = urls.map(url => ({
+      url,
+      latencyMs: null,
+      failures: 0,
+      cooldownUntil: 0,
+      blockNumber: null,
+      ...stored[url]
+    }));
+
+    const pool = this;
+    const staticNetwork = ethers.Network.from(network);
+    // Event subscriptions poll with getLogs instead of installing filters, which only live on the
+    // endpoint that created them and would be lost on failover
+    this.provider = new (class extends ethers.JsonRpcProvider {
+      async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<ethers.JsonRpcResult[]> {
+        return pool.send(payload);
+      }
+    })(urls[0], staticNetwork, { staticNetwork, polling: true });
+  }
+
+  // Endpoints in the order requests try them
+  ranked(now = Date.now()): EndpointHealth[] {
+    const head = Math.max(0, ...this.#endpoints.map(e => e.blockNumber ?? 0));
+    const score = (endpoint: EndpointHealth) => {
+      const lagging = endpoint.blockNumber !== null && head - endpoint.blockNumber > this.#options.maxBlockLag;
+      return (endpoint.latencyMs ?? UNKNOWN_LATENCY_MS) + FAILURE_PENALTY_MS * (endpoint.failures + (lagging ? 1 : 0));
+    };
+    const available = this.#endpoints.filter(e => e.cooldownUntil <= now);
+    const cooling = this.#endpoints.filter(e => e.cooldownUntil > now);
+    return [
+      ...available.sort((a, b) => score(a) - score(b)),
+      ...cooling.sort((a, b) => a.cooldownUntil - b.cooldownUntil)
+    ];
+  }
+
+  health(): EndpointHealth[] {
+    return this.#endpoints.map(endpoint => ({ ...endpoint }));
+  }
+
+  async send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<ethers.JsonRpcResult[]> {
+    const errors: string[] = [];
+    for (const endpoint of this.ranked()) {
+      try {
+        return await this.#request(endpoint, payload);
+      } catch (e) {
+        errors.push(`${endpoint.url}: ${(e as Error).message}`);
+      }
+    }
+    throw new Error(`All RPC endpoints failed\n${errors.join("\n")}`);
+  }
+
+  // Probes every endpoint once; failing ones go into cooldown, answering ones report their head
+  async checkHealth(): Promise<void> {
+    const payload = { method: "eth_blockNumber", params: [], id: 1, jsonrpc: "2.0" as const };
+    await Promise.all(this.#endpoints.map(async endpoint => {
+      try {
+        const [response] = await this.#request(endpoint, payload);
+        if ("result" in response) {
+          endpoint.blockNumber = Number(response.result);
+        }
+      } catch {
+        // Already recorded
+      }
+      endpoint.lastCheckedAt = Date.now();
+    }));
+    this.#save();
+  }
+
+  start(): void {
+    if (this.#timer) return;
+    this.#timer = setInterval(() => { this.checkHealth(); }, this.#options.healthCheckIntervalMs);
+  }
+
+  stop(): void {
+    if (this.#timer) clearInterval(this.#timer);
+    this.#timer = null;
+  }
+
+  destroy(): void {
+    this.stop();
+    this.provider.destroy();
+  }
+
+  // JSON-RPC error responses (reverts, bad params) are answers, not endpoint failures
+  async #request(endpoint: EndpointHealth, payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]) {
+    const request = new ethers.FetchRequest(endpoint.url);
+    request.body = JSON.stringify(payload);
+    request.setHeader("content-type", "application/json");
+    request.timeout = this.#options.requestTimeoutMs;
+    // Fail over instead of waiting out a rate limited endpoint
+    request.setThrottleParams({ maxAttempts: 1 });
+
+    const startedAt = Date.now();
+    try {
+      const response = await request.send();
+      response.assertOk();
+      const body = response.bodyJson;
+      this.#recordSuccess(endpoint, Date.now() - startedAt);
+      return (Array.isArray(body) ? body : [body]) as ethers.JsonRpcResult[];
+    } catch (e) {
+      this.#recordFailure(endpoint, e as Error);
+      throw e;
+    }
+  }
+
+  #recordSuccess(endpoint: EndpointHealth, latencyMs: number) {
+    endpoint.latencyMs = endpoint.latencyMs === null
+      ? latencyMs
+      : Math.round(endpoint.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING);
+    if (endpoint.failures > 0 || endpoint.cooldownUntil > 0) {
+      endpoint.failures = 0;
+      endpoint.cooldownUntil = 0;
+      endpoint.lastError = undefined;
+      this.#save();
+    }
+  }
+
+  // Backs off exponentially so a dead endpoint costs one timeout per cooldown, not one per request
+  #recordFailure(endpoint: EndpointHealth, error: Error) {
+    endpoint.failures++;
+    endpoint.lastError = (error as { shortMessage?: string }).shortMessage ?? error.message;
+    const cooldown = Math.min(this.#options.baseCooldownMs * 2 ** (endpoint.failures - 1), this.#options.maxCooldownMs);
+    endpoint.cooldownUntil = Date.now() + cooldown;
+    this.#save();
+  }
+
+  #load(): Record<string, Partial<EndpointHealth>> {
+    const { storage, storageKey } = this.#options;
+    if (!storage || !storageKey) return {};
+    try {
+      return JSON.parse(storage.getItem(storageKey) ?? "{}");
+    } catch {
+      return {};
+    }
+  }
+
+  #save() {
+    const { storage, storageKey } = this.#options;
+    if (!storage || !storageKey) return;
+    const snapshot: Record<string, Partial<EndpointHealth>> = {};
+    for (const { url, latencyMs, failures, cooldownUntil, lastError } of this.#endpoints) {
+      snapshot[url] = { latencyMs, failures, cooldownUntil, lastError };
+    }
+    storage.setItem(storageKey, JSON.stringify(snapshot));
+  }
+}
@@ -0,0 +1,409 @@
+// txManager.ts
+// Sends every write through one queue that assigns nonces itself, follows each transaction to its
+// receipt, and can speed up or cancel a pending one by replacing it at the same nonce. Records are
+// persisted, so transactions still pending when the page closes are picked up again on reload.
+import { ethers } from "ethers";
+import { InteractionError, decodeError } from "./errors";
+
+export type TransactionState =
+  | "signing"     // Waiting for the wallet
+  | "pending"     // Broadcast, not yet confirmed
+  | "confirmed"
+  | "failed"      // Rejected before broadcast, or mined and reverted
+  | "cancelled"   // Our cancel replacement was mined instead
+  | "replaced";   // The nonce was used by a transaction sent outside this app
+
+export interface ManagedTransaction {
+  id: string;
+  label: string;
+  status: TransactionState;
+  from: string;
+  to: string;
+  data: string;
+  value: string;              // Amounts are decimal wei strings so records survive JSON
+  nonce: number | null;
+  gasLimit?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string;
+  hash?: string;              // Latest broadcast
+  hashes: string[];           // Every broadcast at this nonce, replacements included
+  cancelHash?: string;
+  confirmations: number;
+  blockNumber?: number;
+  submittedAt: number;
+  error?: string;
+}
+
+// Minimal subset of the Web Storage API, so localStorage can be passed in the browser
+export interface TransactionStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+export interface TransactionManagerOptions {
+  confirmations?: number;     // Blocks on top of the receipt before a transaction counts as confirmed
+  pollIntervalMs?: number;
+  storage?: TransactionStorage;
+  storageKey?: string;
+  historyLimit?: number;      // Settled transactions kept for display
+}
+
+const DEFAULTS = {
+  confirmations: 1,
+  pollIntervalMs: 4000,
+  historyLimit: 20
+};
+
+// Nodes only accept a replacement that raises both fee fields, most by at least 10%
+const FEE_BUMP_PERCENT = 125n;
+
+// Nonce and receipts may come from different endpoints at different heights, so a used nonce without
+// a receipt only means the transaction was replaced once this many polls in a row agree
+const REPLACED_AFTER_POLLS = 3;
+
+const SETTLED: TransactionState[] = ["confirmed", "failed", "cancelled", "replaced"];
+
+export const isSettled = (tx: ManagedTransaction) => SETTLED.includes(tx.status);
+
+type Listener = (transactions: ManagedTransaction[]) => void;
+
+interface Waiter {
+  resolve: (tx: ManagedTransaction) => void;
+  reject: (error: InteractionError) => void;
+}
+
+export class TransactionManager {
+  readonly #provider: ethers.Provider;
+  readonly #getSigner: () => Promise<ethers.Signer>;
+  readonly #options: typeof DEFAULTS & Pick<TransactionManagerOptions, "storage" | "storageKey">;
+  readonly #transactions: ManagedTransaction[];
+  readonly #listeners = new Set<Listener>();
+  readonly #waiters = new Map<string, Waiter[]>();
+  readonly #nonceUsedPolls = new Map<string, number>();
+  #queue: Promise<unknown> = Promise.resolve();
+  #timer: ReturnType<typeof setInterval> | null = null;
+  #polling = false;
+
+  // Receipts are read through provider, transactions are signed by whatever getSigner returns
+  constructor(provider: ethers.Provider, getSigner: () => Promise<ethers.Signer>, options: TransactionManagerOptions = {}) {
+    this.#provider = provider;
+    this.#getSigner = getSigner;
+    this.#options = { ...DEFAULTS, ...options };
+    // A transaction can not have been signed without the page that asked for the signature
+    this.#transactions = this.#load().map(tx => tx.status === "signing"
+      ? { ...tx, status: "failed", error: "Page closed before the transaction was signed" }
+      : tx);
+  }
+
+  list(): ManagedTransaction[] {
+    return this.#transactions.map(tx => ({ ...tx, hashes: [...tx.hashes] }));
+  }
+
+  get(id: string): ManagedTransaction | undefined {
+    return this.list().find(tx => tx.id === id);
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.#listeners.add(listener);
+    listener(this.list());
+    return () => { this.#listeners.delete(listener); };
+  }
+
+  // Resolves once the transaction has the configured confirmations, rejects with an InteractionError
+  // when it is rejected, reverts, or gets cancelled or replaced. onSubmitted sees the record before
+  // the wallet is asked to sign, so callers can follow it from the start.
+  submit(
+    label: string,
+    build: () => Promise<ethers.TransactionRequest>,
+    onSubmitted?: (tx: ManagedTransaction) => void
+  ): Promise<ManagedTransaction> {
+    const tx: ManagedTransaction = {
+      id: `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      label,
+      status: "signing",
+      from: "",
+      to: "",
+      data: "0x",
+      value: "0",
+      nonce: null,
+      hashes: [],
+      confirmations: 0,
+      submittedAt: Date.now()
+    };
+    this.#transactions.unshift(tx);
+    this.#changed();
+    onSubmitted?.({ ...tx });
+
+    const settled = this.wait(tx.id);
+    // Sends are serialized so each one sees the nonces handed out before it
+    this.#queue = this.#queue.then(() => this.#send(tx, build));
+    return settled;
+  }
+
+  wait(id: string): Promise<ManagedTransaction> {
+    const tx = this.#find(id);
+    if (isSettled(tx)) {
+      return tx.status === "confirmed" ? Promise.resolve({ ...tx }) : Promise.reject(this.#settlementError(tx));
+    }
+    return new Promise((resolve, reject) => {
+      this.#waiters.set(id, [...(this.#waiters.get(id) ?? []), { resolve, reject }]);
+    });
+  }
+
+  // Same call at the same nonce with higher fees
+  speedUp(id: string): Promise<void> {
+    const tx = this.#find(id);
+    return this.#replace(tx, {
+      to: tx.to,
+      data: tx.data,
+      value: BigInt(tx.value),
+      gasLimit: tx.gasLimit ? BigInt(tx.gasLimit) : undefined
+    }, false);
+  }
+
+  // An empty transfer to self at the same nonce, which voids the original once mined
+  cancel(id: string): Promise<void> {
+    const tx = this.#find(id);
+    return this.#replace(tx, { to: tx.from, data: "0x", value: 0n, gasLimit: 21000n }, true);
+  }
+
+  // Drops settled transactions from the list
+  clearSettled(): void {
+    const pending = this.#transactions.filter(tx => !isSettled(tx));
+    this.#transactions.splice(0, this.#transactions.length, ...pending);
+    this.#changed();
+  }
+
+  // Polls while anything is pending; called again whenever a transaction is broadcast
+  start(): void {
+    if (this.#timer || !this.#transactions.some(tx => tx.status === "pending")) return;
+    this.#timer = setInterval(() => { this.poll(); }, this.#options.pollIntervalMs);
+    this.poll();
+  }
+
+  stop(): void {
+    if (this.#timer) clearInterval(this.#timer);
+    this.#timer = null;
+  }
+
+  // Checks every broadcast of every pending transaction for a receipt
+  async poll(): Promise<void> {
+    const pending = this.#transactions.filter(tx => tx.status === "pending");
+    if (this.#polling || pending.length === 0) return;
+    this.#polling = true;
+    try {
+      const head = await this.#provider.getBlockNumber();
+      for (const tx of pending) {
+        await this.#check(tx, head);
+      }
+    } catch {
+      // Read failures are retried on the next poll
+    } finally {
+      this.#polling = false;
+    }
+  }
+
+  async #send(tx: ManagedTransaction, build: () => Promise<ethers.TransactionRequest>) {
+    try {
+      const signer = await this.#getSigner();
+      const request = await build();
+      tx.from = ethers.getAddress(await signer.getAddress());
+      tx.nonce = await this.#nextNonce(signer, tx.from);
+      this.#changed();
+
+      // Some wallets assign their own nonce regardless; the response says which one was used
+      const response = await signer.sendTransaction({ ...request, from: tx.from, nonce: tx.nonce });
+      Object.assign(tx, this.#broadcastFields(response), {
+        status: "pending",
+        to: response.to ?? "",
+        data: response.data,
+        value: response.value.toString(),
+        nonce: response.nonce
+      });
+      tx.hashes.push(response.hash);
+      this.#changed();
+      this.start();
+    } catch (e) {
+      this.#settle(tx, "failed", decodeError(e));
+    }
+  }
+
+  async #nextNonce(signer: ethers.Signer, from: string) {
+    const onChain = await (signer.provider ?? this.#provider).getTransactionCount(from, "pending");
+    const local = this.#transactions
+      .filter(tx => tx.status === "pending" && tx.from === from && tx.nonce !== null)
+      .map(tx => tx.nonce! + 1);
+    return Math.max(onChain, ...local);
+  }
+
+  async #replace(tx: ManagedTransaction, request: ethers.TransactionRequest, cancel: boolean) {
+    if (tx.status !== "pending" || tx.nonce === null) {
+      throw new InteractionError("nonce", "Only pending transactions can be replaced");
+    }
+    try {
+      const signer = await this.#getSigner();
+      if (ethers.getAddress(await signer.getAddress()) !== tx.from) {
+        throw new InteractionError("wallet_unavailable", `Transaction was sent from ${tx.from}`, {
+          hint: "Switch your wallet back to that account to replace it",
+          retryable: true
+        });
+      }
+      const response = await signer.sendTransaction({
+        ...request,
+        from: tx.from,
+        nonce: tx.nonce,
+        ...(await this.#bumpedFees(tx))
+      });
+      // A wallet that picked its own nonce sent a separate transaction rather than a replacement
+      if (response.nonce !== tx.nonce) {
+        throw new InteractionError("nonce", `The wallet sent the replacement with nonce ${response.nonce} instead of ${tx.nonce}`, {
+          hint: "Both transactions may be mined, cancel the new one from your wallet if it is not wanted"
+        });
+      }
+      tx.hashes.push(response.hash);
+      if (cancel) tx.cancelHash = response.hash;
+      // Polls may have settled it while the wallet was open. If settled as replaced, this broadcast took the
+      // nonce before its hash was known, so it is reopened for the next poll to find the receipt; if mined,
+      // the hash is only kept for the record
+      if ((tx.status as TransactionState) === "replaced") {
+        tx.status = "pending";
+        tx.error = undefined;
+      }
+      if (tx.status === "pending") {
+        Object.assign(tx, this.#broadcastFields(response));
+        this.start();
+      }
+      this.#changed();
+    } catch (e) {
+      throw decodeError(e);
+    }
+  }
+
+  // The larger of the bumped original fees and what the network asks for now
+  async #bumpedFees(tx: ManagedTransaction): Promise<Partial<ethers.TransactionRequest>> {
+    const bump = (value?: string) => value ? BigInt(value) * FEE_BUMP_PERCENT / 100n + 1n : 0n;
+    const max = (a: bigint, b: bigint | null) => b !== null && b > a ? b : a;
+    const current = await this.#provider.getFeeData();
+    if (tx.maxFeePerGas) {
+      const maxPriorityFeePerGas = max(bump(tx.maxPriorityFeePerGas), current.maxPriorityFeePerGas);
+      return {
+        maxPriorityFeePerGas,
+        maxFeePerGas: max(max(bump(tx.maxFeePerGas), current.maxFeePerGas), maxPriorityFeePerGas)
+      };
+    }
+    return { gasPrice: max(bump(tx.gasPrice), current.gasPrice) };
+  }
+
+  #broadcastFields(response: ethers.TransactionResponse): Partial<ManagedTransaction> {
+    return {
+      hash: response.hash,
+      gasLimit: response.gasLimit.toString(),
+      maxFeePerGas: response.maxFeePerGas?.toString(),
+      maxPriorityFeePerGas: response.maxPriorityFeePerGas?.toString(),
+      gasPrice: response.maxFeePerGas === null ? response.gasPrice.toString() : undefined
+    };
+  }
+
+  async #check(tx: ManagedTransaction, head: number) {
+    // Read before the receipts, so a nonce used by one of our hashes always has its receipt found
+    const used = await this.#provider.getTransactionCount(tx.from, "latest");
+    for (const hash of tx.hashes) {
+      const receipt = await this.#provider.getTransactionReceipt(hash);
+      if (!receipt) continue;
+
+      this.#nonceUsedPolls.delete(tx.id);
+      tx.hash = hash;
+      tx.blockNumber = receipt.blockNumber;
+      tx.confirmations = Math.max(0, head - receipt.blockNumber + 1);
+      if (receipt.status === 0) {
+        this.#settle(tx, "failed", new InteractionError("revert", "The transaction reverted on-chain", {
+          hint: "Refresh, the on-chain state may have changed while it was pending"
+        }));
+      } else if (tx.confirmations >= this.#options.confirmations) {
+        this.#settle(tx, hash === tx.cancelHash ? "cancelled" : "confirmed");
+      } else {
+        this.#changed();
+      }
+      return;
+    }
+
+    // No receipt for any of our hashes although the nonce is used: something else took it,
+    // unless the receipts were read from an endpoint lagging behind the one that reported the nonce
+    if (tx.nonce !== null && used > tx.nonce) {
+      const polls = (this.#nonceUsedPolls.get(tx.id) ?? 0) + 1;
+      this.#nonceUsedPolls.set(tx.id, polls);
+      if (polls >= REPLACED_AFTER_POLLS) this.#settle(tx, "replaced");
+    } else {
+      this.#nonceUsedPolls.delete(tx.id);
+    }
+  }
+
+  #settle(tx: ManagedTransaction, status: TransactionState, error?: InteractionError) {
+    this.#nonceUsedPolls.delete(tx.id);
+    tx.status = status;
+    tx.error = error?.message;
+    this.#prune();
+    this.#changed();
+
+    const waiters = this.#waiters.get(tx.id) ?? [];
+    this.#waiters.delete(tx.id);
+    for (const waiter of waiters) {
+      if (status === "confirmed") {
+        waiter.resolve({ ...tx, hashes: [...tx.hashes] });
+      } else {
+        waiter.reject(error ?? this.#settlementError(tx));
+      }
+    }
+    if (this.#transactions.every(isSettled)) this.stop();
+  }
+
+  #settlementError(tx: ManagedTransaction) {
+    switch (tx.status) {
+      case "cancelled":
+        return new InteractionError("user_rejected", "Transaction was cancelled");
+      case "replaced":
+        return new InteractionError("nonce", "Transaction was replaced outside this app", {
+          hint: "Check your wallet's activity, it may have been sped up or cancelled there"
+        });
+      default:
+        return new InteractionError(tx.status === "failed" ? "revert" : "unknown", tx.error ?? "Transaction failed");
+    }
+  }
+
+  #find(id: string) {
+    const tx = this.#transactions.find(t => t.id === id);
+    if (!tx) throw new Error(`Unknown transaction ${id}`);
+    return tx;
+  }
+
+  // Keeps every unsettled transaction and the most recent settled ones
+  #prune() {
+    let settled = 0;
+    const kept = this.#transactions.filter(tx => !isSettled(tx) || ++settled <= this.#options.historyLimit);
+    this.#transactions.splice(0, this.#transactions.length, ...kept);
+  }
+
+  #changed() {
+    this.#save();
+    const snapshot = this.list();
+    this.#listeners.forEach(listener => listener(snapshot));
+  }
+
+  #load(): ManagedTransaction[] {
+    const { storage, storageKey } = this.#options;
+    if (!storage || !storageKey) return [];
+    try {
+      const stored = JSON.parse(storage.getItem(storageKey) ?? "[]");
+      return Array.isArray(stored) ? stored : [];
+    } catch {
+      return [];
+    }
+  }
+
+  #save() {
+    const { storage, storageKey } = this.#options;
+    if (!storage || !storageKey) return;
+    storage.setItem(storageKey, JSON.stringify(this.#transactions));
+  }
+}
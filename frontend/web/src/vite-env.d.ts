@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Chain id to start on, e.g. 31337 to use a local `npx hardhat node`
+  readonly VITE_CHAIN_ID?: string;
+}
@@ -2,6 +2,10 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "./tasks/MigrateAnomalies";
+import "./tasks/DecryptionWatcher";
+import "./tasks/DeployBlock";
+import "./tasks/TrainingRound";
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
@@ -0,0 +1,116 @@
+import { task, types } from "hardhat/config";
+import { FederatedAnomalyFHE } from "../types";
+import { getFederatedContract, getScanStartBlock } from "./TrainingRound";
+
+/**
+ * Reports disclosure requests the decryption oracle has not answered.
+ *
+ *   npx hardhat --network localhost task:watch-decryptions --address 0x...
+ *   npx hardhat --network sepolia task:watch-decryptions --from-block 6500000 --stuck-after 900 --expire
+ *   npx hardhat --network sepolia task:watch-decryptions --follow --interval 60
+ */
+
+const DECRYPTION_STATUSES = ["none", "pending", "fulfilled", "expired"] as const;
+
+export type DecryptionRequestState = "pending" | "stuck" | "expired" | "fulfilled" | "settled-expired";
+
+export interface DecryptionRequestReport {
+  requestId: bigint;
+  resultId: bigint;
+  state: DecryptionRequestState;
+  requestedAt: number;
+  expiresAt: number;
+  ageSeconds: number;
+  txHash: string;
+}
+
+// "stuck" means pending for longer than stuckAfter, "expired" means past its deadline but not yet settled on-chain
+export async function inspectDecryptionRequests(
+  contract: FederatedAnomalyFHE,
+  options: { fromBlock: number; stuckAfter: number; now: number },
+): Promise<DecryptionRequestReport[]> {
+  const events = await contract.queryFilter(contract.filters.DetectionRequested(), options.fromBlock);
+
+  return Promise.all(
+    events.map(async (event) => {
+      const request = await contract.getDecryptionRequest(event.args.requestId);
+      const status = DECRYPTION_STATUSES[Number(request.status)];
+      const requestedAt = Number(request.requestedAt);
+      const expiresAt = Number(request.expiresAt);
+      const ageSeconds = options.now - requestedAt;
+
+      let state: DecryptionRequestState;
+      if (status === "fulfilled") {
+        state = "fulfilled";
+      } else if (status === "expired") {
+        state = "settled-expired";
+      } else if (options.now > expiresAt) {
+        state = "expired";
+      } else {
+        state = ageSeconds > options.stuckAfter ? "stuck" : "pending";
+      }
+
+      return {
+        requestId: event.args.requestId,
+        resultId: request.resultId,
+        state,
+        requestedAt,
+        expiresAt,
+        ageSeconds,
+        txHash: event.transactionHash,
+      };
+    }),
+  );
+}
+
+task("task:watch-decryptions", "Reports stuck or expired decryption requests")
+  .addOptionalParam("address", "Optionally specify the FederatedAnomalyFHE contract address")
+  .addOptionalParam(
+    "fromBlock",
+    "First block to scan for DetectionRequested events, defaults to the configured deploy block",
+    undefined,
+    types.int,
+  )
+  .addOptionalParam("stuckAfter", "Seconds after which a pending request is reported as stuck", 600, types.int)
+  .addOptionalParam("interval", "Polling interval in seconds when following", 30, types.int)
+  .addFlag("expire", "Settle expired requests with expireDecryptionRequest so their owners can re-request")
+  .addFlag("follow", "Keep polling instead of exiting after one report")
+  .setAction(async function (taskArguments, hre) {
+    const contract = await getFederatedContract(hre, taskArguments.address);
+    const [signer] = await hre.ethers.getSigners();
+    const fromBlock = await getScanStartBlock(hre, taskArguments.fromBlock, {
+      address: await contract.getAddress(),
+      field: "federatedAnomalyDeployBlock",
+    });
+
+    for (;;) {
+      const latest = await hre.ethers.provider.getBlock("latest");
+      const reports = await inspectDecryptionRequests(contract, {
+        fromBlock,
+        stuckAfter: taskArguments.stuckAfter,
+        now: latest!.timestamp,
+      });
+      const unresolved = reports.filter((report) => report.state === "stuck" || report.state === "expired");
+
+      console.log(
+        `[block ${latest!.number}] ${reports.length} request(s), ` +
+          `${reports.filter((report) => report.state === "pending").length} pending, ${unresolved.length} need attention`,
+      );
+      for (const report of unresolved) {
+        console.log(
+          `  ${report.state.toUpperCase()} request ${report.requestId} for result ${report.resultId}: ` +
+            `waiting ${report.ageSeconds}s, expires ${new Date(report.expiresAt * 1000).toISOString()} (tx ${report.txHash})`,
+        );
+
+        if (taskArguments.expire && report.state === "expired") {
+          await (await contract.connect(signer).expireDecryptionRequest(report.requestId)).wait();
+          console.log(`    settled as expired, the owner can request disclosure again`);
+        }
+      }
+
+      if (!taskArguments.follow) {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, taskArguments.interval * 1000));
+    }
+  });
@@ -0,0 +1,63 @@
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import type { Provider } from "ethers";
+import { getFrontendDeployment } from "./TrainingRound";
+
+/**
+ * Finds the blocks the configured contracts were deployed in, which bound the frontend's log
+ * scans. Needs an RPC endpoint that serves historical state (eth_getCode at past blocks).
+ *
+ *   npx hardhat --network sepolia task:deploy-block
+ *   npx hardhat --network sepolia task:deploy-block --write
+ */
+
+const CONFIG_PATH = path.join(__dirname, "..", "frontend", "web", "src", "config.json");
+
+// Binary search for the first block with code at the address, null if it has none at the head
+export async function findDeployBlock(provider: Provider, address: string): Promise<number | null> {
+  let high = await provider.getBlockNumber();
+  if ((await provider.getCode(address, high)) === "0x") {
+    return null;
+  }
+
+  let low = 0;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if ((await provider.getCode(address, middle)) === "0x") {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+task("task:deploy-block", "Finds the deploy blocks of the contracts in the frontend config")
+  .addFlag("write", "Store the blocks in frontend/web/src/config.json")
+  .setAction(async function (taskArguments, hre) {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const deployment = await getFrontendDeployment(hre);
+    const blocks: Record<string, number> = {};
+
+    for (const [name, address, field] of [
+      ["UniversalAdapter", deployment.contractAddress, "contractDeployBlock"],
+      ["FederatedAnomalyFHE", deployment.federatedAnomalyAddress, "federatedAnomalyDeployBlock"],
+    ]) {
+      if (address === hre.ethers.ZeroAddress) continue;
+      const block = await findDeployBlock(hre.ethers.provider, address);
+      if (block === null) {
+        console.warn(`${name}: no code at ${address}`);
+        continue;
+      }
+      console.log(`${name} (${address}) deployed in block ${block}`);
+      blocks[field] = block;
+    }
+
+    if (taskArguments.write && Object.keys(blocks).length > 0) {
+      const config = JSON.parse(fs.readFileSync(CONFIG_PATH, "utf8"));
+      config.networks[chainId.toString()] = { ...config.networks[chainId.toString()], ...blocks };
+      fs.writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2));
+      console.log(`Updated ${CONFIG_PATH}`);
+    }
+  });
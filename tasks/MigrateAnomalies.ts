@@ -0,0 +1,116 @@
+import { task, types } from "hardhat/config";
+import { decodeAnomalyRecord, encodeAnomalyRecord } from "../frontend/web/src/anomalyRecord";
+import { FederatedAnomalyFHE } from "../types";
+// The adapter source is not part of this repository, only its generated bindings
+import { UniversalAdapter__factory } from "../types/factories/UniversalAdapter__factory";
+import { getFederatedContract, getFrontendDeployment, getScanStartBlock } from "./TrainingRound";
+
+/**
+ * Copies anomaly records from the UniversalAdapter key/value store into the append-only
+ * registry of FederatedAnomalyFHE. Keys are collected from `anomaly_keys` and from
+ * DataStored events, so records orphaned by a failed index write are migrated too. Records are
+ * upgraded to the current schema on the way; records failing validation are reported and skipped.
+ *
+ *   npx hardhat --network sepolia task:migrate-anomalies --dry-run
+ *   npx hardhat --network sepolia task:migrate-anomalies --adapter 0x... --from-block 6500000 --batch-size 20
+ */
+
+const ANOMALY_PREFIX = "anomaly_";
+const INDEX_KEY = "anomaly_keys";
+// Record status => FederatedAnomalyFHE.AnomalyStatus, so settled legacy reviews stay settled
+const REVIEW_STATUSES = { detected: 1, verified: 2, false_positive: 3 };
+
+task("task:migrate-anomalies", "Migrates legacy adapter anomaly records into the on-chain registry")
+  .addOptionalParam("address", "Optionally specify the FederatedAnomalyFHE contract address")
+  .addOptionalParam("adapter", "UniversalAdapter address, defaults to the frontend config")
+  .addOptionalParam(
+    "fromBlock",
+    "First block to scan for DataStored events, defaults to the configured adapter deploy block",
+    undefined,
+    types.int,
+  )
+  .addOptionalParam("batchSize", "Records per migration transaction", 20, types.int)
+  .addFlag("dryRun", "Only report what would be migrated")
+  .setAction(async function (taskArguments, hre) {
+    const [admin] = await hre.ethers.getSigners();
+    const contract = await getFederatedContract(hre, taskArguments.address);
+    const adapterAddress = taskArguments.adapter ?? (await getFrontendDeployment(hre)).contractAddress;
+    const adapter = UniversalAdapter__factory.connect(adapterAddress, admin);
+
+    const keys = new Set<string>();
+
+    const indexBytes = await adapter.getData(INDEX_KEY);
+    if (indexBytes !== "0x") {
+      try {
+        for (const key of JSON.parse(hre.ethers.toUtf8String(indexBytes)) as string[]) {
+          keys.add(key);
+        }
+      } catch (e) {
+        console.warn(`Ignoring unreadable ${INDEX_KEY}: ${(e as Error).message}`);
+      }
+    }
+
+    const fromBlock = await getScanStartBlock(hre, taskArguments.fromBlock, {
+      address: adapterAddress,
+      field: "contractDeployBlock",
+    });
+    const events = await adapter.queryFilter(adapter.filters.DataStored(), fromBlock);
+    for (const event of events) {
+      const storageKey = event.args.key;
+      if (!storageKey.startsWith(ANOMALY_PREFIX) || storageKey === INDEX_KEY) continue;
+      const key = storageKey.substring(ANOMALY_PREFIX.length);
+      keys.add(key);
+    }
+
+    const batchCount = await contract.batchCount();
+    const pending: FederatedAnomalyFHE.LegacyAnomalyStruct[] = [];
+    const quarantined: string[] = [];
+    for (const key of keys) {
+      if ((await contract.anomalyIdByKey(hre.ethers.id(key))) !== 0n) continue;
+
+      const record = await adapter.getData(`${ANOMALY_PREFIX}${key}`);
+      if (record === "0x") {
+        console.warn(`  ${key}: listed in ${INDEX_KEY} but has no record, skipped`);
+        continue;
+      }
+
+      let json: string;
+      try {
+        json = hre.ethers.toUtf8String(record);
+      } catch {
+        json = "";
+      }
+      const decoded = decodeAnomalyRecord(json);
+      if (!decoded.ok) {
+        quarantined.push(key);
+        console.warn(`  ${key}: quarantined, ${decoded.errors.join("; ")}`);
+        continue;
+      }
+
+      const { schemaVersion, ...fields } = decoded.record;
+      const batchId = fields.batchId !== undefined && BigInt(fields.batchId) <= batchCount ? fields.batchId : 0;
+      pending.push({
+        key,
+        reporter: fields.organization,
+        batchId,
+        record: hre.ethers.toUtf8Bytes(encodeAnomalyRecord(fields)),
+        reportedAt: fields.timestamp,
+        status: REVIEW_STATUSES[fields.status],
+      });
+    }
+
+    console.log(
+      `${keys.size} legacy key(s) found, ${pending.length} to migrate, ${quarantined.length} quarantined as invalid`,
+    );
+    if (taskArguments.dryRun) {
+      pending.forEach((legacy) => console.log(`  ${legacy.key} reported by ${legacy.reporter} (batch ${legacy.batchId})`));
+      return;
+    }
+
+    for (let i = 0; i < pending.length; i += taskArguments.batchSize) {
+      const chunk = pending.slice(i, i + taskArguments.batchSize);
+      const receipt = await (await contract.connect(admin).migrateLegacyAnomalies(chunk)).wait();
+      console.log(`  migrated ${i + chunk.length}/${pending.length} (tx ${receipt?.hash})`);
+    }
+    console.log(`Registry now holds ${await contract.anomalyCount()} anomaly report(s)`);
+  });
@@ -0,0 +1,285 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import frontendConfig from "../frontend/web/src/config.json";
+import { FederatedAnomalyFHE } from "../types";
+
+/**
+ * Helpers and tasks driving a federated training round against FederatedAnomalyFHE.
+ *
+ * Start a local fhevm mock node first with `npx hardhat node`, then:
+ *
+ *   npx hardhat --network localhost task:run-round
+ *
+ * or step by step against an existing deployment:
+ *   npx hardhat --network localhost task:start-round --address 0x... --quorum 1 --duration 3600
+ *   npx hardhat --network localhost task:submit-update --address 0x... --signer 1 --weights 10,20,30,40 --bias 4
+ *   npx hardhat --network localhost task:close-round --address 0x...
+ *   npx hardhat --network localhost task:finalize-round --address 0x...
+ *   npx hardhat --network localhost task:pin-model --address 0x... --model-version 1
+ *   npx hardhat --network localhost task:decrypt-model --address 0x... --signer 1
+ */
+
+// hardhat and localhost in hardhat.config.ts
+const LOCAL_CHAIN_ID = 31337n;
+
+interface FrontendDeployment {
+  contractAddress: string;
+  federatedAnomalyAddress: string;
+  contractDeployBlock?: number;
+  federatedAnomalyDeployBlock?: number;
+}
+
+// Deployment written to the frontend config by deploy/deploy.ts for the chain hardhat is connected to
+export async function getFrontendDeployment(hre: HardhatRuntimeEnvironment) {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const networks: Record<string, FrontendDeployment | undefined> = frontendConfig.networks;
+  const deployment = networks[chainId.toString()];
+  if (!deployment) {
+    throw new Error(`No deployment for chain ${chainId} in frontend/web/src/config.json, pass --address`);
+  }
+  return deployment;
+}
+
+// Falls back to the address written to the frontend config by deploy/deploy.ts
+export async function getFederatedContract(hre: HardhatRuntimeEnvironment, address?: string) {
+  const contractAddress = address ?? (await getFrontendDeployment(hre)).federatedAnomalyAddress;
+  return (await hre.ethers.getContractAt("FederatedAnomalyFHE", contractAddress)) as unknown as FederatedAnomalyFHE;
+}
+
+// First block of a log scan: the explicit --from-block, else the configured deploy block of the contract when it is
+// the one being scanned. Only the local chain is scanned from genesis, public RPCs reject or time out on such ranges.
+export async function getScanStartBlock(
+  hre: HardhatRuntimeEnvironment,
+  fromBlock: number | undefined,
+  contract: { address: string; field: "contractDeployBlock" | "federatedAnomalyDeployBlock" },
+): Promise<number> {
+  if (fromBlock !== undefined) {
+    return fromBlock;
+  }
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  if (chainId === LOCAL_CHAIN_ID) {
+    return 0;
+  }
+
+  const networks: Record<string, FrontendDeployment | undefined> = frontendConfig.networks;
+  const deployment = networks[chainId.toString()];
+  const configuredAddress =
+    contract.field === "contractDeployBlock" ? deployment?.contractAddress : deployment?.federatedAnomalyAddress;
+  const deployBlock = deployment?.[contract.field];
+  if (deployBlock === undefined || configuredAddress?.toLowerCase() !== contract.address.toLowerCase()) {
+    throw new Error(
+      `No deploy block configured for ${contract.address}, pass --from-block or run task:deploy-block --write`,
+    );
+  }
+  return deployBlock;
+}
+
+export async function ensureActiveParticipant(
+  contract: FederatedAnomalyFHE,
+  admin: HardhatEthersSigner,
+  signer: HardhatEthersSigner,
+  organization: string,
+): Promise<bigint> {
+  let participantId = await contract.participantIdOf(signer.address);
+  if (participantId === 0n) {
+    await (await contract.connect(signer).registerParticipant(organization, "")).wait();
+    participantId = await contract.participantIdOf(signer.address);
+  }
+
+  const participant = await contract.getParticipant(participantId);
+  if (participant.status !== 2n) {
+    await (await contract.connect(admin).approveParticipant(participantId)).wait();
+  }
+  return participantId;
+}
+
+export async function submitEncryptedUpdate(
+  hre: HardhatRuntimeEnvironment,
+  contract: FederatedAnomalyFHE,
+  signer: HardhatEthersSigner,
+  participantId: bigint,
+  weights: number[],
+  bias: number,
+) {
+  const contractAddress = await contract.getAddress();
+  const input = hre.fhevm.createEncryptedInput(contractAddress, signer.address);
+  weights.forEach((weight) => input.add32(weight));
+  input.add32(bias);
+  const { handles, inputProof } = await input.encrypt();
+
+  const tx = await contract
+    .connect(signer)
+    .submitModelUpdate(handles.slice(0, weights.length), handles[weights.length], inputProof, participantId);
+  return tx.wait();
+}
+
+export async function decryptGlobalModel(
+  hre: HardhatRuntimeEnvironment,
+  contract: FederatedAnomalyFHE,
+  signer: HardhatEthersSigner,
+  version: bigint,
+) {
+  const contractAddress = await contract.getAddress();
+  const model = await contract.getGlobalModel(version);
+
+  const weights: bigint[] = [];
+  for (const handle of model.weights) {
+    weights.push(await hre.fhevm.userDecryptEuint(FhevmType.euint64, handle, contractAddress, signer));
+  }
+  const bias = await hre.fhevm.userDecryptEuint(FhevmType.euint64, model.bias, contractAddress, signer);
+  return { roundId: model.roundId, weights, bias };
+}
+
+const ROUND_STATUSES = ["None", "Open", "Collecting", "Aggregating", "Finalized", "Aborted"];
+
+function parseWeights(value: string): number[] {
+  return value.split(",").map((token) => {
+    const weight = Number(token.trim());
+    if (!Number.isInteger(weight) || weight < 0) {
+      throw new Error(`Invalid weight "${token}": expected an unsigned integer`);
+    }
+    return weight;
+  });
+}
+
+task("task:start-round", "Opens a new training round")
+  .addOptionalParam("address", "Optionally specify the FederatedAnomalyFHE contract address")
+  .addOptionalParam("quorum", "Minimum number of contributors", 1, types.int)
+  .addOptionalParam("duration", "Collection window in seconds", 3600, types.int)
+  .setAction(async function (taskArguments, hre) {
+    const [admin] = await hre.ethers.getSigners();
+    const contract = await getFederatedContract(hre, taskArguments.address);
+
+    await (await contract.connect(admin).startTrainingRound(taskArguments.quorum, taskArguments.duration)).wait();
+    const roundId = await contract.currentRoundId();
+    const round = await contract.getTrainingRound(roundId);
+    console.log(`Training round ${roundId} opened until ${new Date(Number(round.deadline) * 1000).toISOString()}`);
+  });
+
+task("task:submit-update", "Encrypts and submits a model update to the open round")
+  .addOptionalParam("address", "Optionally specify the FederatedAnomalyFHE contract address")
+  .addParam("weights", "Comma separated weights, one per feature")
+  .addParam("bias", "Model bias", undefined, types.int)
+  .addOptionalParam("signer", "Index of the participant signer", 1, types.int)
+  .setAction(async function (taskArguments, hre) {
+    await hre.fhevm.initializeCLIApi();
+
+    const signers = await hre.ethers.getSigners();
+    const signer = signers[taskArguments.signer];
+    const contract = await getFederatedContract(hre, taskArguments.address);
+
+    const participantId = await contract.participantIdOf(signer.address);
+    if (participantId === 0n) {
+      throw new Error(`${signer.address} is not a registered participant`);
+    }
+
+    await submitEncryptedUpdate(hre, contract, signer, participantId, parseWeights(taskArguments.weights), taskArguments.bias);
+    console.log(`Participant ${participantId} submitted an update to round ${await contract.currentRoundId()}`);
+  });
+
+task("task:close-round", "Stops collecting updates; aborts the round if it missed its quorum by the deadline")
+  .addOptionalParam("address", "Optionally specify the FederatedAnomalyFHE contract address")
+  .setAction(async function (taskArguments, hre) {
+    const [admin] = await hre.ethers.getSigners();
+    const contract = await getFederatedContract(hre, taskArguments.address);
+
+    const roundId = await contract.currentRoundId();
+    await (await contract.connect(admin).closeRound()).wait();
+    const round = await contract.getTrainingRound(roundId);
+    console.log(`Training round ${roundId} is now ${ROUND_STATUSES[Number(round.status)]}`);
+  });
+
+task("task:abort-round", "Aborts the active training round")
+  .addOptionalParam("address", "Optionally specify the FederatedAnomalyFHE contract address")
+  .setAction(async function (taskArguments, hre) {
+    const [admin] = await hre.ethers.getSigners();
+    const contract = await getFederatedContract(hre, taskArguments.address);
+
+    await (await contract.connect(admin).abortRound()).wait();
+    console.log(`Training round ${await contract.currentRoundId()} aborted`);
+  });
+
+task("task:finalize-round", "Aggregates the open round into a new global model version")
+  .addOptionalParam("address", "Optionally specify the FederatedAnomalyFHE contract address")
+  .setAction(async function (taskArguments, hre) {
+    const [admin] = await hre.ethers.getSigners();
+    const contract = await getFederatedContract(hre, taskArguments.address);
+
+    await (await contract.connect(admin).finalizeRound()).wait();
+    console.log(`Global model version ${await contract.globalModelVersion()} published`);
+  });
+
+task("task:pin-model", "Pins the active global model version, e.g. to roll back a poisoned round")
+  .addOptionalParam("address", "Optionally specify the FederatedAnomalyFHE contract address")
+  .addParam("modelVersion", "Global model version to activate", undefined, types.int)
+  .setAction(async function (taskArguments, hre) {
+    const [admin] = await hre.ethers.getSigners();
+    const contract = await getFederatedContract(hre, taskArguments.address);
+
+    await (await contract.connect(admin).pinModelVersion(taskArguments.modelVersion)).wait();
+    console.log(`Global model version ${taskArguments.modelVersion} is now active`);
+  });
+
+task("task:decrypt-model", "Decrypts a global model version as one of its contributors")
+  .addOptionalParam("address", "Optionally specify the FederatedAnomalyFHE contract address")
+  .addOptionalParam("modelVersion", "Global model version, defaults to the active one")
+  .addOptionalParam("signer", "Index of the contributor signer", 1, types.int)
+  .setAction(async function (taskArguments, hre) {
+    await hre.fhevm.initializeCLIApi();
+
+    const signers = await hre.ethers.getSigners();
+    const contract = await getFederatedContract(hre, taskArguments.address);
+    const version = taskArguments.modelVersion ? BigInt(taskArguments.modelVersion) : await contract.activeModelVersion();
+
+    const model = await decryptGlobalModel(hre, contract, signers[taskArguments.signer], version);
+    console.log(`Global model v${version} (round ${model.roundId})`);
+    console.log(`  weights: ${model.weights.join(", ")}`);
+    console.log(`  bias   : ${model.bias}`);
+  });
+
+task("task:run-round", "Runs a full training round end to end with the first signers as participants")
+  .addOptionalParam("address", "Optionally specify the FederatedAnomalyFHE contract address")
+  .addOptionalParam("participants", "Number of participating signers", 3, types.int)
+  .setAction(async function (taskArguments, hre) {
+    await hre.fhevm.initializeCLIApi();
+
+    const [admin, ...others] = await hre.ethers.getSigners();
+    let contract: FederatedAnomalyFHE;
+    if (taskArguments.address) {
+      contract = await getFederatedContract(hre, taskArguments.address);
+    } else {
+      const factory = await hre.ethers.getContractFactory("FederatedAnomalyFHE");
+      contract = (await factory.connect(admin).deploy(4, 32)) as unknown as FederatedAnomalyFHE;
+      await contract.waitForDeployment();
+      console.log(`FederatedAnomalyFHE deployed at ${await contract.getAddress()}`);
+    }
+
+    const dimension = Number((await contract.featureSchema()).dimension);
+    const participants = others.slice(0, taskArguments.participants);
+    if (participants.length === 0) {
+      throw new Error("At least one participant signer is required");
+    }
+
+    await (await contract.connect(admin).startTrainingRound(participants.length, 3600)).wait();
+    const roundId = await contract.currentRoundId();
+    console.log(`Training round ${roundId} opened`);
+
+    for (const [index, signer] of participants.entries()) {
+      const participantId = await ensureActiveParticipant(contract, admin, signer, `Organization ${index + 1}`);
+      const weights = Array.from({ length: dimension }, (_, i) => (index + 1) * 10 + i);
+      const bias = index + 1;
+      await submitEncryptedUpdate(hre, contract, signer, participantId, weights, bias);
+      console.log(`  participant ${participantId} submitted weights [${weights.join(", ")}], bias ${bias}`);
+    }
+
+    await (await contract.connect(admin).closeRound()).wait();
+    await (await contract.connect(admin).finalizeRound()).wait();
+    const version = await contract.globalModelVersion();
+
+    const model = await decryptGlobalModel(hre, contract, participants[0], version);
+    console.log(`Global model v${version} from round ${model.roundId}`);
+    console.log(`  weights: ${model.weights.join(", ")}`);
+    console.log(`  bias   : ${model.bias}`);
+  });
@@ -0,0 +1,135 @@
+import { expect } from "chai";
+import {
+  AnomalyQuery,
+  DEFAULT_ANOMALY_QUERY,
+  QueryableAnomaly,
+  parseAnomalyQuery,
+  queryAnomalies,
+  serializeAnomalyQuery,
+  toggleSort,
+} from "../frontend/web/src/anomalyQuery";
+
+describe("anomalyQuery", function () {
+  const ALICE = "0x00000000000000000000000000000000000000a1";
+  const BOB = "0x00000000000000000000000000000000000000b2";
+  // Local noon, so day filters hold whatever the time zone of the machine running the tests
+  const at = (date: string) => new Date(`${date}T12:00:00`).getTime() / 1000;
+
+  const rows: QueryableAnomaly[] = [
+    { id: "a1", anomalyType: "fraud", organization: ALICE, timestamp: at("2024-03-01"), confidence: 90, status: "detected", description: "card burst" },
+    { id: "a2", anomalyType: "intrusion", organization: ALICE, timestamp: at("2024-03-02"), confidence: 40, status: "verified", description: "" },
+    { id: "b1", anomalyType: "fraud", organization: BOB, timestamp: at("2024-03-03"), confidence: 90, status: "false_positive", description: "" },
+    { id: "b2", anomalyType: "fraud", organization: BOB, timestamp: at("2024-03-04"), confidence: 60, status: "detected", description: "wire transfer" },
+  ];
+
+  const query = (overrides: Partial<AnomalyQuery>): AnomalyQuery => ({ ...DEFAULT_ANOMALY_QUERY, ...overrides });
+  const ids = (overrides: Partial<AnomalyQuery>) => queryAnomalies(rows, query(overrides)).rows.map((row) => row.id);
+
+  describe("URL parameters", function () {
+    it("round-trips a query through the search string", function () {
+      const original = query({
+        search: "card",
+        statuses: ["detected", "verified"],
+        types: ["fraud"],
+        organizations: [ALICE],
+        from: "2024-03-01",
+        to: "2024-03-31",
+        minConfidence: 20,
+        maxConfidence: 95,
+        sort: [
+          { key: "confidence", direction: "desc" },
+          { key: "id", direction: "asc" },
+        ],
+        page: 3,
+        pageSize: 100,
+      });
+
+      const params = serializeAnomalyQuery(original);
+      expect(params.get("sort")).to.eq("-confidence,id");
+      expect(parseAnomalyQuery(new URLSearchParams(params.toString()))).to.deep.eq(original);
+    });
+
+    it("writes nothing for the default query", function () {
+      expect(serializeAnomalyQuery(DEFAULT_ANOMALY_QUERY).toString()).to.eq("");
+      expect(parseAnomalyQuery(new URLSearchParams())).to.deep.eq(DEFAULT_ANOMALY_QUERY);
+    });
+
+    it("falls back to defaults for malformed parameters", function () {
+      const parsed = parseAnomalyQuery(
+        new URLSearchParams(
+          `status=closed&status=verified&from=March&minConfidence=70&maxConfidence=50&sort=-bogus,,id,-id&page=0&size=7&org=${BOB.replace("b2", "B2")}`,
+        ),
+      );
+
+      expect(parsed.statuses).to.deep.eq(["verified"]);
+      expect(parsed.from).to.eq("");
+      expect(parsed.minConfidence).to.eq(70);
+      expect(parsed.maxConfidence).to.eq(100);
+      expect(parsed.sort).to.deep.eq([{ key: "id", direction: "asc" }]);
+      expect(parsed.page).to.eq(1);
+      expect(parsed.pageSize).to.eq(DEFAULT_ANOMALY_QUERY.pageSize);
+      expect(parsed.organizations).to.deep.eq([BOB]);
+    });
+  });
+
+  describe("toggleSort", function () {
+    const byTimestamp = DEFAULT_ANOMALY_QUERY.sort;
+
+    it("sorts by a new column alone, numbers and dates descending first", function () {
+      expect(toggleSort(byTimestamp, "anomalyType", false)).to.deep.eq([{ key: "anomalyType", direction: "asc" }]);
+      expect(toggleSort(byTimestamp, "confidence", false)).to.deep.eq([{ key: "confidence", direction: "desc" }]);
+    });
+
+    it("flips the only sort column on a plain click", function () {
+      expect(toggleSort(byTimestamp, "timestamp", false)).to.deep.eq([{ key: "timestamp", direction: "asc" }]);
+    });
+
+    it("appends tie breakers and flips them in place on an additive click", function () {
+      const sort = toggleSort(byTimestamp, "status", true);
+      expect(sort).to.deep.eq([
+        { key: "timestamp", direction: "desc" },
+        { key: "status", direction: "asc" },
+      ]);
+      expect(toggleSort(sort, "timestamp", true)).to.deep.eq([
+        { key: "timestamp", direction: "asc" },
+        { key: "status", direction: "asc" },
+      ]);
+      // A plain click on a column of a multi-column sort restarts from that column
+      expect(toggleSort(sort, "status", false)).to.deep.eq([{ key: "status", direction: "asc" }]);
+    });
+  });
+
+  describe("queryAnomalies", function () {
+    it("combines filters", function () {
+      expect(ids({ types: ["fraud"], statuses: ["detected"] })).to.deep.eq(["b2", "a1"]);
+      expect(ids({ organizations: [ALICE], minConfidence: 50 })).to.deep.eq(["a1"]);
+      expect(ids({ from: "2024-03-02", to: "2024-03-03" })).to.deep.eq(["b1", "a2"]);
+      expect(ids({ search: "  WIRE " })).to.deep.eq(["b2"]);
+      expect(ids({ search: "a2" })).to.deep.eq(["a2"]);
+    });
+
+    it("sorts by every key in order", function () {
+      expect(
+        ids({
+          sort: [
+            { key: "confidence", direction: "desc" },
+            { key: "id", direction: "desc" },
+          ],
+        }),
+      ).to.deep.eq(["b1", "a1", "b2", "a2"]);
+    });
+
+    it("pages the matching rows and clamps the page", function () {
+      const second = queryAnomalies(rows, query({ sort: [{ key: "id", direction: "asc" }], pageSize: 3, page: 2 }));
+      expect(second.rows.map((row) => row.id)).to.deep.eq(["b2"]);
+      expect(second.total).to.eq(4);
+      expect(second.pageCount).to.eq(2);
+
+      const beyond = queryAnomalies(rows, query({ pageSize: 3, page: 9 }));
+      expect(beyond.page).to.eq(2);
+
+      const empty = queryAnomalies(rows, query({ types: ["outage"] }));
+      expect(empty).to.deep.eq({ rows: [], total: 0, page: 1, pageCount: 1 });
+    });
+  });
+});
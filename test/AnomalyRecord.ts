@@ -0,0 +1,114 @@
+import { expect } from "chai";
+import {
+  ANOMALY_RECORD_VERSION,
+  AnomalyRecord,
+  decodeAnomalyRecord,
+  encodeAnomalyRecord,
+  validateAnomalyRecord,
+} from "../frontend/web/src/anomalyRecord";
+
+describe("anomalyRecord", function () {
+  const handle = `0x${"ab".repeat(32)}`;
+  const organization = "0x627d26152D20319C133C77a327d27Ca9456ed998";
+
+  const record: Omit<AnomalyRecord, "schemaVersion"> = {
+    data: [handle, handle],
+    timestamp: 1_700_000_000,
+    organization,
+    anomalyType: "fraud",
+    description: "Burst of card-not-present payments",
+    confidence: 87,
+    status: "detected",
+  };
+
+  it("round-trips a record through encode and decode", function () {
+    const decoded = decodeAnomalyRecord(encodeAnomalyRecord(record));
+
+    expect(decoded).to.deep.eq({
+      ok: true,
+      record: { ...record, schemaVersion: ANOMALY_RECORD_VERSION },
+      migratedFrom: undefined,
+    });
+  });
+
+  it("upgrades unversioned v1 records and fills their optional fields", function () {
+    const decoded = decodeAnomalyRecord(
+      JSON.stringify({ data: [handle], timestamp: 1_600_000_000, organization, anomalyType: "intrusion", batchId: 3 }),
+    );
+
+    expect(decoded.ok).to.eq(true);
+    if (!decoded.ok) return;
+    expect(decoded.migratedFrom).to.eq(1);
+    expect(decoded.record).to.deep.eq({
+      schemaVersion: 2,
+      data: [handle],
+      timestamp: 1_600_000_000,
+      organization,
+      anomalyType: "intrusion",
+      description: "",
+      confidence: 0,
+      status: "detected",
+      batchId: 3,
+    });
+  });
+
+  it("keeps the placeholder of the first frontend out of the handle list", function () {
+    const decoded = decodeAnomalyRecord(
+      JSON.stringify({ data: "FHE-eyJ4IjoxfQ==", timestamp: 1_500_000_000, organization, anomalyType: "fraud" }),
+    );
+
+    expect(decoded.ok).to.eq(true);
+    if (!decoded.ok) return;
+    expect(decoded.record.data).to.deep.eq([]);
+    expect(decoded.record.legacyData).to.eq("FHE-eyJ4IjoxfQ==");
+  });
+
+  it("reports malformed input instead of throwing", function () {
+    const broken = decodeAnomalyRecord("{not json");
+    expect(broken.ok).to.eq(false);
+    if (!broken.ok) expect(broken.errors[0]).to.match(/^not valid JSON: /);
+
+    expect(decodeAnomalyRecord("[1, 2]")).to.deep.eq({ ok: false, errors: ["record must be a JSON object"] });
+    expect(decodeAnomalyRecord("null")).to.deep.eq({ ok: false, errors: ["record must be a JSON object"] });
+  });
+
+  it("rejects unknown schema versions", function () {
+    for (const schemaVersion of [0, 3, 1.5, "2"]) {
+      expect(decodeAnomalyRecord(JSON.stringify({ ...record, schemaVersion }))).to.deep.eq({
+        ok: false,
+        errors: [`unsupported schemaVersion ${schemaVersion}`],
+      });
+    }
+  });
+
+  it("lists every invalid field", function () {
+    const errors = validateAnomalyRecord({
+      schemaVersion: 2,
+      data: ["0x1234"],
+      timestamp: -1,
+      organization: "alice",
+      anomalyType: " ",
+      description: 7,
+      confidence: 101,
+      status: "closed",
+      batchId: 1.5,
+    });
+
+    expect(errors).to.deep.eq([
+      "data must be a list of bytes32 handles",
+      "timestamp must be a positive integer",
+      "organization must be an address",
+      "anomalyType is required",
+      "description must be a string",
+      "confidence must be between 0 and 100",
+      "status must be one of detected, verified, false_positive",
+      "batchId must be a non-negative integer",
+    ]);
+  });
+
+  it("refuses to encode invalid records", function () {
+    expect(() => encodeAnomalyRecord({ ...record, confidence: 150 })).to.throw(
+      "Invalid anomaly record: confidence must be between 0 and 100",
+    );
+  });
+});
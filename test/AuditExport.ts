@@ -0,0 +1,59 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { AUDIT_EXPORT_SCHEMA, AuditExport, signAuditPayload, verifyAuditExport } from "../frontend/web/src/auditExport";
+
+describe("audit export", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+
+  const payload: AuditExport = {
+    schema: AUDIT_EXPORT_SCHEMA,
+    subject: "anomaly:1700000000-abc1234",
+    chainId: "31337",
+    contracts: { adapter: ethers.ZeroAddress, registry: ethers.ZeroAddress },
+    generatedAt: 1_700_000_100,
+    entries: [
+      {
+        action: "Reported",
+        actor: ethers.ZeroAddress,
+        timestamp: 1_700_000_000,
+        blockNumber: 12,
+        txHash: `0x${"12".repeat(32)}`,
+        details: "record status: detected",
+      },
+    ],
+  };
+
+  before(async function () {
+    [, alice, bob] = await ethers.getSigners();
+  });
+
+  it("verifies an export signed by the claimed signer", async function () {
+    const signed = await signAuditPayload(alice, payload);
+
+    expect(signed.signer).to.eq(alice.address);
+    expect(signed.digest).to.eq(ethers.id(JSON.stringify(payload)));
+    expect(verifyAuditExport(signed)).to.eq(true);
+    // What a reader of the downloaded file gets
+    expect(verifyAuditExport(JSON.parse(JSON.stringify(signed)))).to.eq(true);
+  });
+
+  it("rejects an export whose payload was changed after signing", async function () {
+    const signed = await signAuditPayload(alice, payload);
+    const tampered = {
+      ...signed,
+      payload: { ...signed.payload, entries: [{ ...signed.payload.entries[0], details: "record status: verified" }] },
+    };
+
+    expect(verifyAuditExport(tampered)).to.eq(false);
+    // Recomputing the digest does not help without a new signature
+    expect(verifyAuditExport({ ...tampered, digest: ethers.id(JSON.stringify(tampered.payload)) })).to.eq(false);
+  });
+
+  it("rejects an export attributed to another signer", async function () {
+    const signed = await signAuditPayload(alice, payload);
+
+    expect(verifyAuditExport({ ...signed, signer: bob.address })).to.eq(false);
+  });
+});
@@ -0,0 +1,80 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { FederatedAnomalyFHE, FederatedAnomalyFHE__factory } from "../types";
+import { InteractionError, decodeError, describeError } from "../frontend/web/src/errors";
+
+describe("decodeError", function () {
+  let contract: FederatedAnomalyFHE;
+
+  before(async function () {
+    const factory = (await ethers.getContractFactory("FederatedAnomalyFHE")) as FederatedAnomalyFHE__factory;
+    contract = (await factory.deploy(4, 32)) as FederatedAnomalyFHE;
+  });
+
+  async function caught(promise: Promise<unknown>) {
+    try {
+      await promise;
+    } catch (e) {
+      return e;
+    }
+    throw new Error("Expected the call to fail");
+  }
+
+  it("decodes require reasons and attaches their hint", async function () {
+    const [, alice] = await ethers.getSigners();
+    const error = decodeError(await caught(contract.connect(alice).approveParticipant(1n)));
+
+    expect(error.kind).to.eq("revert");
+    expect(error.reason).to.eq("Only admin");
+    expect(error.message).to.eq("The contract rejected the transaction: Only admin");
+    expect(error.hint).to.contain("admin account");
+    expect(error.retryable).to.eq(false);
+  });
+
+  it("decodes custom errors from revert data nested in a wallet error", function () {
+    const data = contract.interface.encodeErrorResult("NoHandleFoundForRequestID", []);
+    const error = decodeError({ code: -32603, message: "Internal JSON-RPC error.", data: { code: 3, data } });
+
+    expect(error.kind).to.eq("revert");
+    expect(error.reason).to.eq("NoHandleFoundForRequestID");
+    expect(error.message).to.eq("No pending decryption matches this request");
+  });
+
+  it("classifies wallet error codes", function () {
+    expect(decodeError({ code: 4001, message: "User denied transaction signature." }).kind).to.eq("user_rejected");
+    expect(decodeError({ code: -32002, message: "Already processing eth_requestAccounts." }).kind).to.eq("request_pending");
+    expect(decodeError({ code: 4902, message: "Unrecognized chain ID" }).kind).to.eq("wrong_network");
+    expect(decodeError({ code: 4100, message: "Unauthorized" }).kind).to.eq("wallet_unavailable");
+  });
+
+  it("classifies ethers error codes, including wrapped ones", function () {
+    const rejected = ethers.makeError("user rejected action", "ACTION_REJECTED", {
+      action: "sendTransaction",
+      reason: "rejected",
+    });
+    expect(decodeError(rejected).kind).to.eq("user_rejected");
+    expect(decodeError(new Error("outer", { cause: rejected })).kind).to.eq("user_rejected");
+
+    const funds = ethers.makeError("insufficient funds", "INSUFFICIENT_FUNDS", {
+      transaction: { to: ethers.ZeroAddress },
+    });
+    expect(decodeError(funds).kind).to.eq("insufficient_funds");
+    const timeout = ethers.makeError("timeout", "TIMEOUT", { operation: "send", reason: "timeout" });
+    expect(decodeError(timeout).retryable).to.eq(true);
+  });
+
+  it("keeps unrecognized messages and applies the fallback kind", function () {
+    expect(decodeError(new Error("Something odd")).message).to.eq("Something odd");
+    const relayer = decodeError(new Error("Relayer didn't response correctly"), "relayer");
+    expect(relayer.kind).to.eq("relayer");
+    expect(relayer.retryable).to.eq(true);
+  });
+
+  it("passes typed errors through and formats them with their hint", function () {
+    const typed = new InteractionError("invalid_input", "Expected 4 data points, got 3");
+    expect(decodeError(typed)).to.eq(typed);
+    expect(describeError({ code: 4001 }, "Submission failed")).to.eq(
+      "Submission failed: Request rejected in your wallet. Submit again and approve it in your wallet to continue",
+    );
+  });
+});
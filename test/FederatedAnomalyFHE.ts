@@ -0,0 +1,1240 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { FederatedAnomalyFHE, FederatedAnomalyFHE__factory } from "../types";
+
+type Signers = {
+  admin: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+enum ParticipantStatus {
+  None,
+  Pending,
+  Active,
+  Suspended,
+  Removed,
+}
+
+enum DecryptionStatus {
+  None,
+  Pending,
+  Fulfilled,
+  Expired,
+}
+
+enum AnomalyStatus {
+  None,
+  Detected,
+  Verified,
+  FalsePositive,
+}
+
+enum RoundStatus {
+  None,
+  Open,
+  Collecting,
+  Aggregating,
+  Finalized,
+  Aborted,
+}
+
+const FEATURE_DIMENSION = 4;
+
+async function deployFixture(featureDimension = FEATURE_DIMENSION, featureBitWidth = 32) {
+  const factory = (await ethers.getContractFactory("FederatedAnomalyFHE")) as FederatedAnomalyFHE__factory;
+  const contract = (await factory.deploy(featureDimension, featureBitWidth)) as FederatedAnomalyFHE;
+  const contractAddress = await contract.getAddress();
+
+  return { contract, contractAddress };
+}
+
+describe("FederatedAnomalyFHE", function () {
+  let signers: Signers;
+  let contract: FederatedAnomalyFHE;
+  let contractAddress: string;
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = { admin: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // Encrypted inputs are only available against the fhevm mock
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ contract, contractAddress } = await deployFixture());
+  });
+
+  async function registerActive(signer: HardhatEthersSigner, organization: string) {
+    await contract.connect(signer).registerParticipant(organization, `ipfs://${organization}`);
+    const participantId = await contract.participantIdOf(signer.address);
+    await contract.connect(signers.admin).approveParticipant(participantId);
+    return participantId;
+  }
+
+  async function encryptPair(signer: HardhatEthersSigner, first: number, second: number) {
+    return fhevm.createEncryptedInput(contractAddress, signer.address).add32(first).add32(second).encrypt();
+  }
+
+  async function encryptBatch(signer: HardhatEthersSigner, features: number[], label: number) {
+    const input = fhevm.createEncryptedInput(contractAddress, signer.address);
+    features.forEach((feature) => input.add32(feature));
+    input.add32(label);
+    const { handles, inputProof } = await input.encrypt();
+    return { featureHandles: handles.slice(0, features.length), labelHandle: handles[features.length], inputProof };
+  }
+
+  async function decryptResult(resultId: bigint, signer: HardhatEthersSigner) {
+    const encrypted = await contract.getEncryptedResult(resultId);
+    const score = await fhevm.userDecryptEuint(FhevmType.euint64, encrypted.score, contractAddress, signer);
+    const isAnomaly = await fhevm.userDecryptEbool(encrypted.isAnomaly, contractAddress, signer);
+    return { score, isAnomaly, thresholdVersion: encrypted.thresholdVersion };
+  }
+
+  async function encryptUpdate(signer: HardhatEthersSigner, weights: number[], bias: number) {
+    const input = fhevm.createEncryptedInput(contractAddress, signer.address);
+    weights.forEach((weight) => input.add32(weight));
+    input.add32(bias);
+    const { handles, inputProof } = await input.encrypt();
+    return { weightHandles: handles.slice(0, weights.length), biasHandle: handles[weights.length], inputProof };
+  }
+
+  describe("participant registry", function () {
+    it("registers participants as pending until approved", async function () {
+      await expect(contract.connect(signers.alice).registerParticipant("Alice Bank", "ipfs://alice"))
+        .to.emit(contract, "ParticipantRegistered")
+        .withArgs(1n, signers.alice.address, "Alice Bank");
+
+      const participant = await contract.getParticipant(1n);
+      expect(participant.account).to.eq(signers.alice.address);
+      expect(participant.organization).to.eq("Alice Bank");
+      expect(participant.status).to.eq(ParticipantStatus.Pending);
+      expect(await contract.participantIdOf(signers.alice.address)).to.eq(1n);
+
+      await expect(contract.connect(signers.admin).approveParticipant(1n))
+        .to.emit(contract, "ParticipantStatusChanged")
+        .withArgs(1n, ParticipantStatus.Active);
+    });
+
+    it("rejects duplicate registration from the same address", async function () {
+      await contract.connect(signers.alice).registerParticipant("Alice Bank", "");
+      await expect(contract.connect(signers.alice).registerParticipant("Alice Again", "")).to.be.revertedWith(
+        "Already registered",
+      );
+    });
+
+    it("restricts onboarding decisions to the admin", async function () {
+      await contract.connect(signers.alice).registerParticipant("Alice Bank", "");
+      await expect(contract.connect(signers.bob).approveParticipant(1n)).to.be.revertedWith("Only admin");
+      await expect(contract.connect(signers.alice).approveParticipant(1n)).to.be.revertedWith("Only admin");
+    });
+
+    it("suspends, reinstates and removes participants", async function () {
+      const participantId = await registerActive(signers.alice, "Alice Bank");
+
+      await contract.connect(signers.admin).suspendParticipant(participantId);
+      expect((await contract.getParticipant(participantId)).status).to.eq(ParticipantStatus.Suspended);
+
+      await contract.connect(signers.admin).reinstateParticipant(participantId);
+      expect((await contract.getParticipant(participantId)).status).to.eq(ParticipantStatus.Active);
+
+      await contract.connect(signers.admin).removeParticipant(participantId);
+      expect((await contract.getParticipant(participantId)).status).to.eq(ParticipantStatus.Removed);
+      expect(await contract.participantIdOf(signers.alice.address)).to.eq(0n);
+    });
+
+    it("lets registered participants update their metadata", async function () {
+      const participantId = await registerActive(signers.alice, "Alice Bank");
+
+      await expect(contract.connect(signers.alice).updateParticipantMetadata("Alice Bank plc", "ipfs://alice-v2"))
+        .to.emit(contract, "ParticipantMetadataUpdated")
+        .withArgs(participantId, "Alice Bank plc", "ipfs://alice-v2");
+      expect((await contract.getParticipant(participantId)).metadataURI).to.eq("ipfs://alice-v2");
+      await expect(contract.connect(signers.bob).updateParticipantMetadata("Bob", "")).to.be.revertedWith(
+        "Not registered",
+      );
+    });
+
+    it("transfers the admin role", async function () {
+      await expect(contract.connect(signers.alice).transferAdmin(signers.alice.address)).to.be.revertedWith(
+        "Only admin",
+      );
+      await expect(contract.connect(signers.admin).transferAdmin(ethers.ZeroAddress)).to.be.revertedWith(
+        "Invalid admin",
+      );
+
+      await expect(contract.connect(signers.admin).transferAdmin(signers.bob.address))
+        .to.emit(contract, "AdminTransferred")
+        .withArgs(signers.admin.address, signers.bob.address);
+      expect(await contract.admin()).to.eq(signers.bob.address);
+      await contract.connect(signers.alice).registerParticipant("Alice Bank", "");
+      await expect(contract.connect(signers.admin).approveParticipant(1n)).to.be.revertedWith("Only admin");
+      await contract.connect(signers.bob).approveParticipant(1n);
+    });
+  });
+
+  describe("batch submission", function () {
+    it("records the batch and emits BatchSubmitted", async function () {
+      const participantId = await registerActive(signers.alice, "Alice Bank");
+      const input = await encryptBatch(signers.alice, [42, 7, 3, 9], 1);
+
+      const tx = contract
+        .connect(signers.alice)
+        .submitEncryptedDataBatch(input.featureHandles, input.labelHandle, input.inputProof, participantId);
+      await expect(tx).to.emit(contract, "BatchSubmitted").withArgs(1n, participantId, anyValue);
+
+      const batch = await contract.getEncryptedBatch(1n);
+      expect(batch.participantId).to.eq(participantId);
+      expect(batch.timestamp).to.eq(await time.latest());
+      expect(await contract.batchCount()).to.eq(1n);
+    });
+
+    it("lets only the submitter decrypt the stored label", async function () {
+      const participantId = await registerActive(signers.alice, "Alice Bank");
+      await registerActive(signers.bob, "Bob Shop");
+      const input = await encryptBatch(signers.alice, [42, 7, 3, 9], 1);
+      await contract
+        .connect(signers.alice)
+        .submitEncryptedDataBatch(input.featureHandles, input.labelHandle, input.inputProof, participantId);
+
+      const batch = await contract.getEncryptedBatch(1n);
+      const label = await fhevm.userDecryptEuint(FhevmType.euint32, batch.labels, contractAddress, signers.alice);
+      expect(label).to.eq(1n);
+      await expect(
+        fhevm.userDecryptEuint(FhevmType.euint64, batch.features[0], contractAddress, signers.bob),
+      ).to.be.rejected;
+    });
+
+    it("assigns increasing ids across participants", async function () {
+      const aliceId = await registerActive(signers.alice, "Alice Bank");
+      const bobId = await registerActive(signers.bob, "Bob Shop");
+
+      for (const [signer, participantId] of [
+        [signers.alice, aliceId],
+        [signers.bob, bobId],
+        [signers.alice, aliceId],
+      ] as const) {
+        const input = await encryptBatch(signer, [1, 2, 3, 4], 0);
+        await contract
+          .connect(signer)
+          .submitEncryptedDataBatch(input.featureHandles, input.labelHandle, input.inputProof, participantId);
+      }
+
+      expect(await contract.batchCount()).to.eq(3n);
+      expect((await contract.getEncryptedBatch(2n)).participantId).to.eq(bobId);
+    });
+  });
+
+  describe("model updates", function () {
+    it("stores encrypted weights and bias under the open round", async function () {
+      const participantId = await registerActive(signers.alice, "Alice Bank");
+      await contract.connect(signers.admin).startTrainingRound(1, 3600);
+      const input = await encryptUpdate(signers.alice, [11, 12, 13, 14], 5);
+
+      await expect(
+        contract
+          .connect(signers.alice)
+          .submitModelUpdate(input.weightHandles, input.biasHandle, input.inputProof, participantId),
+      )
+        .to.emit(contract, "ModelUpdated")
+        .withArgs(1n, participantId, anyValue);
+
+      const update = await contract.getEncryptedUpdate(1n);
+      expect(update.roundId).to.eq(1n);
+      expect(update.participantId).to.eq(participantId);
+      expect(update.weights.length).to.eq(FEATURE_DIMENSION);
+
+      const weights = [];
+      for (const handle of update.weights) {
+        weights.push(await fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, signers.alice));
+      }
+      expect(weights).to.deep.eq([11n, 12n, 13n, 14n]);
+      const bias = await fhevm.userDecryptEuint(FhevmType.euint32, update.bias, contractAddress, signers.alice);
+      expect(bias).to.eq(5n);
+      expect(await contract.updateCount()).to.eq(1n);
+    });
+
+    it("rejects an update whose proof belongs to another signer", async function () {
+      const participantId = await registerActive(signers.alice, "Alice Bank");
+      await contract.connect(signers.admin).startTrainingRound(1, 3600);
+      const input = await encryptUpdate(signers.bob, [11, 12, 13, 14], 5);
+
+      await expect(
+        contract
+          .connect(signers.alice)
+          .submitModelUpdate(input.weightHandles, input.biasHandle, input.inputProof, participantId),
+      ).to.be.reverted;
+    });
+  });
+
+  describe("decryption callback", function () {
+    // Errors raised by the KMS verifier while checking the oracle's signatures
+    const kmsVerifierErrors = new ethers.Interface([
+      "error EmptyDecryptionProof()",
+      "error KMSInvalidSigner(address invalidSigner)",
+    ]);
+
+    let resultId: bigint;
+
+    async function requestDisclosure() {
+      const receipt = await (await contract.connect(signers.alice).requestResultDisclosure(resultId)).wait();
+      const event = receipt!.logs
+        .map((log) => contract.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "DetectionRequested");
+      return event!.args.requestId as bigint;
+    }
+
+    function encodeCleartexts(score: number, isAnomaly: boolean) {
+      return ethers.AbiCoder.defaultAbiCoder().encode(["uint64", "bool"], [score, isAnomaly]);
+    }
+
+    beforeEach(async function () {
+      const participantId = await registerActive(signers.alice, "Alice Bank");
+      const input = await encryptBatch(signers.alice, [100, 80, 60, 40], 1);
+      await contract
+        .connect(signers.alice)
+        .submitEncryptedDataBatch(input.featureHandles, input.labelHandle, input.inputProof, participantId);
+      resultId = await contract.batchCount();
+      await contract.connect(signers.alice).requestAnomalyDetection(resultId);
+    });
+
+    it("round-trips a disclosure request through detectAnomalies", async function () {
+      await requestDisclosure();
+      await fhevm.awaitDecryptionOracle();
+
+      const events = await contract.queryFilter(contract.filters.ResultDecrypted());
+      expect(events.map((event) => event.args.resultId)).to.deep.eq([resultId]);
+
+      const result = await contract.getDecryptedResult(resultId);
+      expect(result.anomalyScore).to.eq(70n);
+      expect(result.isAnomaly).to.eq(true);
+      expect(result.isRevealed).to.eq(true);
+    });
+
+    it("fulfills each request only once", async function () {
+      const requestId = await requestDisclosure();
+      await fhevm.awaitDecryptionOracle();
+
+      // Replay the oracle's own, correctly signed callback
+      const [event] = await contract.queryFilter(contract.filters.ResultDecrypted());
+      const callback = await ethers.provider.getTransaction(event.transactionHash);
+      await expect(signers.bob.sendTransaction({ to: contractAddress, data: callback!.data })).to.be.revertedWith(
+        "Request already settled",
+      );
+
+      const request = await contract.getDecryptionRequest(requestId);
+      expect(request.resultId).to.eq(resultId);
+      expect(request.status).to.eq(DecryptionStatus.Fulfilled);
+    });
+
+    it("rejects concurrent disclosure and re-scoring while a request is pending", async function () {
+      await requestDisclosure();
+
+      await expect(contract.connect(signers.alice).requestResultDisclosure(resultId)).to.be.revertedWith(
+        "Disclosure pending",
+      );
+      await expect(contract.connect(signers.alice).requestAnomalyDetection(resultId)).to.be.revertedWith(
+        "Disclosure pending",
+      );
+      await fhevm.awaitDecryptionOracle();
+    });
+
+    it("expires unanswered requests through the DecryptionFailed path", async function () {
+      const requestId = await requestDisclosure();
+      await expect(contract.expireDecryptionRequest(requestId)).to.be.revertedWith("Request not expired");
+
+      await time.increase((await contract.DECRYPTION_REQUEST_TTL()) + 1n);
+      await expect(contract.connect(signers.bob).expireDecryptionRequest(requestId))
+        .to.emit(contract, "DecryptionFailed")
+        .withArgs(requestId, resultId, "Request expired");
+      expect((await contract.getDecryptionRequest(requestId)).status).to.eq(DecryptionStatus.Expired);
+      await expect(contract.expireDecryptionRequest(requestId)).to.be.revertedWith("Request not pending");
+
+      // A late oracle callback for the expired request is rejected
+      await expect(fhevm.awaitDecryptionOracle()).to.be.rejectedWith("Request already settled");
+
+      // The owner can ask again once the stale request is settled
+      const retryId = await requestDisclosure();
+      expect(retryId).to.not.eq(requestId);
+      await fhevm.awaitDecryptionOracle();
+      expect((await contract.getDecryptedResult(resultId)).isRevealed).to.eq(true);
+    });
+
+    it("settles a callback arriving after expiry as failed instead of reverting", async function () {
+      const requestId = await requestDisclosure();
+      await time.increase((await contract.DECRYPTION_REQUEST_TTL()) + 1n);
+
+      await expect(contract.detectAnomalies(requestId, encodeCleartexts(0, false), "0x"))
+        .to.emit(contract, "DecryptionFailed")
+        .withArgs(requestId, resultId, "Request expired");
+      expect((await contract.getDecryptionRequest(requestId)).status).to.eq(DecryptionStatus.Expired);
+      expect((await contract.getDecryptedResult(resultId)).isRevealed).to.eq(false);
+      await expect(fhevm.awaitDecryptionOracle()).to.be.rejectedWith("Request already settled");
+
+      await requestDisclosure();
+      await fhevm.awaitDecryptionOracle();
+      expect((await contract.getDecryptedResult(resultId)).isRevealed).to.eq(true);
+    });
+
+    it("rejects callbacks for unknown request ids", async function () {
+      await expect(contract.detectAnomalies(12345n, encodeCleartexts(0, false), "0x")).to.be.revertedWith(
+        "Invalid request",
+      );
+    });
+
+    it("rejects callbacks without a decryption proof", async function () {
+      const requestId = await requestDisclosure();
+
+      await expect(contract.detectAnomalies(requestId, encodeCleartexts(0, false), "0x")).to.be.revertedWithCustomError(
+        { interface: kmsVerifierErrors },
+        "EmptyDecryptionProof",
+      );
+    });
+
+    it("rejects callbacks signed by a key outside the KMS set", async function () {
+      const requestId = await requestDisclosure();
+      const forged = ethers.solidityPacked(["uint8", "bytes"], [1, await signers.bob.signMessage("forged result")]);
+
+      await expect(
+        contract.detectAnomalies(requestId, encodeCleartexts(0, false), forged),
+      ).to.be.revertedWithCustomError({ interface: kmsVerifierErrors }, "KMSInvalidSigner");
+
+      const result = await contract.getDecryptedResult(resultId);
+      expect(result.isRevealed).to.eq(false);
+    });
+  });
+
+  describe("submission access control", function () {
+    it("accepts a batch from the participant owning the id", async function () {
+      const participantId = await registerActive(signers.alice, "Alice Bank");
+      const input = await encryptBatch(signers.alice, [42, 7, 3, 9], 1);
+
+      await expect(
+        contract
+          .connect(signers.alice)
+          .submitEncryptedDataBatch(input.featureHandles, input.labelHandle, input.inputProof, participantId),
+      ).to.emit(contract, "BatchSubmitted");
+      expect(await contract.batchCount()).to.eq(1n);
+    });
+
+    it("rejects a batch submitted under another participant's id", async function () {
+      const aliceId = await registerActive(signers.alice, "Alice Bank");
+      await registerActive(signers.bob, "Bob Shop");
+      const input = await encryptBatch(signers.bob, [42, 7, 3, 9], 1);
+
+      await expect(
+        contract
+          .connect(signers.bob)
+          .submitEncryptedDataBatch(input.featureHandles, input.labelHandle, input.inputProof, aliceId),
+      ).to.be.revertedWith("Not participant owner");
+    });
+
+    it("rejects submissions from unregistered addresses", async function () {
+      const input = await encryptPair(signers.bob, 7, 0);
+
+      await expect(
+        contract.connect(signers.bob).submitModelUpdate([input.handles[0]], input.handles[1], input.inputProof, 1n),
+      ).to.be.revertedWith("Not participant owner");
+    });
+
+    it("rejects submissions from pending and suspended participants", async function () {
+      await contract.connect(signers.alice).registerParticipant("Alice Bank", "");
+      const participantId = await contract.participantIdOf(signers.alice.address);
+      const batch = await encryptBatch(signers.alice, [42, 7, 3, 9], 1);
+
+      await expect(
+        contract
+          .connect(signers.alice)
+          .submitEncryptedDataBatch(batch.featureHandles, batch.labelHandle, batch.inputProof, participantId),
+      ).to.be.revertedWith("Participant not active");
+
+      await contract.connect(signers.admin).approveParticipant(participantId);
+      await contract.connect(signers.admin).suspendParticipant(participantId);
+      const input = await encryptPair(signers.alice, 42, 1);
+
+      await expect(
+        contract
+          .connect(signers.alice)
+          .submitModelUpdate([input.handles[0]], input.handles[1], input.inputProof, participantId),
+      ).to.be.revertedWith("Participant not active");
+    });
+  });
+
+  describe("feature schema", function () {
+    it("stores the declared schema", async function () {
+      const schema = await contract.featureSchema();
+      expect(schema.dimension).to.eq(FEATURE_DIMENSION);
+      expect(schema.bitWidth).to.eq(32);
+    });
+
+    it("rejects invalid schemas at deployment", async function () {
+      const factory = await ethers.getContractFactory("FederatedAnomalyFHE");
+      await expect(factory.deploy(0, 32)).to.be.revertedWith("Invalid feature dimension");
+      await expect(factory.deploy(4, 16)).to.be.revertedWith("Unsupported feature width");
+    });
+
+    it("stores every feature of the vector as an encrypted handle", async function () {
+      const participantId = await registerActive(signers.alice, "Alice Bank");
+      const features = [42, 7, 3, 9];
+      const input = await encryptBatch(signers.alice, features, 1);
+      await contract
+        .connect(signers.alice)
+        .submitEncryptedDataBatch(input.featureHandles, input.labelHandle, input.inputProof, participantId);
+
+      const batch = await contract.getEncryptedBatch(1n);
+      expect(batch.features.length).to.eq(FEATURE_DIMENSION);
+      expect(batch.participantId).to.eq(participantId);
+
+      for (let i = 0; i < features.length; i++) {
+        const clear = await fhevm.userDecryptEuint(FhevmType.euint64, batch.features[i], contractAddress, signers.alice);
+        expect(clear).to.eq(BigInt(features[i]));
+      }
+    });
+
+    it("rejects batches whose dimension does not match the schema", async function () {
+      const participantId = await registerActive(signers.alice, "Alice Bank");
+      const input = await encryptBatch(signers.alice, [42, 7, 3], 1);
+
+      await expect(
+        contract
+          .connect(signers.alice)
+          .submitEncryptedDataBatch(input.featureHandles, input.labelHandle, input.inputProof, participantId),
+      ).to.be.revertedWith("Feature dimension mismatch");
+    });
+
+    it("accepts euint64 features on 64-bit deployments", async function () {
+      ({ contract, contractAddress } = await deployFixture(2, 64));
+      const participantId = await registerActive(signers.alice, "Alice Bank");
+      const large = 2n ** 40n;
+
+      const input = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add64(large)
+        .add64(5n)
+        .add32(0)
+        .encrypt();
+      await contract
+        .connect(signers.alice)
+        .submitEncryptedDataBatch(input.handles.slice(0, 2), input.handles[2], input.inputProof, participantId);
+
+      const batch = await contract.getEncryptedBatch(1n);
+      const clear = await fhevm.userDecryptEuint(FhevmType.euint64, batch.features[0], contractAddress, signers.alice);
+      expect(clear).to.eq(large);
+    });
+  });
+
+  describe("homomorphic detection", function () {
+    async function submitBatch(signer: HardhatEthersSigner, participantId: bigint, features: number[]) {
+      const input = await encryptBatch(signer, features, 0);
+      await contract
+        .connect(signer)
+        .submitEncryptedDataBatch(input.featureHandles, input.labelHandle, input.inputProof, participantId);
+      return await contract.batchCount();
+    }
+
+    it("flags a batch whose encrypted mean exceeds the threshold", async function () {
+      const participantId = await registerActive(signers.alice, "Alice Bank");
+      const batchId = await submitBatch(signers.alice, participantId, [100, 80, 60, 40]);
+
+      await expect(contract.connect(signers.alice).requestAnomalyDetection(batchId))
+        .to.emit(contract, "DetectionComputed")
+        .withArgs(batchId, 1n);
+
+      const result = await decryptResult(batchId, signers.alice);
+      expect(result.score).to.eq(70n);
+      expect(result.isAnomaly).to.eq(true);
+    });
+
+    it("does not flag a batch below the threshold", async function () {
+      const participantId = await registerActive(signers.alice, "Alice Bank");
+      const batchId = await submitBatch(signers.alice, participantId, [10, 20, 30, 40]);
+
+      await contract.connect(signers.alice).requestAnomalyDetection(batchId);
+
+      const result = await decryptResult(batchId, signers.alice);
+      expect(result.score).to.eq(25n);
+      expect(result.isAnomaly).to.eq(false);
+    });
+
+    it("lets the batch owner decrypt the encrypted score and verdict", async function () {
+      const participantId = await registerActive(signers.alice, "Alice Bank");
+      const batchId = await submitBatch(signers.alice, participantId, [90, 90, 90, 90]);
+      await contract.connect(signers.alice).requestAnomalyDetection(batchId);
+
+      const encrypted = await contract.getEncryptedResult(batchId);
+      const score = await fhevm.userDecryptEuint(FhevmType.euint64, encrypted.score, contractAddress, signers.alice);
+      const isAnomaly = await fhevm.userDecryptEbool(encrypted.isAnomaly, contractAddress, signers.alice);
+      expect(score).to.eq(90n);
+      expect(isAnomaly).to.eq(true);
+    });
+
+    it("restricts detection requests to the batch owner and admin", async function () {
+      const participantId = await registerActive(signers.alice, "Alice Bank");
+      await registerActive(signers.bob, "Bob Shop");
+      const batchId = await submitBatch(signers.alice, participantId, [1, 2, 3, 4]);
+
+      await expect(contract.connect(signers.bob).requestAnomalyDetection(batchId)).to.be.revertedWith(
+        "Not authorized for batch",
+      );
+      await expect(contract.connect(signers.admin).requestAnomalyDetection(batchId)).to.emit(
+        contract,
+        "DetectionComputed",
+      );
+    });
+
+    it("rejects detection requests for unknown batches", async function () {
+      await expect(contract.connect(signers.admin).requestAnomalyDetection(1n)).to.be.revertedWith("Invalid batch");
+    });
+  });
+
+  describe("result access control", function () {
+    let aliceId: bigint;
+
+    async function detectBatch(features: number[]) {
+      const input = await encryptBatch(signers.alice, features, 0);
+      await contract
+        .connect(signers.alice)
+        .submitEncryptedDataBatch(input.featureHandles, input.labelHandle, input.inputProof, aliceId);
+      const batchId = await contract.batchCount();
+      await contract.connect(signers.alice).requestAnomalyDetection(batchId);
+      return batchId;
+    }
+
+    beforeEach(async function () {
+      aliceId = await registerActive(signers.alice, "Alice Bank");
+      await registerActive(signers.bob, "Bob Shop");
+    });
+
+    it("keeps results private to the submitting participant", async function () {
+      const resultId = await detectBatch([70, 70, 70, 70]);
+
+      expect(await contract.canAccessResult(resultId, signers.alice.address)).to.eq(true);
+      expect(await contract.canAccessResult(resultId, signers.bob.address)).to.eq(false);
+      expect(await contract.canAccessResult(resultId, signers.admin.address)).to.eq(false);
+      await expect(decryptResult(resultId, signers.bob)).to.be.rejected;
+
+      const result = await contract.getDecryptedResult(resultId);
+      expect(result.isRevealed).to.eq(false);
+    });
+
+    it("shares new results with every designated auditor", async function () {
+      await expect(contract.connect(signers.admin).addAuditor(signers.bob.address))
+        .to.emit(contract, "AuditorAdded")
+        .withArgs(signers.bob.address);
+      const resultId = await detectBatch([70, 70, 70, 70]);
+
+      expect(await contract.canAccessResult(resultId, signers.bob.address)).to.eq(true);
+      const result = await decryptResult(resultId, signers.bob);
+      expect(result.score).to.eq(70n);
+      expect(result.isAnomaly).to.eq(true);
+    });
+
+    it("lets the admin share earlier results with a new auditor", async function () {
+      const resultId = await detectBatch([70, 70, 70, 70]);
+
+      await expect(contract.connect(signers.admin).grantResultAccess(resultId, signers.bob.address)).to.be.revertedWith(
+        "Not auditor",
+      );
+      await contract.connect(signers.admin).addAuditor(signers.bob.address);
+      await expect(contract.connect(signers.admin).grantResultAccess(resultId, signers.bob.address))
+        .to.emit(contract, "ResultAccessGranted")
+        .withArgs(resultId, signers.bob.address);
+      expect(await contract.canAccessResult(resultId, signers.bob.address)).to.eq(true);
+    });
+
+    it("stops sharing with removed auditors", async function () {
+      await contract.connect(signers.admin).addAuditor(signers.bob.address);
+      await contract.connect(signers.admin).removeAuditor(signers.bob.address);
+      const resultId = await detectBatch([70, 70, 70, 70]);
+
+      expect(await contract.getAuditors()).to.deep.eq([]);
+      expect(await contract.canAccessResult(resultId, signers.bob.address)).to.eq(false);
+      await expect(contract.connect(signers.admin).removeAuditor(signers.bob.address)).to.be.revertedWith(
+        "Not auditor",
+      );
+      await expect(contract.connect(signers.alice).addAuditor(signers.alice.address)).to.be.revertedWith("Only admin");
+    });
+
+    it("publishes a result only when its owner opts into disclosure", async function () {
+      const resultId = await detectBatch([100, 80, 60, 40]);
+
+      await expect(contract.connect(signers.bob).requestResultDisclosure(resultId)).to.be.revertedWith(
+        "Not result owner",
+      );
+      await expect(contract.connect(signers.alice).requestResultDisclosure(resultId)).to.emit(
+        contract,
+        "DetectionRequested",
+      );
+      await fhevm.awaitDecryptionOracle();
+
+      const result = await contract.getDecryptedResult(resultId);
+      expect(result.anomalyScore).to.eq(70n);
+      expect(result.isAnomaly).to.eq(true);
+      expect(result.isRevealed).to.eq(true);
+      expect(result.thresholdVersion).to.eq(1n);
+      await expect(contract.connect(signers.alice).requestResultDisclosure(resultId)).to.be.revertedWith(
+        "Already disclosed",
+      );
+    });
+
+    it("withdraws the disclosed verdict when the batch is re-scored", async function () {
+      const resultId = await detectBatch([100, 80, 60, 40]);
+      await contract.connect(signers.alice).requestResultDisclosure(resultId);
+      await fhevm.awaitDecryptionOracle();
+
+      const threshold = await fhevm.createEncryptedInput(contractAddress, signers.admin.address).add64(80).encrypt();
+      await contract.connect(signers.admin).setDetectionThreshold(threshold.handles[0], threshold.inputProof);
+      await contract.connect(signers.alice).requestAnomalyDetection(resultId);
+      expect((await contract.getDecryptedResult(resultId)).isRevealed).to.eq(false);
+
+      await contract.connect(signers.alice).requestResultDisclosure(resultId);
+      await fhevm.awaitDecryptionOracle();
+      const result = await contract.getDecryptedResult(resultId);
+      expect(result.isRevealed).to.eq(true);
+      expect(result.isAnomaly).to.eq(false);
+      expect(result.thresholdVersion).to.eq(2n);
+    });
+
+    it("rejects disclosure of results that were never computed", async function () {
+      await expect(contract.connect(signers.alice).requestResultDisclosure(1n)).to.be.revertedWith(
+        "Result not computed",
+      );
+    });
+
+    it("revokes batch ownership when the participant is removed", async function () {
+      const resultId = await detectBatch([70, 70, 70, 70]);
+      await contract.connect(signers.admin).removeParticipant(aliceId);
+
+      await expect(contract.connect(signers.alice).requestAnomalyDetection(resultId)).to.be.revertedWith(
+        "Not authorized for batch",
+      );
+      await expect(contract.connect(signers.alice).requestResultDisclosure(resultId)).to.be.revertedWith(
+        "Not result owner",
+      );
+
+      // Re-scoring by the admin no longer shares the new verdict with the removed organization
+      const threshold = await fhevm.createEncryptedInput(contractAddress, signers.admin.address).add64(80).encrypt();
+      await contract.connect(signers.admin).setDetectionThreshold(threshold.handles[0], threshold.inputProof);
+      await contract.connect(signers.admin).requestAnomalyDetection(resultId);
+      expect(await contract.canAccessResult(resultId, signers.alice.address)).to.eq(false);
+    });
+
+    it("rejects detection and disclosure from suspended participants", async function () {
+      const resultId = await detectBatch([70, 70, 70, 70]);
+      await contract.connect(signers.admin).suspendParticipant(aliceId);
+
+      await expect(contract.connect(signers.alice).requestAnomalyDetection(resultId)).to.be.revertedWith(
+        "Not authorized for batch",
+      );
+      await expect(contract.connect(signers.alice).requestResultDisclosure(resultId)).to.be.revertedWith(
+        "Not result owner",
+      );
+    });
+  });
+
+  describe("detection threshold", function () {
+    async function setThreshold(signer: HardhatEthersSigner, threshold: number) {
+      const input = await fhevm.createEncryptedInput(contractAddress, signer.address).add64(threshold).encrypt();
+      return contract.connect(signer).setDetectionThreshold(input.handles[0], input.inputProof);
+    }
+
+    async function detect(participantId: bigint, features: number[]) {
+      const input = await encryptBatch(signers.alice, features, 0);
+      await contract
+        .connect(signers.alice)
+        .submitEncryptedDataBatch(input.featureHandles, input.labelHandle, input.inputProof, participantId);
+      const batchId = await contract.batchCount();
+      await contract.connect(signers.alice).requestAnomalyDetection(batchId);
+      return await decryptResult(batchId, signers.alice);
+    }
+
+    it("starts from the default threshold as version 1", async function () {
+      expect(await contract.detectionThresholdVersion()).to.eq(1n);
+
+      const threshold = await contract.getDetectionThreshold(1n);
+      const clear = await fhevm.userDecryptEuint(FhevmType.euint64, threshold.threshold, contractAddress, signers.admin);
+      expect(clear).to.eq(50n);
+    });
+
+    it("applies an encrypted threshold set by the admin", async function () {
+      const participantId = await registerActive(signers.alice, "Alice Bank");
+
+      await expect(setThreshold(signers.admin, 20))
+        .to.emit(contract, "DetectionThresholdUpdated")
+        .withArgs(2n, signers.admin.address, anyValue);
+
+      const result = await detect(participantId, [10, 20, 30, 40]);
+      expect(result.score).to.eq(25n);
+      expect(result.isAnomaly).to.eq(true);
+      expect(result.thresholdVersion).to.eq(2n);
+    });
+
+    it("keeps the threshold version of earlier verdicts", async function () {
+      const participantId = await registerActive(signers.alice, "Alice Bank");
+      const first = await detect(participantId, [60, 60, 60, 60]);
+
+      await setThreshold(signers.admin, 100);
+      const second = await detect(participantId, [60, 60, 60, 60]);
+
+      expect(first.isAnomaly).to.eq(true);
+      expect(first.thresholdVersion).to.eq(1n);
+      expect(second.isAnomaly).to.eq(false);
+      expect(second.thresholdVersion).to.eq(2n);
+      expect((await contract.getEncryptedResult(1n)).thresholdVersion).to.eq(1n);
+    });
+
+    it("restricts threshold changes to the admin", async function () {
+      await expect(setThreshold(signers.alice, 10)).to.be.revertedWith("Only admin");
+    });
+  });
+
+  describe("training rounds", function () {
+    const ROUND_DURATION = 3600;
+
+    async function submitUpdate(signer: HardhatEthersSigner, participantId: bigint, weights: number[], bias: number) {
+      const input = await encryptUpdate(signer, weights, bias);
+      return contract
+        .connect(signer)
+        .submitModelUpdate(input.weightHandles, input.biasHandle, input.inputProof, participantId);
+    }
+
+    async function startRound(minParticipants = 1) {
+      await contract.connect(signers.admin).startTrainingRound(minParticipants, ROUND_DURATION);
+      return await contract.currentRoundId();
+    }
+
+    it("averages encrypted updates into a new global model version", async function () {
+      const aliceId = await registerActive(signers.alice, "Alice Bank");
+      const bobId = await registerActive(signers.bob, "Bob Shop");
+
+      await startRound(2);
+      await submitUpdate(signers.alice, aliceId, [10, 20, 30, 40], 4);
+      await submitUpdate(signers.bob, bobId, [30, 40, 50, 60], 8);
+      await contract.connect(signers.admin).closeRound();
+
+      await expect(contract.connect(signers.admin).finalizeRound())
+        .to.emit(contract, "ModelAggregated")
+        .withArgs(1n, 1n, 2n);
+
+      const round = await contract.getTrainingRound(1n);
+      expect(round.status).to.eq(RoundStatus.Finalized);
+      expect(round.contributors).to.deep.eq([aliceId, bobId]);
+      expect(round.modelVersion).to.eq(1n);
+
+      const model = await contract.getGlobalModel(1n);
+      const weights = [];
+      for (const handle of model.weights) {
+        weights.push(await fhevm.userDecryptEuint(FhevmType.euint64, handle, contractAddress, signers.bob));
+      }
+      expect(weights).to.deep.eq([20n, 30n, 40n, 50n]);
+      const bias = await fhevm.userDecryptEuint(FhevmType.euint64, model.bias, contractAddress, signers.alice);
+      expect(bias).to.eq(6n);
+    });
+
+    it("emits an event for every lifecycle transition", async function () {
+      const aliceId = await registerActive(signers.alice, "Alice Bank");
+
+      const deadline = (await time.latest()) + 1 + ROUND_DURATION;
+      await expect(contract.connect(signers.admin).startTrainingRound(1, ROUND_DURATION))
+        .to.emit(contract, "RoundStarted")
+        .withArgs(1n, 1n, deadline)
+        .and.to.emit(contract, "RoundStatusChanged")
+        .withArgs(1n, RoundStatus.Open);
+      await expect(submitUpdate(signers.alice, aliceId, [1, 2, 3, 4], 0))
+        .to.emit(contract, "RoundStatusChanged")
+        .withArgs(1n, RoundStatus.Collecting);
+      await expect(contract.connect(signers.admin).closeRound())
+        .to.emit(contract, "RoundStatusChanged")
+        .withArgs(1n, RoundStatus.Aggregating);
+      await expect(contract.connect(signers.admin).finalizeRound())
+        .to.emit(contract, "RoundStatusChanged")
+        .withArgs(1n, RoundStatus.Finalized);
+    });
+
+    it("rejects updates when no round is open", async function () {
+      const aliceId = await registerActive(signers.alice, "Alice Bank");
+      await expect(submitUpdate(signers.alice, aliceId, [1, 2, 3, 4], 0)).to.be.revertedWith(
+        "Round not accepting updates",
+      );
+    });
+
+    it("accepts a single update per participant and round", async function () {
+      const aliceId = await registerActive(signers.alice, "Alice Bank");
+      await startRound();
+      await submitUpdate(signers.alice, aliceId, [1, 2, 3, 4], 0);
+
+      await expect(submitUpdate(signers.alice, aliceId, [5, 6, 7, 8], 0)).to.be.revertedWith("Already contributed");
+    });
+
+    it("rejects a second update from an organization re-registered during the round", async function () {
+      const aliceId = await registerActive(signers.alice, "Alice Bank");
+      const roundId = await startRound();
+      await submitUpdate(signers.alice, aliceId, [1, 2, 3, 4], 0);
+
+      await contract.connect(signers.admin).removeParticipant(aliceId);
+      const newAliceId = await registerActive(signers.alice, "Alice Bank");
+      expect(newAliceId).to.not.eq(aliceId);
+
+      await expect(submitUpdate(signers.alice, newAliceId, [5, 6, 7, 8], 0)).to.be.revertedWith("Already contributed");
+      expect(await contract.hasContributed(roundId, signers.alice.address)).to.eq(true);
+    });
+
+    it("rejects updates submitted after the deadline", async function () {
+      const aliceId = await registerActive(signers.alice, "Alice Bank");
+      await startRound();
+      await time.increase(ROUND_DURATION + 1);
+
+      await expect(submitUpdate(signers.alice, aliceId, [1, 2, 3, 4], 0)).to.be.revertedWith("Round deadline passed");
+    });
+
+    it("rejects updates once the round is closed", async function () {
+      const aliceId = await registerActive(signers.alice, "Alice Bank");
+      const bobId = await registerActive(signers.bob, "Bob Shop");
+      await startRound();
+      await submitUpdate(signers.alice, aliceId, [1, 2, 3, 4], 0);
+      await contract.connect(signers.admin).closeRound();
+
+      await expect(submitUpdate(signers.bob, bobId, [1, 2, 3, 4], 0)).to.be.revertedWith(
+        "Round not accepting updates",
+      );
+    });
+
+    it("rejects weight vectors that do not match the feature schema", async function () {
+      const aliceId = await registerActive(signers.alice, "Alice Bank");
+      await startRound();
+
+      await expect(submitUpdate(signers.alice, aliceId, [1, 2, 3], 0)).to.be.revertedWith("Weight dimension mismatch");
+    });
+
+    it("only closes early once the quorum is reached", async function () {
+      const aliceId = await registerActive(signers.alice, "Alice Bank");
+      await startRound(2);
+      await submitUpdate(signers.alice, aliceId, [1, 2, 3, 4], 0);
+
+      await expect(contract.connect(signers.admin).closeRound()).to.be.revertedWith("Quorum not reached");
+      await expect(contract.connect(signers.alice).closeRound()).to.be.revertedWith("Round still open");
+      await expect(contract.connect(signers.admin).finalizeRound()).to.be.revertedWith("Round not closed");
+    });
+
+    it("aborts a round that missed its quorum by the deadline", async function () {
+      const aliceId = await registerActive(signers.alice, "Alice Bank");
+      await startRound(2);
+      await submitUpdate(signers.alice, aliceId, [1, 2, 3, 4], 0);
+      await time.increase(ROUND_DURATION + 1);
+
+      await expect(contract.connect(signers.bob).closeRound())
+        .to.emit(contract, "RoundStatusChanged")
+        .withArgs(1n, RoundStatus.Aborted);
+      expect((await contract.getTrainingRound(1n)).status).to.eq(RoundStatus.Aborted);
+      expect(await contract.globalModelVersion()).to.eq(0n);
+    });
+
+    it("lets anyone close a round that reached quorum after the deadline", async function () {
+      const aliceId = await registerActive(signers.alice, "Alice Bank");
+      await startRound();
+      await submitUpdate(signers.alice, aliceId, [1, 2, 3, 4], 0);
+      await time.increase(ROUND_DURATION + 1);
+
+      await contract.connect(signers.bob).closeRound();
+      expect((await contract.getTrainingRound(1n)).status).to.eq(RoundStatus.Aggregating);
+    });
+
+    it("allows a single active round and lets the admin abort it", async function () {
+      await startRound();
+      await expect(startRound()).to.be.revertedWith("Round already active");
+      await expect(contract.connect(signers.alice).abortRound()).to.be.revertedWith("Only admin");
+
+      await contract.connect(signers.admin).abortRound();
+      await expect(contract.connect(signers.admin).abortRound()).to.be.revertedWith("No active round");
+      expect(await startRound()).to.eq(2n);
+    });
+
+    it("validates round parameters", async function () {
+      await expect(contract.connect(signers.admin).startTrainingRound(0, ROUND_DURATION)).to.be.revertedWith(
+        "Quorum required",
+      );
+      await expect(contract.connect(signers.admin).startTrainingRound(1, 0)).to.be.revertedWith("Duration required");
+      await expect(contract.connect(signers.alice).startTrainingRound(1, ROUND_DURATION)).to.be.revertedWith(
+        "Only admin",
+      );
+    });
+  });
+
+  describe("global model history", function () {
+    async function runRound(contributors: [HardhatEthersSigner, bigint, number[]][]) {
+      await contract.connect(signers.admin).startTrainingRound(contributors.length, 3600);
+      for (const [signer, participantId, weights] of contributors) {
+        const input = await encryptUpdate(signer, weights, 0);
+        await contract
+          .connect(signer)
+          .submitModelUpdate(input.weightHandles, input.biasHandle, input.inputProof, participantId);
+      }
+      await contract.connect(signers.admin).closeRound();
+      await contract.connect(signers.admin).finalizeRound();
+      return await contract.globalModelVersion();
+    }
+
+    it("records round, contributors and timestamp for every version", async function () {
+      const aliceId = await registerActive(signers.alice, "Alice Bank");
+      const bobId = await registerActive(signers.bob, "Bob Shop");
+
+      await runRound([[signers.alice, aliceId, [1, 2, 3, 4]]]);
+      await runRound([
+        [signers.alice, aliceId, [5, 6, 7, 8]],
+        [signers.bob, bobId, [7, 8, 9, 10]],
+      ]);
+
+      const second = await contract.getGlobalModel(2n);
+      expect(second.roundId).to.eq(2n);
+      expect(second.contributors).to.deep.eq([aliceId, bobId]);
+      expect(second.publishedAt).to.eq(await time.latest());
+
+      const history = await contract.getModelHistory();
+      expect(history.roundIds).to.deep.eq([1n, 2n]);
+      expect(history.contributorCounts).to.deep.eq([1n, 2n]);
+      expect(await contract.activeModelVersion()).to.eq(2n);
+    });
+
+    it("lets the admin roll back to a prior version", async function () {
+      const aliceId = await registerActive(signers.alice, "Alice Bank");
+      await runRound([[signers.alice, aliceId, [1, 2, 3, 4]]]);
+      await runRound([[signers.alice, aliceId, [900, 900, 900, 900]]]);
+
+      await expect(contract.connect(signers.admin).pinModelVersion(1n))
+        .to.emit(contract, "ActiveModelChanged")
+        .withArgs(1n, 2n);
+      expect(await contract.activeModelVersion()).to.eq(1n);
+
+      const pinned = await contract.getGlobalModel(await contract.activeModelVersion());
+      const weight = await fhevm.userDecryptEuint(FhevmType.euint64, pinned.weights[0], contractAddress, signers.alice);
+      expect(weight).to.eq(1n);
+    });
+
+    it("activates the newest version when a later round is finalized", async function () {
+      const aliceId = await registerActive(signers.alice, "Alice Bank");
+      await runRound([[signers.alice, aliceId, [1, 2, 3, 4]]]);
+      await runRound([[signers.alice, aliceId, [1, 2, 3, 4]]]);
+      await contract.connect(signers.admin).pinModelVersion(1n);
+
+      await runRound([[signers.alice, aliceId, [1, 2, 3, 4]]]);
+      expect(await contract.activeModelVersion()).to.eq(3n);
+    });
+
+    it("rejects unknown, already active and non-admin pins", async function () {
+      const aliceId = await registerActive(signers.alice, "Alice Bank");
+      await runRound([[signers.alice, aliceId, [1, 2, 3, 4]]]);
+
+      await expect(contract.connect(signers.admin).pinModelVersion(0n)).to.be.revertedWith("Invalid model version");
+      await expect(contract.connect(signers.admin).pinModelVersion(2n)).to.be.revertedWith("Invalid model version");
+      await expect(contract.connect(signers.admin).pinModelVersion(1n)).to.be.revertedWith("Version already active");
+      await expect(contract.connect(signers.alice).pinModelVersion(1n)).to.be.revertedWith("Only admin");
+    });
+  });
+
+  describe("anomaly registry", function () {
+    const record = (status: string) => ethers.toUtf8Bytes(JSON.stringify({ anomalyType: "fraud", status }));
+
+    async function report(signer: HardhatEthersSigner, participantId: bigint, key: string) {
+      const batch = await encryptBatch(signer, [10, 20, 30, 40], 1);
+      return contract
+        .connect(signer)
+        .submitAnomalyReport(batch.featureHandles, batch.labelHandle, batch.inputProof, participantId, key, record("detected"));
+    }
+
+    it("files the batch and its report in one transaction", async function () {
+      const aliceId = await registerActive(signers.alice, "Alice Bank");
+
+      await expect(report(signers.alice, aliceId, "a-1"))
+        .to.emit(contract, "BatchSubmitted")
+        .withArgs(1n, aliceId, anyValue)
+        .and.to.emit(contract, "AnomalyAppended")
+        .withArgs(1n, 1n, signers.alice.address, "a-1", ethers.hexlify(record("detected")));
+
+      const stored = await contract.getAnomalyReport(1n);
+      expect(stored.key).to.eq("a-1");
+      expect(stored.batchId).to.eq(1n);
+      expect(stored.participantId).to.eq(aliceId);
+      expect(stored.reporter).to.eq(signers.alice.address);
+      expect(await contract.anomalyIdByKey(ethers.id("a-1"))).to.eq(1n);
+    });
+
+    it("keeps every concurrent report instead of overwriting an index", async function () {
+      const aliceId = await registerActive(signers.alice, "Alice Bank");
+      const bobId = await registerActive(signers.bob, "Bob Credit");
+
+      await Promise.all([report(signers.alice, aliceId, "a-1"), report(signers.bob, bobId, "b-1")]);
+
+      expect(await contract.anomalyCount()).to.eq(2n);
+      expect(await contract.anomalyIdByKey(ethers.id("a-1"))).to.not.eq(0n);
+      expect(await contract.anomalyIdByKey(ethers.id("b-1"))).to.not.eq(0n);
+    });
+
+    it("rejects reused keys and reverts the batch with them", async function () {
+      const aliceId = await registerActive(signers.alice, "Alice Bank");
+      await report(signers.alice, aliceId, "a-1");
+
+      await expect(report(signers.alice, aliceId, "a-1")).to.be.revertedWith("Anomaly key taken");
+      expect(await contract.batchCount()).to.eq(1n);
+    });
+
+    it("lets only the reporter update a record", async function () {
+      const aliceId = await registerActive(signers.alice, "Alice Bank");
+      await registerActive(signers.bob, "Bob Credit");
+      await report(signers.alice, aliceId, "a-1");
+
+      await expect(contract.connect(signers.alice).updateAnomalyRecord("a-1", record("verified")))
+        .to.emit(contract, "AnomalyRecordUpdated")
+        .withArgs(1n, signers.alice.address, "a-1", ethers.hexlify(record("verified")));
+      expect((await contract.getAnomalyReport(1n)).record).to.eq(ethers.hexlify(record("verified")));
+
+      await expect(contract.connect(signers.bob).updateAnomalyRecord("a-1", record("false_positive"))).to.be.revertedWith(
+        "Not anomaly reporter",
+      );
+      await expect(contract.connect(signers.alice).updateAnomalyRecord("a-2", record("verified"))).to.be.revertedWith(
+        "Unknown anomaly",
+      );
+    });
+
+    it("rejects record updates once the reporter's organization is removed", async function () {
+      const aliceId = await registerActive(signers.alice, "Alice Bank");
+      await report(signers.alice, aliceId, "a-1");
+      await contract.connect(signers.admin).removeParticipant(aliceId);
+
+      await expect(contract.connect(signers.alice).updateAnomalyRecord("a-1", record("verified"))).to.be.revertedWith(
+        "Participant not active",
+      );
+    });
+
+    it("migrates legacy records once and skips keys already present", async function () {
+      const legacy = [
+        {
+          key: "old-1",
+          reporter: signers.alice.address,
+          batchId: 0n,
+          record: record("detected"),
+          reportedAt: 1000n,
+          status: AnomalyStatus.Detected,
+        },
+        {
+          key: "old-2",
+          reporter: signers.bob.address,
+          batchId: 0n,
+          record: record("verified"),
+          reportedAt: 2000n,
+          status: AnomalyStatus.Verified,
+        },
+      ];
+
+      await expect(contract.connect(signers.alice).migrateLegacyAnomalies(legacy)).to.be.revertedWith("Only admin");
+      await expect(contract.connect(signers.admin).migrateLegacyAnomalies(legacy))
+        .to.emit(contract, "AnomalyAppended")
+        .withArgs(2n, 0n, signers.bob.address, "old-2", anyValue);
+
+      await contract.connect(signers.admin).migrateLegacyAnomalies(legacy);
+      expect(await contract.anomalyCount()).to.eq(2n);
+      expect((await contract.getAnomalyReport(1n)).reportedAt).to.eq(1000n);
+      expect((await contract.getAnomalyReview(2n)).status).to.eq(AnomalyStatus.Verified);
+
+      // Migrated reporters keep ownership of their records once they are active participants
+      await registerActive(signers.alice, "Alice Bank");
+      await contract.connect(signers.alice).updateAnomalyRecord("old-1", record("false_positive"));
+    });
+  });
+
+  describe("anomaly review", function () {
+    let carol: HardhatEthersSigner;
+    let aliceId: bigint;
+
+    beforeEach(async function () {
+      carol = (await ethers.getSigners())[3];
+      aliceId = await registerActive(signers.alice, "Alice Bank");
+      await registerActive(signers.bob, "Bob Credit");
+      await registerActive(carol, "Carol Pay");
+
+      const batch = await encryptBatch(signers.alice, [10, 20, 30, 40], 1);
+      await contract
+        .connect(signers.alice)
+        .submitAnomalyReport(batch.featureHandles, batch.labelHandle, batch.inputProof, aliceId, "a-1", "0x01");
+    });
+
+    it("opens every new report for review", async function () {
+      const review = await contract.getAnomalyReview(1n);
+      expect(review.status).to.eq(AnomalyStatus.Detected);
+      expect(review.reviewRound).to.eq(1n);
+      expect(await contract.reviewQuorum()).to.eq(2n);
+    });
+
+    it("records each vote and settles once the quorum confirms", async function () {
+      await expect(contract.connect(signers.bob).castReviewVote("a-1", true))
+        .to.emit(contract, "ReviewVoteCast")
+        .withArgs(1n, 1n, signers.bob.address, 2n, true, anyValue);
+      expect((await contract.getAnomalyReview(1n)).status).to.eq(AnomalyStatus.Detected);
+
+      await expect(contract.connect(carol).castReviewVote("a-1", true))
+        .to.emit(contract, "AnomalyStatusChanged")
+        .withArgs(1n, AnomalyStatus.Verified, 1n);
+
+      const votes = await contract.getReviewVotes(1n, 1n);
+      expect(votes.voters).to.deep.eq([signers.bob.address, carol.address]);
+      expect(votes.participantIds).to.deep.eq([2n, 3n]);
+      expect(votes.confirms).to.deep.eq([true, true]);
+      expect(votes.votedAts[0]).to.be.greaterThan(0n);
+    });
+
+    it("marks the anomaly a false positive when the quorum rejects it", async function () {
+      await contract.connect(signers.bob).castReviewVote("a-1", false);
+      await contract.connect(carol).castReviewVote("a-1", false);
+
+      const review = await contract.getAnomalyReview(1n);
+      expect(review.status).to.eq(AnomalyStatus.FalsePositive);
+      expect(review.rejections).to.eq(2n);
+    });
+
+    it("rejects votes from the reporter, outsiders and repeat voters", async function () {
+      await expect(contract.connect(signers.alice).castReviewVote("a-1", true)).to.be.revertedWith(
+        "Reporter cannot review",
+      );
+      await expect(contract.connect(signers.admin).castReviewVote("a-1", true)).to.be.revertedWith(
+        "Participant not active",
+      );
+
+      await contract.connect(signers.bob).castReviewVote("a-1", true);
+      await expect(contract.connect(signers.bob).castReviewVote("a-1", false)).to.be.revertedWith("Already reviewed");
+    });
+
+    it("only returns to review through reopening", async function () {
+      await contract.connect(signers.bob).castReviewVote("a-1", false);
+      await contract.connect(carol).castReviewVote("a-1", false);
+      await expect(contract.connect(signers.bob).castReviewVote("a-1", true)).to.be.revertedWith("Review closed");
+
+      await expect(contract.connect(signers.bob).reopenAnomaly("a-1")).to.be.revertedWith("Not reporter or admin");
+      await expect(contract.connect(signers.alice).reopenAnomaly("a-1"))
+        .to.emit(contract, "AnomalyStatusChanged")
+        .withArgs(1n, AnomalyStatus.Detected, 2n);
+      await expect(contract.connect(signers.alice).reopenAnomaly("a-1")).to.be.revertedWith("Review not settled");
+
+      // Votes of the earlier round no longer count
+      await contract.connect(signers.bob).castReviewVote("a-1", true);
+      const review = await contract.getAnomalyReview(1n);
+      expect(review.confirmations).to.eq(1n);
+      expect(review.rejections).to.eq(0n);
+    });
+
+    it("lets the admin change the quorum", async function () {
+      await expect(contract.connect(signers.alice).setReviewQuorum(1)).to.be.revertedWith("Only admin");
+      await expect(contract.connect(signers.admin).setReviewQuorum(0)).to.be.revertedWith("Quorum required");
+      await expect(contract.connect(signers.admin).setReviewQuorum(1)).to.emit(contract, "ReviewQuorumUpdated").withArgs(1n);
+
+      await contract.connect(signers.bob).castReviewVote("a-1", true);
+      expect((await contract.getAnomalyReview(1n)).status).to.eq(AnomalyStatus.Verified);
+    });
+  });
+});
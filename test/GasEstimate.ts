@@ -0,0 +1,61 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { FederatedAnomalyFHE, FederatedAnomalyFHE__factory } from "../types";
+import { estimateCalls, formatFee } from "../frontend/web/src/gasEstimate";
+
+describe("estimateCalls", function () {
+  let alice: HardhatEthersSigner;
+  let contract: FederatedAnomalyFHE;
+
+  before(async function () {
+    [, alice] = await ethers.getSigners();
+    const factory = (await ethers.getContractFactory("FederatedAnomalyFHE")) as FederatedAnomalyFHE__factory;
+    contract = (await factory.deploy(4, 32)) as FederatedAnomalyFHE;
+  });
+
+  const register = (metadataURI: string) => ({
+    label: "Register",
+    payloadBytes: metadataURI.length,
+    build: () => contract.registerParticipant.populateTransaction("Alice Bank", metadataURI),
+  });
+
+  it("prices each call at the current gas price", async function () {
+    const preview = await estimateCalls(ethers.provider, alice.address, [register("ipfs://alice")]);
+    const [call] = preview.calls;
+
+    expect(preview.complete).to.eq(true);
+    expect(call.gas).to.be.greaterThan(21000n);
+    expect(call.fee).to.eq(call.gas! * preview.gasPrice);
+    expect(call.maxFee).to.be.greaterThanOrEqual(call.fee!);
+    expect(call.warnings).to.deep.eq([]);
+  });
+
+  it("warns when the stored payload makes a call expensive", async function () {
+    const small = await estimateCalls(ethers.provider, alice.address, [register("ipfs://alice")]);
+    const large = await estimateCalls(ethers.provider, alice.address, [register(`ipfs://${"a".repeat(4096)}`)]);
+
+    expect(large.calls[0].gas).to.be.greaterThan(small.calls[0].gas! * 5n);
+    expect(large.calls[0].warnings[0]).to.match(/^Stores 4\.0 KB on-chain/);
+  });
+
+  it("reports calls that would revert without failing the whole preview", async function () {
+    const preview = await estimateCalls(ethers.provider, alice.address, [
+      register("ipfs://alice"),
+      { label: "Approve", build: () => contract.approveParticipant.populateTransaction(1n) },
+    ]);
+
+    expect(preview.complete).to.eq(false);
+    expect(preview.calls[0].gas).to.be.a("bigint");
+    expect(preview.calls[1].gas).to.be.null;
+    expect(preview.calls[1].error).to.eq("The contract rejected the transaction: Only admin");
+    expect(preview.totalFee).to.eq(preview.calls[0].fee);
+  });
+
+  it("formats fees to three significant digits", function () {
+    expect(formatFee(123_456_000_000_000n, "ETH")).to.eq("0.000123 ETH");
+    expect(formatFee(ethers.parseEther("1.5"), "SEP")).to.eq("1.5 SEP");
+    expect(formatFee(ethers.parseEther("120"), "ETH")).to.eq("120 ETH");
+    expect(formatFee(100n, "ETH")).to.eq("<0.000001 ETH");
+  });
+});
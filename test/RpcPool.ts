@@ -0,0 +1,164 @@
+import { expect } from "chai";
+import { AddressInfo } from "net";
+import http from "http";
+import { RpcPool } from "../frontend/web/src/rpcPool";
+
+type Handler = (body: { id: number; method: string }, res: http.ServerResponse) => void;
+
+// Stand-in JSON-RPC endpoint whose behaviour each test can swap out
+type StandIn = { url: string; requests: number; handler: Handler; server: http.Server };
+
+const respond = (block: number, delayMs = 0): Handler => (body, res) => {
+  const result = body.method === "eth_chainId" ? "0x7a69" : `0x${block.toString(16)}`;
+  setTimeout(() => res.end(JSON.stringify({ jsonrpc: "2.0", id: body.id, result })), delayMs);
+};
+
+const serverError: Handler = (_body, res) => {
+  res.statusCode = 500;
+  res.end("internal error");
+};
+
+const rpcError: Handler = (body, res) => {
+  res.end(JSON.stringify({ jsonrpc: "2.0", id: body.id, error: { code: -32602, message: "invalid params" } }));
+};
+
+const hang: Handler = () => {};
+
+async function startStandIn(handler: Handler): Promise<StandIn> {
+  const standIn = { url: "", requests: 0, handler } as StandIn;
+  standIn.server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", chunk => (raw += chunk));
+    req.on("end", () => {
+      standIn.requests++;
+      res.setHeader("content-type", "application/json");
+      standIn.handler(JSON.parse(raw), res);
+    });
+  });
+  await new Promise<void>(resolve => standIn.server.listen(0, "127.0.0.1", resolve));
+  standIn.url = `http://127.0.0.1:${(standIn.server.address() as AddressInfo).port}`;
+  return standIn;
+}
+
+class MemoryStorage {
+  items = new Map<string, string>();
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+describe("RpcPool", function () {
+  let primary: StandIn;
+  let secondary: StandIn;
+  let pools: RpcPool[];
+
+  const createPool = (options: ConstructorParameters<typeof RpcPool>[2] = {}) => {
+    const pool = new RpcPool([primary.url, secondary.url], 31337, { requestTimeoutMs: 500, ...options });
+    pools.push(pool);
+    return pool;
+  };
+
+  before(async function () {
+    primary = await startStandIn(respond(100));
+    secondary = await startStandIn(respond(100));
+  });
+
+  beforeEach(function () {
+    pools = [];
+    primary.handler = respond(100);
+    secondary.handler = respond(100);
+    primary.requests = 0;
+    secondary.requests = 0;
+  });
+
+  afterEach(function () {
+    pools.forEach(pool => pool.destroy());
+  });
+
+  after(async function () {
+    for (const standIn of [primary, secondary]) {
+      standIn.server.closeAllConnections();
+      await new Promise(resolve => standIn.server.close(resolve));
+    }
+  });
+
+  it("fails over to the next endpoint when one returns an HTTP error", async function () {
+    primary.handler = serverError;
+    const pool = createPool();
+
+    expect(await pool.provider.getBlockNumber()).to.eq(100);
+    const [first, second] = pool.health();
+    expect(first.failures).to.eq(1);
+    expect(first.cooldownUntil).to.be.greaterThan(Date.now());
+    expect(second.failures).to.eq(0);
+  });
+
+  it("fails over when an endpoint does not answer in time", async function () {
+    primary.handler = hang;
+    const pool = createPool({ requestTimeoutMs: 200 });
+
+    expect(await pool.provider.getBlockNumber()).to.eq(100);
+    expect(pool.health()[0].failures).to.eq(1);
+  });
+
+  it("skips cooling down endpoints until their cooldown ends", async function () {
+    primary.handler = serverError;
+    const pool = createPool();
+    await pool.provider.getBlockNumber();
+    primary.handler = respond(100);
+    primary.requests = 0;
+
+    await pool.provider.getBlockNumber();
+    expect(primary.requests).to.eq(0);
+    expect(pool.ranked()[0].url).to.eq(secondary.url);
+  });
+
+  it("does not count JSON-RPC errors against the endpoint", async function () {
+    primary.handler = rpcError;
+    const pool = createPool();
+
+    await expect(pool.provider.send("eth_getBalance", ["0x00"])).to.be.rejected;
+    expect(pool.health()[0].failures).to.eq(0);
+    expect(secondary.requests).to.eq(0);
+  });
+
+  it("prefers faster endpoints after a health check", async function () {
+    primary.handler = respond(100, 150);
+    const pool = createPool();
+
+    await pool.checkHealth();
+    expect(pool.ranked().map(endpoint => endpoint.url)).to.deep.eq([secondary.url, primary.url]);
+  });
+
+  it("ranks endpoints lagging behind the best head last", async function () {
+    secondary.handler = respond(80);
+    const pool = createPool();
+
+    await pool.checkHealth();
+    expect(pool.ranked()[0].url).to.eq(primary.url);
+    expect(pool.health()[1].blockNumber).to.eq(80);
+  });
+
+  it("restores endpoint health from storage", async function () {
+    const storage = new MemoryStorage();
+    primary.handler = serverError;
+    await createPool({ storage, storageKey: "rpc-health" }).provider.getBlockNumber();
+
+    const restored = createPool({ storage, storageKey: "rpc-health" });
+    expect(restored.health()[0].failures).to.eq(1);
+    expect(restored.ranked()[0].url).to.eq(secondary.url);
+  });
+
+  it("reports every endpoint when all of them fail", async function () {
+    primary.handler = serverError;
+    secondary.handler = serverError;
+    const pool = createPool();
+
+    await expect(pool.send({ method: "eth_blockNumber", params: [], id: 1, jsonrpc: "2.0" })).to.be.rejectedWith(
+      "All RPC endpoints failed",
+    );
+  });
+});
@@ -0,0 +1,181 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { Provider, Signer } from "ethers";
+import { ethers, network } from "hardhat";
+import { FederatedAnomalyFHE, FederatedAnomalyFHE__factory } from "../types";
+import { ManagedTransaction, TransactionManager } from "../frontend/web/src/txManager";
+
+class MemoryStorage {
+  items = new Map<string, string>();
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+describe("TransactionManager", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let managers: TransactionManager[];
+
+  const createManager = (storage?: MemoryStorage, provider: Provider = ethers.provider, signer?: Signer) => {
+    const manager = new TransactionManager(provider, async () => signer ?? alice, {
+      pollIntervalMs: 20,
+      storage,
+      storageKey: storage ? "transactions" : undefined,
+    });
+    managers.push(manager);
+    return manager;
+  };
+
+  // Serves receipts as an endpoint lagging behind the chain would, missing for the first `misses` reads
+  const laggingReceipts = (misses: number) => {
+    const lagging = Object.create(ethers.provider) as typeof ethers.provider;
+    lagging.getTransactionReceipt = async (hash: string) =>
+      misses-- > 0 ? null : ethers.provider.getTransactionReceipt(hash);
+    return lagging;
+  };
+
+  // Without automine Hardhat signers default to the block gas limit, which would leave room for one transaction per block
+  const transfer = async () => ({ to: bob.address, value: 1n, gasLimit: 21000n });
+
+  async function until(manager: TransactionManager, predicate: (txs: ManagedTransaction[]) => boolean) {
+    for (let i = 0; i < 250; i++) {
+      if (predicate(manager.list())) return manager.list();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    throw new Error("Timed out waiting for the transaction manager");
+  }
+
+  const allPending = (count: number) => (txs: ManagedTransaction[]) =>
+    txs.length === count && txs.every((tx) => tx.status === "pending");
+
+  before(async function () {
+    [, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(function () {
+    managers = [];
+  });
+
+  afterEach(async function () {
+    managers.forEach((manager) => manager.stop());
+    await network.provider.send("evm_setAutomine", [true]);
+  });
+
+  it("resolves once the transaction is confirmed", async function () {
+    const manager = createManager();
+    const tx = await manager.submit("Transfer", transfer);
+
+    expect(tx.status).to.eq("confirmed");
+    expect(tx.confirmations).to.be.greaterThanOrEqual(1);
+    expect((await ethers.provider.getTransactionReceipt(tx.hash!))!.status).to.eq(1);
+  });
+
+  it("assigns consecutive nonces to queued writes", async function () {
+    await network.provider.send("evm_setAutomine", [false]);
+    const manager = createManager();
+    const nonce = await ethers.provider.getTransactionCount(alice.address, "pending");
+
+    const settled = Promise.all([manager.submit("First", transfer), manager.submit("Second", transfer)]);
+    const txs = await until(manager, allPending(2));
+    expect(txs.map((tx) => tx.nonce).sort()).to.deep.eq([nonce, nonce + 1]);
+
+    await network.provider.send("evm_mine");
+    expect((await settled).map((tx) => tx.status)).to.deep.eq(["confirmed", "confirmed"]);
+  });
+
+  it("speeds up a pending transaction by replacing it at the same nonce", async function () {
+    await network.provider.send("evm_setAutomine", [false]);
+    const manager = createManager();
+    const settled = manager.submit("Transfer", transfer);
+    const [pending] = await until(manager, allPending(1));
+
+    await manager.speedUp(pending.id);
+    const [replaced] = manager.list();
+    expect(replaced.hashes).to.have.length(2);
+    expect(BigInt(replaced.maxFeePerGas!)).to.be.greaterThan(BigInt(pending.maxFeePerGas!));
+
+    await network.provider.send("evm_mine");
+    const confirmed = await settled;
+    expect(confirmed.hash).to.eq(replaced.hashes[1]);
+    expect(confirmed.nonce).to.eq(pending.nonce);
+  });
+
+  it("cancels a pending transaction with an empty transfer to self", async function () {
+    await network.provider.send("evm_setAutomine", [false]);
+    const manager = createManager();
+    const balance = await ethers.provider.getBalance(bob.address);
+    const settled = manager.submit("Transfer", transfer);
+    const [pending] = await until(manager, allPending(1));
+
+    await manager.cancel(pending.id);
+    await network.provider.send("evm_mine");
+
+    await expect(settled).to.be.rejectedWith("Transaction was cancelled");
+    expect(manager.list()[0].status).to.eq("cancelled");
+    expect(await ethers.provider.getBalance(bob.address)).to.eq(balance);
+  });
+
+  it("rejects a replacement the wallet sent with a nonce of its own", async function () {
+    await network.provider.send("evm_setAutomine", [false]);
+    // Ignores the requested nonce and takes the next free one
+    const wallet = Object.create(alice) as HardhatEthersSigner;
+    wallet.sendTransaction = (request) => alice.sendTransaction({ ...request, nonce: undefined });
+    const manager = createManager(undefined, ethers.provider, wallet);
+    const settled = manager.submit("Transfer", transfer);
+    const [pending] = await until(manager, allPending(1));
+
+    await expect(manager.speedUp(pending.id)).to.be.rejectedWith(
+      `The wallet sent the replacement with nonce ${pending.nonce! + 1} instead of ${pending.nonce}`,
+    );
+    expect(manager.list()[0].hashes).to.deep.eq(pending.hashes);
+
+    await network.provider.send("evm_mine");
+    expect((await settled).hash).to.eq(pending.hash);
+  });
+
+  it("picks up pending transactions persisted by an earlier session", async function () {
+    await network.provider.send("evm_setAutomine", [false]);
+    const storage = new MemoryStorage();
+    const first = createManager(storage);
+    first.submit("Transfer", transfer).catch(() => {});
+    await until(first, allPending(1));
+    first.stop();
+
+    const restored = createManager(storage);
+    expect(restored.list()[0].status).to.eq("pending");
+    restored.start();
+    await network.provider.send("evm_mine");
+
+    const [tx] = await until(restored, (txs) => txs[0].status === "confirmed");
+    expect(tx.label).to.eq("Transfer");
+  });
+
+  it("does not report a mined transaction as replaced while receipts lag behind", async function () {
+    const manager = createManager(undefined, laggingReceipts(2));
+    const tx = await manager.submit("Transfer", transfer);
+
+    expect(tx.status).to.eq("confirmed");
+  });
+
+  it("reports a used nonce without any receipt as replaced once polls agree", async function () {
+    const manager = createManager(undefined, laggingReceipts(Infinity));
+
+    await expect(manager.submit("Transfer", transfer)).to.be.rejectedWith("Transaction was replaced outside this app");
+    expect(manager.list()[0].status).to.eq("replaced");
+  });
+
+  it("fails with the decoded revert reason when the call would revert", async function () {
+    const factory = (await ethers.getContractFactory("FederatedAnomalyFHE")) as FederatedAnomalyFHE__factory;
+    const contract = (await factory.deploy(4, 32)) as FederatedAnomalyFHE;
+    const manager = createManager();
+
+    await expect(
+      manager.submit("Approve", () => contract.approveParticipant.populateTransaction(1n)),
+    ).to.be.rejectedWith("Only admin");
+    expect(manager.list()[0].status).to.eq("failed");
+  });
+});
@@ -0,0 +1,2477 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace FederatedAnomalyFHE {
+  export type LegacyAnomalyStruct = {
+    key: string;
+    reporter: AddressLike;
+    batchId: BigNumberish;
+    record: BytesLike;
+    reportedAt: BigNumberish;
+    status: BigNumberish;
+  };
+
+  export type LegacyAnomalyStructOutput = [
+    key: string,
+    reporter: string,
+    batchId: bigint,
+    record: string,
+    reportedAt: bigint,
+    status: bigint
+  ] & {
+    key: string;
+    reporter: string;
+    batchId: bigint;
+    record: string;
+    reportedAt: bigint;
+    status: bigint;
+  };
+}
+
+export interface FederatedAnomalyFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "DECRYPTION_REQUEST_TTL"
+      | "DEFAULT_DETECTION_THRESHOLD"
+      | "DEFAULT_REVIEW_QUORUM"
+      | "abortRound"
+      | "activeModelVersion"
+      | "addAuditor"
+      | "admin"
+      | "anomalyCount"
+      | "anomalyIdByKey"
+      | "approveParticipant"
+      | "batchCount"
+      | "canAccessResult"
+      | "castReviewVote"
+      | "closeRound"
+      | "currentRoundId"
+      | "detectAnomalies"
+      | "detectionThresholdVersion"
+      | "encryptedBatches"
+      | "encryptedUpdates"
+      | "expireDecryptionRequest"
+      | "featureSchema"
+      | "finalizeRound"
+      | "getAnomalyReport"
+      | "getAnomalyReview"
+      | "getAuditors"
+      | "getDecryptedResult"
+      | "getDecryptionRequest"
+      | "getDetectionThreshold"
+      | "getEncryptedBatch"
+      | "getEncryptedResult"
+      | "getEncryptedUpdate"
+      | "getGlobalModel"
+      | "getModelHistory"
+      | "getParticipant"
+      | "getReviewVotes"
+      | "getTrainingRound"
+      | "globalModelVersion"
+      | "grantResultAccess"
+      | "hasContributed"
+      | "hasReviewed"
+      | "isAuditor"
+      | "migrateLegacyAnomalies"
+      | "participantCount"
+      | "participantIdOf"
+      | "participants"
+      | "pinModelVersion"
+      | "protocolId"
+      | "registerParticipant"
+      | "reinstateParticipant"
+      | "removeAuditor"
+      | "removeParticipant"
+      | "reopenAnomaly"
+      | "requestAnomalyDetection"
+      | "requestResultDisclosure"
+      | "reviewQuorum"
+      | "roundCount"
+      | "setDetectionThreshold"
+      | "setReviewQuorum"
+      | "startTrainingRound"
+      | "submitAnomalyReport"
+      | "submitEncryptedDataBatch"
+      | "submitModelUpdate"
+      | "suspendParticipant"
+      | "transferAdmin"
+      | "updateAnomalyRecord"
+      | "updateCount"
+      | "updateParticipantMetadata"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "ActiveModelChanged"
+      | "AdminTransferred"
+      | "AnomalyAppended"
+      | "AnomalyRecordUpdated"
+      | "AnomalyStatusChanged"
+      | "AuditorAdded"
+      | "AuditorRemoved"
+      | "BatchSubmitted"
+      | "DecryptionFailed"
+      | "DecryptionFulfilled"
+      | "DetectionComputed"
+      | "DetectionRequested"
+      | "DetectionThresholdUpdated"
+      | "ModelAggregated"
+      | "ModelUpdated"
+      | "ParticipantMetadataUpdated"
+      | "ParticipantRegistered"
+      | "ParticipantStatusChanged"
+      | "ResultAccessGranted"
+      | "ResultDecrypted"
+      | "ReviewQuorumUpdated"
+      | "ReviewVoteCast"
+      | "RoundStarted"
+      | "RoundStatusChanged"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "DECRYPTION_REQUEST_TTL",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DEFAULT_DETECTION_THRESHOLD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DEFAULT_REVIEW_QUORUM",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "abortRound",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "activeModelVersion",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addAuditor",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "admin", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "anomalyCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "anomalyIdByKey",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "approveParticipant",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "canAccessResult",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "castReviewVote",
+    values: [string, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeRound",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentRoundId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "detectAnomalies",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "detectionThresholdVersion",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedBatches",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedUpdates",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "expireDecryptionRequest",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "featureSchema",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "finalizeRound",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAnomalyReport",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAnomalyReview",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAuditors",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDecryptedResult",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDecryptionRequest",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDetectionThreshold",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedResult",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedUpdate",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getGlobalModel",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getModelHistory",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getParticipant",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getReviewVotes",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTrainingRound",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "globalModelVersion",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantResultAccess",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasContributed",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasReviewed",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAuditor",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "migrateLegacyAnomalies",
+    values: [FederatedAnomalyFHE.LegacyAnomalyStruct[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "participantCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "participantIdOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "participants",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pinModelVersion",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerParticipant",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reinstateParticipant",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeAuditor",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeParticipant",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reopenAnomaly",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestAnomalyDetection",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestResultDisclosure",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reviewQuorum",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "roundCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDetectionThreshold",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setReviewQuorum",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "startTrainingRound",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitAnomalyReport",
+    values: [BytesLike[], BytesLike, BytesLike, BigNumberish, string, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedDataBatch",
+    values: [BytesLike[], BytesLike, BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitModelUpdate",
+    values: [BytesLike[], BytesLike, BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "suspendParticipant",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferAdmin",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateAnomalyRecord",
+    values: [string, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateParticipantMetadata",
+    values: [string, string]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "DECRYPTION_REQUEST_TTL",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_DETECTION_THRESHOLD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_REVIEW_QUORUM",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "abortRound", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "activeModelVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "addAuditor", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "admin", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "anomalyCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "anomalyIdByKey",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "approveParticipant",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batchCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "canAccessResult",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "castReviewVote",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "closeRound", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "currentRoundId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "detectAnomalies",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "detectionThresholdVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedBatches",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedUpdates",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "expireDecryptionRequest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "featureSchema",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "finalizeRound",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAnomalyReport",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAnomalyReview",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAuditors",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDecryptedResult",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDecryptionRequest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDetectionThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedResult",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedUpdate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getGlobalModel",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getModelHistory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getParticipant",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getReviewVotes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTrainingRound",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "globalModelVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "grantResultAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasContributed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasReviewed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isAuditor", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "migrateLegacyAnomalies",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "participantCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "participantIdOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "participants",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pinModelVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "registerParticipant",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reinstateParticipant",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeAuditor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeParticipant",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reopenAnomaly",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestAnomalyDetection",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestResultDisclosure",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reviewQuorum",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "roundCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setDetectionThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setReviewQuorum",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "startTrainingRound",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitAnomalyReport",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedDataBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitModelUpdate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "suspendParticipant",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferAdmin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateAnomalyRecord",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateParticipantMetadata",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace ActiveModelChangedEvent {
+  export type InputTuple = [
+    version: BigNumberish,
+    previousVersion: BigNumberish
+  ];
+  export type OutputTuple = [version: bigint, previousVersion: bigint];
+  export interface OutputObject {
+    version: bigint;
+    previousVersion: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AdminTransferredEvent {
+  export type InputTuple = [previousAdmin: AddressLike, newAdmin: AddressLike];
+  export type OutputTuple = [previousAdmin: string, newAdmin: string];
+  export interface OutputObject {
+    previousAdmin: string;
+    newAdmin: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AnomalyAppendedEvent {
+  export type InputTuple = [
+    anomalyId: BigNumberish,
+    batchId: BigNumberish,
+    reporter: AddressLike,
+    key: string,
+    record: BytesLike
+  ];
+  export type OutputTuple = [
+    anomalyId: bigint,
+    batchId: bigint,
+    reporter: string,
+    key: string,
+    record: string
+  ];
+  export interface OutputObject {
+    anomalyId: bigint;
+    batchId: bigint;
+    reporter: string;
+    key: string;
+    record: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AnomalyRecordUpdatedEvent {
+  export type InputTuple = [
+    anomalyId: BigNumberish,
+    updatedBy: AddressLike,
+    key: string,
+    record: BytesLike
+  ];
+  export type OutputTuple = [
+    anomalyId: bigint,
+    updatedBy: string,
+    key: string,
+    record: string
+  ];
+  export interface OutputObject {
+    anomalyId: bigint;
+    updatedBy: string;
+    key: string;
+    record: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AnomalyStatusChangedEvent {
+  export type InputTuple = [
+    anomalyId: BigNumberish,
+    status: BigNumberish,
+    round: BigNumberish
+  ];
+  export type OutputTuple = [anomalyId: bigint, status: bigint, round: bigint];
+  export interface OutputObject {
+    anomalyId: bigint;
+    status: bigint;
+    round: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuditorAddedEvent {
+  export type InputTuple = [auditor: AddressLike];
+  export type OutputTuple = [auditor: string];
+  export interface OutputObject {
+    auditor: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuditorRemovedEvent {
+  export type InputTuple = [auditor: AddressLike];
+  export type OutputTuple = [auditor: string];
+  export interface OutputObject {
+    auditor: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchSubmittedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    participantId: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    participantId: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    participantId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFailedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    resultId: BigNumberish,
+    reason: string
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    resultId: bigint,
+    reason: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    resultId: bigint;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DetectionComputedEvent {
+  export type InputTuple = [
+    resultId: BigNumberish,
+    thresholdVersion: BigNumberish
+  ];
+  export type OutputTuple = [resultId: bigint, thresholdVersion: bigint];
+  export interface OutputObject {
+    resultId: bigint;
+    thresholdVersion: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DetectionRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, batchId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DetectionThresholdUpdatedEvent {
+  export type InputTuple = [
+    version: BigNumberish,
+    updatedBy: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    version: bigint,
+    updatedBy: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    version: bigint;
+    updatedBy: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ModelAggregatedEvent {
+  export type InputTuple = [
+    roundId: BigNumberish,
+    version: BigNumberish,
+    contributorCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    roundId: bigint,
+    version: bigint,
+    contributorCount: bigint
+  ];
+  export interface OutputObject {
+    roundId: bigint;
+    version: bigint;
+    contributorCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ModelUpdatedEvent {
+  export type InputTuple = [
+    updateId: BigNumberish,
+    participantId: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    updateId: bigint,
+    participantId: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    updateId: bigint;
+    participantId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ParticipantMetadataUpdatedEvent {
+  export type InputTuple = [
+    participantId: BigNumberish,
+    organization: string,
+    metadataURI: string
+  ];
+  export type OutputTuple = [
+    participantId: bigint,
+    organization: string,
+    metadataURI: string
+  ];
+  export interface OutputObject {
+    participantId: bigint;
+    organization: string;
+    metadataURI: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ParticipantRegisteredEvent {
+  export type InputTuple = [
+    participantId: BigNumberish,
+    account: AddressLike,
+    organization: string
+  ];
+  export type OutputTuple = [
+    participantId: bigint,
+    account: string,
+    organization: string
+  ];
+  export interface OutputObject {
+    participantId: bigint;
+    account: string;
+    organization: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ParticipantStatusChangedEvent {
+  export type InputTuple = [participantId: BigNumberish, status: BigNumberish];
+  export type OutputTuple = [participantId: bigint, status: bigint];
+  export interface OutputObject {
+    participantId: bigint;
+    status: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ResultAccessGrantedEvent {
+  export type InputTuple = [resultId: BigNumberish, account: AddressLike];
+  export type OutputTuple = [resultId: bigint, account: string];
+  export interface OutputObject {
+    resultId: bigint;
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ResultDecryptedEvent {
+  export type InputTuple = [resultId: BigNumberish];
+  export type OutputTuple = [resultId: bigint];
+  export interface OutputObject {
+    resultId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewQuorumUpdatedEvent {
+  export type InputTuple = [quorum: BigNumberish];
+  export type OutputTuple = [quorum: bigint];
+  export interface OutputObject {
+    quorum: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewVoteCastEvent {
+  export type InputTuple = [
+    anomalyId: BigNumberish,
+    round: BigNumberish,
+    voter: AddressLike,
+    participantId: BigNumberish,
+    confirm: boolean,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    anomalyId: bigint,
+    round: bigint,
+    voter: string,
+    participantId: bigint,
+    confirm: boolean,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    anomalyId: bigint;
+    round: bigint;
+    voter: string;
+    participantId: bigint;
+    confirm: boolean;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoundStartedEvent {
+  export type InputTuple = [
+    roundId: BigNumberish,
+    minParticipants: BigNumberish,
+    deadline: BigNumberish
+  ];
+  export type OutputTuple = [
+    roundId: bigint,
+    minParticipants: bigint,
+    deadline: bigint
+  ];
+  export interface OutputObject {
+    roundId: bigint;
+    minParticipants: bigint;
+    deadline: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoundStatusChangedEvent {
+  export type InputTuple = [roundId: BigNumberish, status: BigNumberish];
+  export type OutputTuple = [roundId: bigint, status: bigint];
+  export interface OutputObject {
+    roundId: bigint;
+    status: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface FederatedAnomalyFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): FederatedAnomalyFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: FederatedAnomalyFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  DECRYPTION_REQUEST_TTL: TypedContractMethod<[], [bigint], "view">;
+
+  DEFAULT_DETECTION_THRESHOLD: TypedContractMethod<[], [bigint], "view">;
+
+  DEFAULT_REVIEW_QUORUM: TypedContractMethod<[], [bigint], "view">;
+
+  abortRound: TypedContractMethod<[], [void], "nonpayable">;
+
+  activeModelVersion: TypedContractMethod<[], [bigint], "view">;
+
+  addAuditor: TypedContractMethod<[auditor: AddressLike], [void], "nonpayable">;
+
+  admin: TypedContractMethod<[], [string], "view">;
+
+  anomalyCount: TypedContractMethod<[], [bigint], "view">;
+
+  anomalyIdByKey: TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+
+  approveParticipant: TypedContractMethod<
+    [participantId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  batchCount: TypedContractMethod<[], [bigint], "view">;
+
+  canAccessResult: TypedContractMethod<
+    [resultId: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  castReviewVote: TypedContractMethod<
+    [key: string, confirm: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  closeRound: TypedContractMethod<[], [void], "nonpayable">;
+
+  currentRoundId: TypedContractMethod<[], [bigint], "view">;
+
+  detectAnomalies: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  detectionThresholdVersion: TypedContractMethod<[], [bigint], "view">;
+
+  encryptedBatches: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, bigint] & {
+        batchId: bigint;
+        encryptedLabels: string;
+        participantId: bigint;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  encryptedUpdates: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, string, bigint, bigint] & {
+        updateId: bigint;
+        roundId: bigint;
+        encryptedBias: string;
+        participantId: bigint;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  expireDecryptionRequest: TypedContractMethod<
+    [requestId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  featureSchema: TypedContractMethod<
+    [],
+    [[bigint, bigint] & { dimension: bigint; bitWidth: bigint }],
+    "view"
+  >;
+
+  finalizeRound: TypedContractMethod<[], [bigint], "nonpayable">;
+
+  getAnomalyReport: TypedContractMethod<
+    [anomalyId: BigNumberish],
+    [
+      [string, bigint, bigint, string, string, bigint, bigint] & {
+        key: string;
+        batchId: bigint;
+        participantId: bigint;
+        reporter: string;
+        record: string;
+        reportedAt: bigint;
+        updatedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getAnomalyReview: TypedContractMethod<
+    [anomalyId: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        status: bigint;
+        reviewRound: bigint;
+        confirmations: bigint;
+        rejections: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getAuditors: TypedContractMethod<[], [string[]], "view">;
+
+  getDecryptedResult: TypedContractMethod<
+    [resultId: BigNumberish],
+    [
+      [bigint, boolean, boolean, bigint] & {
+        anomalyScore: bigint;
+        isAnomaly: boolean;
+        isRevealed: boolean;
+        thresholdVersion: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getDecryptionRequest: TypedContractMethod<
+    [requestId: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        resultId: bigint;
+        status: bigint;
+        requestedAt: bigint;
+        expiresAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getDetectionThreshold: TypedContractMethod<
+    [version: BigNumberish],
+    [[string, bigint] & { threshold: string; updatedAt: bigint }],
+    "view"
+  >;
+
+  getEncryptedBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [
+      [string[], string, bigint, bigint] & {
+        features: string[];
+        labels: string;
+        participantId: bigint;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getEncryptedResult: TypedContractMethod<
+    [resultId: BigNumberish],
+    [
+      [string, string, bigint] & {
+        score: string;
+        isAnomaly: string;
+        thresholdVersion: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getEncryptedUpdate: TypedContractMethod<
+    [updateId: BigNumberish],
+    [
+      [string[], string, bigint, bigint, bigint] & {
+        weights: string[];
+        bias: string;
+        participantId: bigint;
+        timestamp: bigint;
+        roundId: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getGlobalModel: TypedContractMethod<
+    [version: BigNumberish],
+    [
+      [bigint, string[], string, bigint, bigint[]] & {
+        roundId: bigint;
+        weights: string[];
+        bias: string;
+        publishedAt: bigint;
+        contributors: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  getModelHistory: TypedContractMethod<
+    [],
+    [
+      [bigint[], bigint[], bigint[]] & {
+        roundIds: bigint[];
+        publishedAts: bigint[];
+        contributorCounts: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  getParticipant: TypedContractMethod<
+    [participantId: BigNumberish],
+    [
+      [string, string, string, bigint, bigint] & {
+        account: string;
+        organization: string;
+        metadataURI: string;
+        status: bigint;
+        registeredAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getReviewVotes: TypedContractMethod<
+    [anomalyId: BigNumberish, round: BigNumberish],
+    [
+      [string[], bigint[], boolean[], bigint[]] & {
+        voters: string[];
+        participantIds: bigint[];
+        confirms: boolean[];
+        votedAts: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  getTrainingRound: TypedContractMethod<
+    [roundId: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, bigint, bigint[], bigint] & {
+        status: bigint;
+        startedAt: bigint;
+        deadline: bigint;
+        minParticipants: bigint;
+        finalizedAt: bigint;
+        contributors: bigint[];
+        modelVersion: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  globalModelVersion: TypedContractMethod<[], [bigint], "view">;
+
+  grantResultAccess: TypedContractMethod<
+    [resultId: BigNumberish, auditor: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  hasContributed: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  hasReviewed: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish, arg2: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  isAuditor: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  migrateLegacyAnomalies: TypedContractMethod<
+    [legacy: FederatedAnomalyFHE.LegacyAnomalyStruct[]],
+    [bigint],
+    "nonpayable"
+  >;
+
+  participantCount: TypedContractMethod<[], [bigint], "view">;
+
+  participantIdOf: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  participants: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string, bigint, bigint] & {
+        participantId: bigint;
+        account: string;
+        organization: string;
+        metadataURI: string;
+        status: bigint;
+        registeredAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  pinModelVersion: TypedContractMethod<
+    [version: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  registerParticipant: TypedContractMethod<
+    [organization: string, metadataURI: string],
+    [bigint],
+    "nonpayable"
+  >;
+
+  reinstateParticipant: TypedContractMethod<
+    [participantId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  removeAuditor: TypedContractMethod<
+    [auditor: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  removeParticipant: TypedContractMethod<
+    [participantId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  reopenAnomaly: TypedContractMethod<[key: string], [void], "nonpayable">;
+
+  requestAnomalyDetection: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestResultDisclosure: TypedContractMethod<
+    [resultId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  reviewQuorum: TypedContractMethod<[], [bigint], "view">;
+
+  roundCount: TypedContractMethod<[], [bigint], "view">;
+
+  setDetectionThreshold: TypedContractMethod<
+    [thresholdInput: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setReviewQuorum: TypedContractMethod<
+    [quorum: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  startTrainingRound: TypedContractMethod<
+    [minParticipants: BigNumberish, duration: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  submitAnomalyReport: TypedContractMethod<
+    [
+      featureInputs: BytesLike[],
+      labelsInput: BytesLike,
+      inputProof: BytesLike,
+      participantId: BigNumberish,
+      key: string,
+      record: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  submitEncryptedDataBatch: TypedContractMethod<
+    [
+      featureInputs: BytesLike[],
+      labelsInput: BytesLike,
+      inputProof: BytesLike,
+      participantId: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitModelUpdate: TypedContractMethod<
+    [
+      weightInputs: BytesLike[],
+      biasInput: BytesLike,
+      inputProof: BytesLike,
+      participantId: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  suspendParticipant: TypedContractMethod<
+    [participantId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  transferAdmin: TypedContractMethod<
+    [newAdmin: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  updateAnomalyRecord: TypedContractMethod<
+    [key: string, record: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  updateCount: TypedContractMethod<[], [bigint], "view">;
+
+  updateParticipantMetadata: TypedContractMethod<
+    [organization: string, metadataURI: string],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "DECRYPTION_REQUEST_TTL"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "DEFAULT_DETECTION_THRESHOLD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "DEFAULT_REVIEW_QUORUM"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "abortRound"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "activeModelVersion"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addAuditor"
+  ): TypedContractMethod<[auditor: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "admin"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "anomalyCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "anomalyIdByKey"
+  ): TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "approveParticipant"
+  ): TypedContractMethod<[participantId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "batchCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "canAccessResult"
+  ): TypedContractMethod<
+    [resultId: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "castReviewVote"
+  ): TypedContractMethod<[key: string, confirm: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeRound"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "currentRoundId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "detectAnomalies"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "detectionThresholdVersion"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "encryptedBatches"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, bigint] & {
+        batchId: bigint;
+        encryptedLabels: string;
+        participantId: bigint;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedUpdates"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, string, bigint, bigint] & {
+        updateId: bigint;
+        roundId: bigint;
+        encryptedBias: string;
+        participantId: bigint;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "expireDecryptionRequest"
+  ): TypedContractMethod<[requestId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "featureSchema"
+  ): TypedContractMethod<
+    [],
+    [[bigint, bigint] & { dimension: bigint; bitWidth: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "finalizeRound"
+  ): TypedContractMethod<[], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getAnomalyReport"
+  ): TypedContractMethod<
+    [anomalyId: BigNumberish],
+    [
+      [string, bigint, bigint, string, string, bigint, bigint] & {
+        key: string;
+        batchId: bigint;
+        participantId: bigint;
+        reporter: string;
+        record: string;
+        reportedAt: bigint;
+        updatedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAnomalyReview"
+  ): TypedContractMethod<
+    [anomalyId: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        status: bigint;
+        reviewRound: bigint;
+        confirmations: bigint;
+        rejections: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAuditors"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getDecryptedResult"
+  ): TypedContractMethod<
+    [resultId: BigNumberish],
+    [
+      [bigint, boolean, boolean, bigint] & {
+        anomalyScore: bigint;
+        isAnomaly: boolean;
+        isRevealed: boolean;
+        thresholdVersion: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDecryptionRequest"
+  ): TypedContractMethod<
+    [requestId: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        resultId: bigint;
+        status: bigint;
+        requestedAt: bigint;
+        expiresAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDetectionThreshold"
+  ): TypedContractMethod<
+    [version: BigNumberish],
+    [[string, bigint] & { threshold: string; updatedAt: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedBatch"
+  ): TypedContractMethod<
+    [batchId: BigNumberish],
+    [
+      [string[], string, bigint, bigint] & {
+        features: string[];
+        labels: string;
+        participantId: bigint;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedResult"
+  ): TypedContractMethod<
+    [resultId: BigNumberish],
+    [
+      [string, string, bigint] & {
+        score: string;
+        isAnomaly: string;
+        thresholdVersion: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedUpdate"
+  ): TypedContractMethod<
+    [updateId: BigNumberish],
+    [
+      [string[], string, bigint, bigint, bigint] & {
+        weights: string[];
+        bias: string;
+        participantId: bigint;
+        timestamp: bigint;
+        roundId: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getGlobalModel"
+  ): TypedContractMethod<
+    [version: BigNumberish],
+    [
+      [bigint, string[], string, bigint, bigint[]] & {
+        roundId: bigint;
+        weights: string[];
+        bias: string;
+        publishedAt: bigint;
+        contributors: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getModelHistory"
+  ): TypedContractMethod<
+    [],
+    [
+      [bigint[], bigint[], bigint[]] & {
+        roundIds: bigint[];
+        publishedAts: bigint[];
+        contributorCounts: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getParticipant"
+  ): TypedContractMethod<
+    [participantId: BigNumberish],
+    [
+      [string, string, string, bigint, bigint] & {
+        account: string;
+        organization: string;
+        metadataURI: string;
+        status: bigint;
+        registeredAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getReviewVotes"
+  ): TypedContractMethod<
+    [anomalyId: BigNumberish, round: BigNumberish],
+    [
+      [string[], bigint[], boolean[], bigint[]] & {
+        voters: string[];
+        participantIds: bigint[];
+        confirms: boolean[];
+        votedAts: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTrainingRound"
+  ): TypedContractMethod<
+    [roundId: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, bigint, bigint[], bigint] & {
+        status: bigint;
+        startedAt: bigint;
+        deadline: bigint;
+        minParticipants: bigint;
+        finalizedAt: bigint;
+        contributors: bigint[];
+        modelVersion: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "globalModelVersion"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "grantResultAccess"
+  ): TypedContractMethod<
+    [resultId: BigNumberish, auditor: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasContributed"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasReviewed"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish, arg2: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isAuditor"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "migrateLegacyAnomalies"
+  ): TypedContractMethod<
+    [legacy: FederatedAnomalyFHE.LegacyAnomalyStruct[]],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "participantCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "participantIdOf"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "participants"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string, bigint, bigint] & {
+        participantId: bigint;
+        account: string;
+        organization: string;
+        metadataURI: string;
+        status: bigint;
+        registeredAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pinModelVersion"
+  ): TypedContractMethod<[version: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "registerParticipant"
+  ): TypedContractMethod<
+    [organization: string, metadataURI: string],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "reinstateParticipant"
+  ): TypedContractMethod<[participantId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "removeAuditor"
+  ): TypedContractMethod<[auditor: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "removeParticipant"
+  ): TypedContractMethod<[participantId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "reopenAnomaly"
+  ): TypedContractMethod<[key: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestAnomalyDetection"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestResultDisclosure"
+  ): TypedContractMethod<[resultId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "reviewQuorum"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "roundCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "setDetectionThreshold"
+  ): TypedContractMethod<
+    [thresholdInput: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setReviewQuorum"
+  ): TypedContractMethod<[quorum: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "startTrainingRound"
+  ): TypedContractMethod<
+    [minParticipants: BigNumberish, duration: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitAnomalyReport"
+  ): TypedContractMethod<
+    [
+      featureInputs: BytesLike[],
+      labelsInput: BytesLike,
+      inputProof: BytesLike,
+      participantId: BigNumberish,
+      key: string,
+      record: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitEncryptedDataBatch"
+  ): TypedContractMethod<
+    [
+      featureInputs: BytesLike[],
+      labelsInput: BytesLike,
+      inputProof: BytesLike,
+      participantId: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitModelUpdate"
+  ): TypedContractMethod<
+    [
+      weightInputs: BytesLike[],
+      biasInput: BytesLike,
+      inputProof: BytesLike,
+      participantId: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "suspendParticipant"
+  ): TypedContractMethod<[participantId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "transferAdmin"
+  ): TypedContractMethod<[newAdmin: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "updateAnomalyRecord"
+  ): TypedContractMethod<
+    [key: string, record: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "updateParticipantMetadata"
+  ): TypedContractMethod<
+    [organization: string, metadataURI: string],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "ActiveModelChanged"
+  ): TypedContractEvent<
+    ActiveModelChangedEvent.InputTuple,
+    ActiveModelChangedEvent.OutputTuple,
+    ActiveModelChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AdminTransferred"
+  ): TypedContractEvent<
+    AdminTransferredEvent.InputTuple,
+    AdminTransferredEvent.OutputTuple,
+    AdminTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "AnomalyAppended"
+  ): TypedContractEvent<
+    AnomalyAppendedEvent.InputTuple,
+    AnomalyAppendedEvent.OutputTuple,
+    AnomalyAppendedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AnomalyRecordUpdated"
+  ): TypedContractEvent<
+    AnomalyRecordUpdatedEvent.InputTuple,
+    AnomalyRecordUpdatedEvent.OutputTuple,
+    AnomalyRecordUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AnomalyStatusChanged"
+  ): TypedContractEvent<
+    AnomalyStatusChangedEvent.InputTuple,
+    AnomalyStatusChangedEvent.OutputTuple,
+    AnomalyStatusChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuditorAdded"
+  ): TypedContractEvent<
+    AuditorAddedEvent.InputTuple,
+    AuditorAddedEvent.OutputTuple,
+    AuditorAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuditorRemoved"
+  ): TypedContractEvent<
+    AuditorRemovedEvent.InputTuple,
+    AuditorRemovedEvent.OutputTuple,
+    AuditorRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchSubmitted"
+  ): TypedContractEvent<
+    BatchSubmittedEvent.InputTuple,
+    BatchSubmittedEvent.OutputTuple,
+    BatchSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFailed"
+  ): TypedContractEvent<
+    DecryptionFailedEvent.InputTuple,
+    DecryptionFailedEvent.OutputTuple,
+    DecryptionFailedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DetectionComputed"
+  ): TypedContractEvent<
+    DetectionComputedEvent.InputTuple,
+    DetectionComputedEvent.OutputTuple,
+    DetectionComputedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DetectionRequested"
+  ): TypedContractEvent<
+    DetectionRequestedEvent.InputTuple,
+    DetectionRequestedEvent.OutputTuple,
+    DetectionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DetectionThresholdUpdated"
+  ): TypedContractEvent<
+    DetectionThresholdUpdatedEvent.InputTuple,
+    DetectionThresholdUpdatedEvent.OutputTuple,
+    DetectionThresholdUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ModelAggregated"
+  ): TypedContractEvent<
+    ModelAggregatedEvent.InputTuple,
+    ModelAggregatedEvent.OutputTuple,
+    ModelAggregatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ModelUpdated"
+  ): TypedContractEvent<
+    ModelUpdatedEvent.InputTuple,
+    ModelUpdatedEvent.OutputTuple,
+    ModelUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ParticipantMetadataUpdated"
+  ): TypedContractEvent<
+    ParticipantMetadataUpdatedEvent.InputTuple,
+    ParticipantMetadataUpdatedEvent.OutputTuple,
+    ParticipantMetadataUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ParticipantRegistered"
+  ): TypedContractEvent<
+    ParticipantRegisteredEvent.InputTuple,
+    ParticipantRegisteredEvent.OutputTuple,
+    ParticipantRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ParticipantStatusChanged"
+  ): TypedContractEvent<
+    ParticipantStatusChangedEvent.InputTuple,
+    ParticipantStatusChangedEvent.OutputTuple,
+    ParticipantStatusChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ResultAccessGranted"
+  ): TypedContractEvent<
+    ResultAccessGrantedEvent.InputTuple,
+    ResultAccessGrantedEvent.OutputTuple,
+    ResultAccessGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ResultDecrypted"
+  ): TypedContractEvent<
+    ResultDecryptedEvent.InputTuple,
+    ResultDecryptedEvent.OutputTuple,
+    ResultDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewQuorumUpdated"
+  ): TypedContractEvent<
+    ReviewQuorumUpdatedEvent.InputTuple,
+    ReviewQuorumUpdatedEvent.OutputTuple,
+    ReviewQuorumUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewVoteCast"
+  ): TypedContractEvent<
+    ReviewVoteCastEvent.InputTuple,
+    ReviewVoteCastEvent.OutputTuple,
+    ReviewVoteCastEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoundStarted"
+  ): TypedContractEvent<
+    RoundStartedEvent.InputTuple,
+    RoundStartedEvent.OutputTuple,
+    RoundStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoundStatusChanged"
+  ): TypedContractEvent<
+    RoundStatusChangedEvent.InputTuple,
+    RoundStatusChangedEvent.OutputTuple,
+    RoundStatusChangedEvent.OutputObject
+  >;
+
+  filters: {
+    "ActiveModelChanged(uint256,uint256)": TypedContractEvent<
+      ActiveModelChangedEvent.InputTuple,
+      ActiveModelChangedEvent.OutputTuple,
+      ActiveModelChangedEvent.OutputObject
+    >;
+    ActiveModelChanged: TypedContractEvent<
+      ActiveModelChangedEvent.InputTuple,
+      ActiveModelChangedEvent.OutputTuple,
+      ActiveModelChangedEvent.OutputObject
+    >;
+
+    "AdminTransferred(address,address)": TypedContractEvent<
+      AdminTransferredEvent.InputTuple,
+      AdminTransferredEvent.OutputTuple,
+      AdminTransferredEvent.OutputObject
+    >;
+    AdminTransferred: TypedContractEvent<
+      AdminTransferredEvent.InputTuple,
+      AdminTransferredEvent.OutputTuple,
+      AdminTransferredEvent.OutputObject
+    >;
+
+    "AnomalyAppended(uint256,uint256,address,string,bytes)": TypedContractEvent<
+      AnomalyAppendedEvent.InputTuple,
+      AnomalyAppendedEvent.OutputTuple,
+      AnomalyAppendedEvent.OutputObject
+    >;
+    AnomalyAppended: TypedContractEvent<
+      AnomalyAppendedEvent.InputTuple,
+      AnomalyAppendedEvent.OutputTuple,
+      AnomalyAppendedEvent.OutputObject
+    >;
+
+    "AnomalyRecordUpdated(uint256,address,string,bytes)": TypedContractEvent<
+      AnomalyRecordUpdatedEvent.InputTuple,
+      AnomalyRecordUpdatedEvent.OutputTuple,
+      AnomalyRecordUpdatedEvent.OutputObject
+    >;
+    AnomalyRecordUpdated: TypedContractEvent<
+      AnomalyRecordUpdatedEvent.InputTuple,
+      AnomalyRecordUpdatedEvent.OutputTuple,
+      AnomalyRecordUpdatedEvent.OutputObject
+    >;
+
+    "AnomalyStatusChanged(uint256,uint8,uint256)": TypedContractEvent<
+      AnomalyStatusChangedEvent.InputTuple,
+      AnomalyStatusChangedEvent.OutputTuple,
+      AnomalyStatusChangedEvent.OutputObject
+    >;
+    AnomalyStatusChanged: TypedContractEvent<
+      AnomalyStatusChangedEvent.InputTuple,
+      AnomalyStatusChangedEvent.OutputTuple,
+      AnomalyStatusChangedEvent.OutputObject
+    >;
+
+    "AuditorAdded(address)": TypedContractEvent<
+      AuditorAddedEvent.InputTuple,
+      AuditorAddedEvent.OutputTuple,
+      AuditorAddedEvent.OutputObject
+    >;
+    AuditorAdded: TypedContractEvent<
+      AuditorAddedEvent.InputTuple,
+      AuditorAddedEvent.OutputTuple,
+      AuditorAddedEvent.OutputObject
+    >;
+
+    "AuditorRemoved(address)": TypedContractEvent<
+      AuditorRemovedEvent.InputTuple,
+      AuditorRemovedEvent.OutputTuple,
+      AuditorRemovedEvent.OutputObject
+    >;
+    AuditorRemoved: TypedContractEvent<
+      AuditorRemovedEvent.InputTuple,
+      AuditorRemovedEvent.OutputTuple,
+      AuditorRemovedEvent.OutputObject
+    >;
+
+    "BatchSubmitted(uint256,uint256,uint256)": TypedContractEvent<
+      BatchSubmittedEvent.InputTuple,
+      BatchSubmittedEvent.OutputTuple,
+      BatchSubmittedEvent.OutputObject
+    >;
+    BatchSubmitted: TypedContractEvent<
+      BatchSubmittedEvent.InputTuple,
+      BatchSubmittedEvent.OutputTuple,
+      BatchSubmittedEvent.OutputObject
+    >;
+
+    "DecryptionFailed(uint256,uint256,string)": TypedContractEvent<
+      DecryptionFailedEvent.InputTuple,
+      DecryptionFailedEvent.OutputTuple,
+      DecryptionFailedEvent.OutputObject
+    >;
+    DecryptionFailed: TypedContractEvent<
+      DecryptionFailedEvent.InputTuple,
+      DecryptionFailedEvent.OutputTuple,
+      DecryptionFailedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DetectionComputed(uint256,uint256)": TypedContractEvent<
+      DetectionComputedEvent.InputTuple,
+      DetectionComputedEvent.OutputTuple,
+      DetectionComputedEvent.OutputObject
+    >;
+    DetectionComputed: TypedContractEvent<
+      DetectionComputedEvent.InputTuple,
+      DetectionComputedEvent.OutputTuple,
+      DetectionComputedEvent.OutputObject
+    >;
+
+    "DetectionRequested(uint256,uint256)": TypedContractEvent<
+      DetectionRequestedEvent.InputTuple,
+      DetectionRequestedEvent.OutputTuple,
+      DetectionRequestedEvent.OutputObject
+    >;
+    DetectionRequested: TypedContractEvent<
+      DetectionRequestedEvent.InputTuple,
+      DetectionRequestedEvent.OutputTuple,
+      DetectionRequestedEvent.OutputObject
+    >;
+
+    "DetectionThresholdUpdated(uint256,address,uint256)": TypedContractEvent<
+      DetectionThresholdUpdatedEvent.InputTuple,
+      DetectionThresholdUpdatedEvent.OutputTuple,
+      DetectionThresholdUpdatedEvent.OutputObject
+    >;
+    DetectionThresholdUpdated: TypedContractEvent<
+      DetectionThresholdUpdatedEvent.InputTuple,
+      DetectionThresholdUpdatedEvent.OutputTuple,
+      DetectionThresholdUpdatedEvent.OutputObject
+    >;
+
+    "ModelAggregated(uint256,uint256,uint256)": TypedContractEvent<
+      ModelAggregatedEvent.InputTuple,
+      ModelAggregatedEvent.OutputTuple,
+      ModelAggregatedEvent.OutputObject
+    >;
+    ModelAggregated: TypedContractEvent<
+      ModelAggregatedEvent.InputTuple,
+      ModelAggregatedEvent.OutputTuple,
+      ModelAggregatedEvent.OutputObject
+    >;
+
+    "ModelUpdated(uint256,uint256,uint256)": TypedContractEvent<
+      ModelUpdatedEvent.InputTuple,
+      ModelUpdatedEvent.OutputTuple,
+      ModelUpdatedEvent.OutputObject
+    >;
+    ModelUpdated: TypedContractEvent<
+      ModelUpdatedEvent.InputTuple,
+      ModelUpdatedEvent.OutputTuple,
+      ModelUpdatedEvent.OutputObject
+    >;
+
+    "ParticipantMetadataUpdated(uint256,string,string)": TypedContractEvent<
+      ParticipantMetadataUpdatedEvent.InputTuple,
+      ParticipantMetadataUpdatedEvent.OutputTuple,
+      ParticipantMetadataUpdatedEvent.OutputObject
+    >;
+    ParticipantMetadataUpdated: TypedContractEvent<
+      ParticipantMetadataUpdatedEvent.InputTuple,
+      ParticipantMetadataUpdatedEvent.OutputTuple,
+      ParticipantMetadataUpdatedEvent.OutputObject
+    >;
+
+    "ParticipantRegistered(uint256,address,string)": TypedContractEvent<
+      ParticipantRegisteredEvent.InputTuple,
+      ParticipantRegisteredEvent.OutputTuple,
+      ParticipantRegisteredEvent.OutputObject
+    >;
+    ParticipantRegistered: TypedContractEvent<
+      ParticipantRegisteredEvent.InputTuple,
+      ParticipantRegisteredEvent.OutputTuple,
+      ParticipantRegisteredEvent.OutputObject
+    >;
+
+    "ParticipantStatusChanged(uint256,uint8)": TypedContractEvent<
+      ParticipantStatusChangedEvent.InputTuple,
+      ParticipantStatusChangedEvent.OutputTuple,
+      ParticipantStatusChangedEvent.OutputObject
+    >;
+    ParticipantStatusChanged: TypedContractEvent<
+      ParticipantStatusChangedEvent.InputTuple,
+      ParticipantStatusChangedEvent.OutputTuple,
+      ParticipantStatusChangedEvent.OutputObject
+    >;
+
+    "ResultAccessGranted(uint256,address)": TypedContractEvent<
+      ResultAccessGrantedEvent.InputTuple,
+      ResultAccessGrantedEvent.OutputTuple,
+      ResultAccessGrantedEvent.OutputObject
+    >;
+    ResultAccessGranted: TypedContractEvent<
+      ResultAccessGrantedEvent.InputTuple,
+      ResultAccessGrantedEvent.OutputTuple,
+      ResultAccessGrantedEvent.OutputObject
+    >;
+
+    "ResultDecrypted(uint256)": TypedContractEvent<
+      ResultDecryptedEvent.InputTuple,
+      ResultDecryptedEvent.OutputTuple,
+      ResultDecryptedEvent.OutputObject
+    >;
+    ResultDecrypted: TypedContractEvent<
+      ResultDecryptedEvent.InputTuple,
+      ResultDecryptedEvent.OutputTuple,
+      ResultDecryptedEvent.OutputObject
+    >;
+
+    "ReviewQuorumUpdated(uint64)": TypedContractEvent<
+      ReviewQuorumUpdatedEvent.InputTuple,
+      ReviewQuorumUpdatedEvent.OutputTuple,
+      ReviewQuorumUpdatedEvent.OutputObject
+    >;
+    ReviewQuorumUpdated: TypedContractEvent<
+      ReviewQuorumUpdatedEvent.InputTuple,
+      ReviewQuorumUpdatedEvent.OutputTuple,
+      ReviewQuorumUpdatedEvent.OutputObject
+    >;
+
+    "ReviewVoteCast(uint256,uint256,address,uint256,bool,uint256)": TypedContractEvent<
+      ReviewVoteCastEvent.InputTuple,
+      ReviewVoteCastEvent.OutputTuple,
+      ReviewVoteCastEvent.OutputObject
+    >;
+    ReviewVoteCast: TypedContractEvent<
+      ReviewVoteCastEvent.InputTuple,
+      ReviewVoteCastEvent.OutputTuple,
+      ReviewVoteCastEvent.OutputObject
+    >;
+
+    "RoundStarted(uint256,uint64,uint256)": TypedContractEvent<
+      RoundStartedEvent.InputTuple,
+      RoundStartedEvent.OutputTuple,
+      RoundStartedEvent.OutputObject
+    >;
+    RoundStarted: TypedContractEvent<
+      RoundStartedEvent.InputTuple,
+      RoundStartedEvent.OutputTuple,
+      RoundStartedEvent.OutputObject
+    >;
+
+    "RoundStatusChanged(uint256,uint8)": TypedContractEvent<
+      RoundStatusChangedEvent.InputTuple,
+      RoundStatusChangedEvent.OutputTuple,
+      RoundStatusChangedEvent.OutputObject
+    >;
+    RoundStatusChanged: TypedContractEvent<
+      RoundStatusChangedEvent.InputTuple,
+      RoundStatusChangedEvent.OutputTuple,
+      RoundStatusChangedEvent.OutputObject
+    >;
+  };
+}
@@ -1,5 +1,4 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { FedClusterFHE } from "./FedClusterFHE";
-export type { UniversalAdapter } from "./UniversalAdapter";
+export type { FederatedAnomalyFHE } from "./FederatedAnomalyFHE";
@@ -0,0 +1,2108 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  BigNumberish,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  FederatedAnomalyFHE,
+  FederatedAnomalyFHEInterface,
+} from "../../contracts/FederatedAnomalyFHE";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "featureDimension",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "featureBitWidth",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "previousVersion",
+        type: "uint256",
+      },
+    ],
+    name: "ActiveModelChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousAdmin",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newAdmin",
+        type: "address",
+      },
+    ],
+    name: "AdminTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "anomalyId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "reporter",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "record",
+        type: "bytes",
+      },
+    ],
+    name: "AnomalyAppended",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "anomalyId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "updatedBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "record",
+        type: "bytes",
+      },
+    ],
+    name: "AnomalyRecordUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "anomalyId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum FederatedAnomalyFHE.AnomalyStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "round",
+        type: "uint256",
+      },
+    ],
+    name: "AnomalyStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "auditor",
+        type: "address",
+      },
+    ],
+    name: "AuditorAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "auditor",
+        type: "address",
+      },
+    ],
+    name: "AuditorRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "participantId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "BatchSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "resultId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "DecryptionFailed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "resultId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "thresholdVersion",
+        type: "uint256",
+      },
+    ],
+    name: "DetectionComputed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DetectionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "updatedBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "DetectionThresholdUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "roundId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "contributorCount",
+        type: "uint256",
+      },
+    ],
+    name: "ModelAggregated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "updateId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "participantId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ModelUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "participantId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "organization",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "metadataURI",
+        type: "string",
+      },
+    ],
+    name: "ParticipantMetadataUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "participantId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "organization",
+        type: "string",
+      },
+    ],
+    name: "ParticipantRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "participantId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum FederatedAnomalyFHE.ParticipantStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    name: "ParticipantStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "resultId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "ResultAccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "resultId",
+        type: "uint256",
+      },
+    ],
+    name: "ResultDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "quorum",
+        type: "uint64",
+      },
+    ],
+    name: "ReviewQuorumUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "anomalyId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "round",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "voter",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "participantId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "confirm",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ReviewVoteCast",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "roundId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "minParticipants",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+    ],
+    name: "RoundStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "roundId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum FederatedAnomalyFHE.RoundStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    name: "RoundStatusChanged",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DECRYPTION_REQUEST_TTL",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_DETECTION_THRESHOLD",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_REVIEW_QUORUM",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "abortRound",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "activeModelVersion",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "auditor",
+        type: "address",
+      },
+    ],
+    name: "addAuditor",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "admin",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "anomalyCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "anomalyIdByKey",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "participantId",
+        type: "uint256",
+      },
+    ],
+    name: "approveParticipant",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "batchCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "resultId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "canAccessResult",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        internalType: "bool",
+        name: "confirm",
+        type: "bool",
+      },
+    ],
+    name: "castReviewVote",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closeRound",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentRoundId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "detectAnomalies",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "detectionThresholdVersion",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedBatches",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedLabels",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "participantId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedUpdates",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "updateId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "roundId",
+        type: "uint256",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedBias",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "participantId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "expireDecryptionRequest",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "featureSchema",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "dimension",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "bitWidth",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "finalizeRound",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "anomalyId",
+        type: "uint256",
+      },
+    ],
+    name: "getAnomalyReport",
+    outputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "participantId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "reporter",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "record",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "reportedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "updatedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "anomalyId",
+        type: "uint256",
+      },
+    ],
+    name: "getAnomalyReview",
+    outputs: [
+      {
+        internalType: "enum FederatedAnomalyFHE.AnomalyStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "reviewRound",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "confirmations",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "rejections",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAuditors",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "resultId",
+        type: "uint256",
+      },
+    ],
+    name: "getDecryptedResult",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "anomalyScore",
+        type: "uint64",
+      },
+      {
+        internalType: "bool",
+        name: "isAnomaly",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "thresholdVersion",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "getDecryptionRequest",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "resultId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum FederatedAnomalyFHE.DecryptionStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "requestedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+    ],
+    name: "getDetectionThreshold",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "threshold",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "updatedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedBatch",
+    outputs: [
+      {
+        internalType: "euint64[]",
+        name: "features",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "euint32",
+        name: "labels",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "participantId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "resultId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedResult",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "score",
+        type: "bytes32",
+      },
+      {
+        internalType: "ebool",
+        name: "isAnomaly",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "thresholdVersion",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "updateId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedUpdate",
+    outputs: [
+      {
+        internalType: "euint32[]",
+        name: "weights",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "euint32",
+        name: "bias",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "participantId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "roundId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+    ],
+    name: "getGlobalModel",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "roundId",
+        type: "uint256",
+      },
+      {
+        internalType: "euint64[]",
+        name: "weights",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "euint64",
+        name: "bias",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "publishedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256[]",
+        name: "contributors",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getModelHistory",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "roundIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "publishedAts",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "contributorCounts",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "participantId",
+        type: "uint256",
+      },
+    ],
+    name: "getParticipant",
+    outputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "organization",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "metadataURI",
+        type: "string",
+      },
+      {
+        internalType: "enum FederatedAnomalyFHE.ParticipantStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "registeredAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "anomalyId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "round",
+        type: "uint256",
+      },
+    ],
+    name: "getReviewVotes",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "voters",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "participantIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "bool[]",
+        name: "confirms",
+        type: "bool[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "votedAts",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "roundId",
+        type: "uint256",
+      },
+    ],
+    name: "getTrainingRound",
+    outputs: [
+      {
+        internalType: "enum FederatedAnomalyFHE.RoundStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "startedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "minParticipants",
+        type: "uint64",
+      },
+      {
+        internalType: "uint256",
+        name: "finalizedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256[]",
+        name: "contributors",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256",
+        name: "modelVersion",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "globalModelVersion",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "resultId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "auditor",
+        type: "address",
+      },
+    ],
+    name: "grantResultAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasContributed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "hasReviewed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isAuditor",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "key",
+            type: "string",
+          },
+          {
+            internalType: "address",
+            name: "reporter",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "batchId",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "record",
+            type: "bytes",
+          },
+          {
+            internalType: "uint256",
+            name: "reportedAt",
+            type: "uint256",
+          },
+          {
+            internalType: "enum FederatedAnomalyFHE.AnomalyStatus",
+            name: "status",
+            type: "uint8",
+          },
+        ],
+        internalType: "struct FederatedAnomalyFHE.LegacyAnomaly[]",
+        name: "legacy",
+        type: "tuple[]",
+      },
+    ],
+    name: "migrateLegacyAnomalies",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "migrated",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "participantCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "participantIdOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "participants",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "participantId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "organization",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "metadataURI",
+        type: "string",
+      },
+      {
+        internalType: "enum FederatedAnomalyFHE.ParticipantStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "registeredAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+    ],
+    name: "pinModelVersion",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "organization",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "metadataURI",
+        type: "string",
+      },
+    ],
+    name: "registerParticipant",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "participantId",
+        type: "uint256",
+      },
+    ],
+    name: "reinstateParticipant",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "auditor",
+        type: "address",
+      },
+    ],
+    name: "removeAuditor",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "participantId",
+        type: "uint256",
+      },
+    ],
+    name: "removeParticipant",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "reopenAnomaly",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestAnomalyDetection",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "resultId",
+        type: "uint256",
+      },
+    ],
+    name: "requestResultDisclosure",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "reviewQuorum",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "roundCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint64",
+        name: "thresholdInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "setDetectionThreshold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint64",
+        name: "quorum",
+        type: "uint64",
+      },
+    ],
+    name: "setReviewQuorum",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint64",
+        name: "minParticipants",
+        type: "uint64",
+      },
+      {
+        internalType: "uint256",
+        name: "duration",
+        type: "uint256",
+      },
+    ],
+    name: "startTrainingRound",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32[]",
+        name: "featureInputs",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "labelsInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "participantId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "record",
+        type: "bytes",
+      },
+    ],
+    name: "submitAnomalyReport",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32[]",
+        name: "featureInputs",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "labelsInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "participantId",
+        type: "uint256",
+      },
+    ],
+    name: "submitEncryptedDataBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32[]",
+        name: "weightInputs",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "biasInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "participantId",
+        type: "uint256",
+      },
+    ],
+    name: "submitModelUpdate",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "participantId",
+        type: "uint256",
+      },
+    ],
+    name: "suspendParticipant",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newAdmin",
+        type: "address",
+      },
+    ],
+    name: "transferAdmin",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "record",
+        type: "bytes",
+      },
+    ],
+    name: "updateAnomalyRecord",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "updateCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "organization",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "metadataURI",
+        type: "string",
+      },
+    ],
+    name: "updateParticipantMetadata",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060409080825234620003265781816200613e80380380916200002482856200041a565b83398101031262000326576200003a816200043e565b6200004960208093016200043e565b5f606085516200005981620003ce565b82815282868201528287820152015260ff8451926200007884620003ce565b7350157cffd6bbfa2dece204a89ec419c23ef5755d808552606073cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6995868882015273a02cda4ca3a71d7c46997716f4283aa851c2881290818a820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac928391015260018060a01b0319927f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970187848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703918254161790551680156200038a5760ff8216848114801562000380575b156200033c5760098054600160401b600160e01b03191633881b600160401b600160e01b031617905585515f9486949093909290918590620001e781620003fe565b838152015261ff00600b549260081b169161ffff19161717600b556044855180948193639cd07acb60e01b835260326004840152600560248401525af190811562000332575f91620002fb575b506200024130826200044d565b6009546200025b90841c6001600160a01b0316826200044d565b60065460018101809111620002e757806001916006558451926200027f84620003fe565b8352838301904282525f5260138452845f2092518355519101556006547f867c39af9490c357621598844db4eb496cb18fb4ae652f8992149fbdeafbb4328351924284523393a3600980546001600160401b031916600217905551615c679081620004d78239f35b634e487b7160e01b5f52601160045260245ffd5b90508181813d83116200032a575b6200031581836200041a565b810103126200032657515f62000234565b5f80fd5b503d62000309565b83513d5f823e3d90fd5b855162461bcd60e51b815260048101869052601960248201527f556e737570706f727465642066656174757265207769647468000000000000006044820152606490fd5b50858114620001a5565b845162461bcd60e51b815260048101859052601960248201527f496e76616c696420666561747572652064696d656e73696f6e000000000000006044820152606490fd5b608081019081106001600160401b03821117620003ea57604052565b634e487b7160e01b5f52604160045260245ffd5b604081019081106001600160401b03821117620003ea57604052565b601f909101601f19168101906001600160401b03821190821017620003ea57604052565b519060ff821682036200032657565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0392908316803b1562000326575f92836044926040519687958694635ca4b5b160e11b865260048601521660248401525af18015620004cb57620004b75750565b6001600160401b038111620003ea57604052565b6040513d5f823e3d90fdfe60806040526004361015610011575f80fd5b5f803560e01c8062cee5e414614176578063030c7174146140eb57806306f13056146140cf57806309dddd93146140085780630a3a716714613fde5780630aea1f7c14613c2a578063127f0b3f14613c0d5780631b9db2ef14613b5f5780631e820325146139785780631f913c711461393157806328f68b99146138c557806329650fc31461388d5780632eb7216a146137cb5780633065726a1461372e57806335c1d34914613679578063362f04c01461365c5780633852986d1461363f5780633d2d1ce91461319a5780633e85916114612d7457806343ac5dc814612b01578063458ff1881461296057806349b90557146129235780634a7cc9d7146126155780635144173f146125a357806353e37b441461258657806357de4a6e146124f15780635918bb6b1461241e5780635dc74e84146123b75780635e3354ee1461231c578063683f7f271461221857806369b4ecc9146121fb5780636e45ca401461212a57806375829def1461204a57806377a5ebbd14611ff25780637965bf4914611fcc5780637be1f524146119bd5780637d5502e71461192057806386f2832e146118f057806395fde9d2146118af5780639c9674b1146118635780639cbe5efd14611846578063a482a3f314611785578063a8b8453014611752578063b5b96ae014611709578063b741ff1f146116b2578063b7d563af146113b8578063b904094914610f29578063bf87852a14610ea6578063c0319d8614610e88578063c046a57014610cd8578063c047c1f714610cad578063cbdd7de514610c8f578063cc0569d214610b69578063cc7317ef14610b12578063d02edadb14610af4578063d068a6bb14610ad8578063d414fa8e14610a7e578063d86ba57e146109f5578063da1f12ab146109d8578063ddb64ebe1461083e578063e278fe6f146106ec578063e429cef1146105b9578063e6116cfd1461045a578063ea4c9059146103f5578063f0e37b99146103d9578063f851a440146103ae5763fad9b085146102fa575f80fd5b346103ab5760203660031901126103ab57604090600435815260106020522060ff600182015416906002810154906003810154926001600160401b0360048301541660058301546103526006600986015495016151eb565b9160405196600685101561039757879661038d958852602088015260408701526060860152608085015260e060a085015260e08401906143e1565b9060c08301520390f35b634e487b7160e01b5f52602160045260245ffd5b80fd5b50346103ab57806003193601126103ab576009546040805191901c6001600160a01b03168152602090f35b50346103ab57806003193601126103ab57602060405160328152f35b50346103ab5760203660031901126103ab576040608091600435815260196020522060ff60088201541690600a60098201549101546001600160401b039160405193610440816146d3565b84526020840152818116604084015260401c166060820152f35b50346103ab5760203660031901126103ab576104746144e9565b60018060a01b03809161048f8260095460401c16331461487b565b1680835260156020526104a860ff604085205416614bdd565b808352601560205260408320805460ff19169055825b600a8054808310156105af57908491846104d7856149ca565b949054600395861b1c16146104f1575050506001016104be565b9394919390925f199182810190811161059b579061052284610515610540946149ca565b905490891b1c16916149ca565b90919060018060a01b038084549260031b9316831b921b1916179055565b82548015610587570192610553846149ca565b81939154921b1b19169055555b7fd3e803f2dfdacd206b7d19aa46d847206386d84e3dc6b8de0926e54affa6fddc8280a280f35b634e487b7160e01b87526031600452602487fd5b634e487b7160e01b88526011600452602488fd5b5050509050610560565b50346103ab5760203660031901126103ab576105d36144e9565b60018060a01b036105ec8160095460401c16331461487b565b81169081156106b557818352601560205260ff60408420541661067e57818352601560205260408320805460ff19166001179055600a54600160401b81101561066a57906105228260016106439401600a556149ca565b7f2c31044378cc14466459f09320dd4057d7ad6e99b194c0800c78227383a252968280a280f35b634e487b7160e01b84526041600452602484fd5b60405162461bcd60e51b815260206004820152600f60248201526e20b63932b0b23c9030bab234ba37b960891b6044820152606490fd5b60405162461bcd60e51b815260206004820152600f60248201526e24b73b30b634b21030bab234ba37b960891b6044820152606490fd5b50346103ab57806003193601126103ab5760045481526010602052604081206001810160ff815416600681101561082a57806001610733921490811561081f575b50614a7e565b60068201546001600160401b03600484015416116003830154421115610792575b61077f57600360ff19825416179055545f80516020615bfb833981519152602060405160038152a280f35b5061078f90426005820155615323565b80f35b60095460401c6001600160a01b031633036107e75780156107545760405162461bcd60e51b8152602060048201526012602482015271145d5bdc9d5b481b9bdd081c995858da195960721b6044820152606490fd5b60405162461bcd60e51b815260206004820152601060248201526f2937bab7321039ba34b6361037b832b760811b6044820152606490fd5b60029150145f61072d565b634e487b7160e01b84526021600452602484fd5b50346103ab5760203660031901126103ab576004356001600160401b0381116109d45761087261087891369060040161436a565b90615277565b80825260196020526040822060018060a01b038060095460401c1633149081156109c4575b50156109875760088101805460ff81166108b6816146d3565b60028114908115610973575b501561093957600983019283549360018501809511610925578492600a604095935f80516020615c3b8339815191529760019455016fffffffffffffffffffffffffffffffff19815416905560ff1916179055815190600182526020820152a280f35b634e487b7160e01b87526011600452602487fd5b60405162461bcd60e51b815260206004820152601260248201527114995d9a595dc81b9bdd081cd95d1d1b195960721b6044820152606490fd5b60039150610980816146d3565b145f6108c2565b60405162461bcd60e51b81526020600482015260156024820152742737ba103932b837b93a32b91037b91030b236b4b760591b6044820152606490fd5b905060048201541633145f61089d565b5080fd5b50346103ab57806003193601126103ab5760206040516127118152f35b50346103ab5760203660031901126103ab577fd272cda046bf7df8488192d6045d19e37580601afc243120177a8dff37a1d5d46020610a32614740565b600954906001600160401b0390610a5733604085901c6001600160a01b03161461487b565b168091610a65821515615239565b67ffffffffffffffff191617600955604051908152a180f35b50346103ab5760203660031901126103ab57604060809160043581526016602052206001815491015460ff604051926001600160401b0381168452818160401c161515602085015260481c16151560408301526060820152f35b50346103ab57806003193601126103ab57602060405160028152f35b50346103ab57806003193601126103ab576020600754604051908152f35b50346103ab5760203660031901126103ab57604060a0916004358152600f60205220805490600181015490600381015460056004830154920154926040519485526020850152604084015260608301526080820152f35b50346103ab5760403660031901126103ab576024356001600160401b03808211610c8b57610be7610bcf610ba4610bc794369060040161436a565b949060018060a01b0395610bc08760095460401c16331461487b565b36916146dd565b6004356159d8565b92610bda3085615a8d565b60095460401c1683615a8d565b60065460018101809111610c77578060065560405192604084019284841090841117610c63576001926040528352602083019042825284526013602052604084209251835551910155600654604051904282527f867c39af9490c357621598844db4eb496cb18fb4ae652f8992149fbdeafbb43260203393a380f35b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b84526011600452602484fd5b8280fd5b50346103ab57806003193601126103ab576020604051620151808152f35b50346103ab57806003193601126103ab576040600b5460ff825191818116835260081c166020820152f35b50346103ab5760403660031901126103ab57610cf2614740565b9060243591610d0f60018060a01b0360095460401c16331461487b565b610d1a6004546152d5565b610e4c576001600160401b0316610d32811515615239565b8215610e13576003549160018301809311610dff576040908360035583815260106020522092828455426002850155420192834211610deb57827f6422904d727d93bbd585c40575c3b225c450d1a9d1c5a112604f8633bf8a00b260406001946020976003860190815560048601826001600160401b03198254161790558460045554825191825288820152a201600160ff19825416179055805f80516020615bfb8339815191528360405160018152a2604051908152f35b634e487b7160e01b5f52601160045260245ffd5b634e487b7160e01b81526011600452602490fd5b60405162461bcd60e51b8152602060048201526011602482015270111d5c985d1a5bdb881c995c5d5a5c9959607a1b6044820152606490fd5b60405162461bcd60e51b8152602060048201526014602482015273526f756e6420616c72656164792061637469766560601b6044820152606490fd5b50346103ab57806003193601126103ab576020600554604051908152f35b50346103ab5760203660031901126103ab5760409060043581526012602052206001810154610f2560038301546005840154610ef06004610ee960028801614c17565b96016151eb565b90610f0d604051968796875260a0602088015260a08701906146a0565b926040860152606085015283820360808501526143e1565b0390f35b503461132f57602036600319011261132f57610f5d610f586004355f526014602052600260405f200154151590565b614b9b565b6004355f52600e602052610f79600360405f20015433906157ef565b15611380576004355f52601660205260ff60405f205460481c16611347576004355f526018602052610fb260ff60405f20541615614b5a565b6004355f52601460205260405f2060405190606082018281106001600160401b03821117610c635760405260028252604036602084013780549082511561133357600191602084015201548151600110156113335760408201527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00545f80516020615c1b833981519152549091906001600160a01b0316803b1561132f575f6040518092637d6e912360e11b8252602060048301528183816110776024820189615b34565b03925af1801561132457611311575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025483906001600160a01b0316803b156109d457816040518092633263b83b60e01b8252866004830152606060248301528183816110e8606482018a615b34565b63b741ff1f60e01b604483015203925af18015611306576112f2575b508290527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf018060205260408420546112e057828452602052604083208151916001600160401b0383116112cc57600160401b83116112cc5781548383558084106112a6575b5060200190845260208420845b8381106112925785857f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00545f19811461127e576001017f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf005562015180420180421161127e576003604051916111ea836145de565b6004358352602083016001815261122c6040850191428352606086019384528688526017602052604088209551865551611223816146d3565b60018601614e1e565b516002840155519101556004358252601860205260408220600160ff198254161790557f4081b5ef378b29c3aa427a66299f98b3f3e442c7259dd90116295963eaa8c3d860206040516004358152a280f35b634e487b7160e01b83526011600452602483fd5b600190602084519401938184015501611176565b828652836020872091820191015b8181106112c15750611169565b5f81556001016112b4565b634e487b7160e01b85526041600452602485fd5b604051633f06d22b60e01b8152600490fd5b6112fb90614614565b610c8b57825f611104565b6040513d84823e3d90fd5b61131c919350614614565b5f915f611086565b6040513d5f823e3d90fd5b5f80fd5b634e487b7160e01b5f52603260045260245ffd5b60405162461bcd60e51b8152602060048201526011602482015270105b1c9958591e48191a5cd8db1bdcd959607a1b6044820152606490fd5b60405162461bcd60e51b815260206004820152601060248201526f2737ba103932b9bab63a1037bbb732b960811b6044820152606490fd5b3461132f576113c636614397565b919092335f52602093600d855260405f2054611678576113e7831515614ada565b60025493600192838601809611610deb578560025560405193611409856145f9565b868552611430888601943386526114213689866146dd565b946040880195865236916146dd565b9060608601918252608086019381855260a0870195428752895f52600c8b5260405f20975188558288019060018060a01b039051166001600160601b0360a01b825416179055600287019051908151916001600160401b0392838111610c63576114a48161149e8554614515565b856147ef565b8c8d601f8311600114611618575081906114d3935f9261160d575b50508160011b915f199060031b1c19161790565b90555b6003870192518051918211610c63576114f9826114f38654614515565b866147ef565b8a92601f83116001146115aa5750611526925f918361159f5750508160011b915f199060031b1c19161790565b90555b6004840191519360058510156103975760057fcf647d5cfb3a82f1cd4aaa5ac00619704552eed9b7fbbaa40450b5bb0db5da4f9461159494899760ff8019835416911617905551910155335f52600d87528360405f2055604051918291888352339689840191614834565b0390a3604051908152f35b015190508b806114bf565b928b9183601f198116875f52845f20945f905b888383106115f357505050106115db575b505050811b019055611529565b01515f1960f88460031b161c191690558a80806115ce565b8587015188559096019594850194879350908101906115bd565b015190508e806114bf565b908693601f198416865f52835f20935f905b82821061165f5750508411611647575b505050811b0190556114d6565b01515f1960f88460031b161c191690558d808061163a565b8484015186558a9790950194938401939081019061162a565b60405162461bcd60e51b8152600481018690526012602482015271105b1c9958591e481c9959da5cdd195c995960721b6044820152606490fd5b3461132f57606036600319011261132f576001600160401b0360243581811161132f576116e3903690600401614722565b60443591821161132f576116fe611707923690600401614722565b90600435614e43565b005b3461132f57604036600319011261132f576117226144ff565b6004355f52601160205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b3461132f57602036600319011261132f576004355f5260136020526040805f206001815491015482519182526020820152f35b3461132f57602036600319011261132f576004355f52601960205261181a60405f206002810154600382015461183760018060a01b03600485015416926005600686015494600787015494611806604051986117ef8a6117e8816001850161454d565b038b614643565b6117ff604051809681930161454d565b0384614643565b60405198899860e08a5260e08a0190614435565b936020890152604088015260608701528582036080870152614435565b9160a084015260c08301520390f35b3461132f575f36600319011261132f576020600454604051908152f35b3461132f57602036600319011261132f576004355f52600e602052608060405f208054906002810154906004600382015491015491604051938452602084015260408301526060820152f35b3461132f57602036600319011261132f576004355f526014602052606060405f20805490600260018201549101549060405192835260208301526040820152f35b3461132f57604036600319011261132f57602061191661190e6144ff565b600435614ccd565b6040519015158152f35b3461132f57602036600319011261132f5760043561194c60018060a01b0360095460401c16331461487b565b805f52600c60205260ff600460405f200154166005811015610397576003036119785761170790615724565b60405162461bcd60e51b815260206004820152601960248201527f5061727469636970616e74206e6f742073757370656e646564000000000000006044820152606490fd5b3461132f57602036600319011261132f576004356001600160401b03811161132f576119ed903690600401614467565b90611a0660018060a01b0360095460401c16331461487b565b5f905f925b808410611a1d57602083604051908152f35b9091611a36610bc0611a30868587614c65565b80614c87565b602081519101205f52601a60205260405f2054611fc357611a686040611a5d868587614c65565b01355f541015614b1e565b82611a77611a30868584614c65565b6040611a868887869596614c65565b01356001600160a01b03611aa66020611aa08b8a88614c65565b01614cb9565b165f52600d60205260405f20549383611ac56020611aa08c8b85614c65565b8860a0611afb8d836080611af383611aeb611ae182868d614c65565b6060810190614c87565b98909a614c65565b01359a614c65565b013597600489101561132f57611b123688876146dd565b60208151910120908715611f8f57611b2b831515614756565b815f52601a60205260405f2054611f5657611b458a6146d3565b8915611f20576008549860018a018a11610deb5760018a0160085560405191611b6d83614627565b60018b018352611b7e368b8a6146dd565b60208401526040830189905260608301526001600160a01b0385166080830152611ba93685886146dd565b60a08301528060c083015260e0820152611bc28a6146d3565b8961010082015260016101208201525f6101408201525f610160820152600189015f52601960205260405f208151815560208201518051906001600160401b038211610c6357611c2282611c196001860154614515565b600186016147ef565b602090601f8311600114611eb257611c5092915f9183611dfd5750508160011b915f199060031b1c19161790565b60018201555b60408201516002820155606082015160038201556004810160018060a01b036080840151166001600160601b0360a01b82541617905560a08201518051906001600160401b038211610c6357611cbc82611cb36005860154614515565b600586016147ef565b602090601f8311600114611e085794611da560409c99956001600160401b035f80516020615c3b8339815191529f9c9994600a60019f9c98611d2989611dca9a610160955f80516020615bdb8339815191529f5f92611dfd5750508160011b915f199060031b1c19161790565b60058201555b60c0850151600682015560e08501516007820155611d5e610100860151611d55816146d3565b60088301614e1e565b610120850151600982015501928261014082015116831985541617845501511667ffffffffffffffff60401b82549160401b169067ffffffffffffffff60401b1916179055565b5f52601a6020528989018b5f20558a519384938b8060a01b0316988b8b019785614854565b0390a4825194611dd9816146d3565b85528160208601520192a260018101809111610deb57600190935b01929190611a0b565b015190505f806114bf565b90600584015f5260205f20915f5b601f1985168110611e9a575060409c99956001600160401b035f80516020615c3b8339815191529f9c9994600a60019f9c98600189610160945f80516020615bdb8339815191529e99611da599611dca9d601f19811610611e82575b505050811b016005820155611d2f565b01515f1960f88460031b161c191690555f8080611e72565b91926020600181928685015181550194019201611e16565b9190600184015f5260205f20905f935b601f1984168510611f05576001945083601f19811610611eed575b505050811b016001820155611c56565b01515f1960f88460031b161c191690555f8080611edd565b81810151835560209485019460019093019290910190611ec2565b60405162461bcd60e51b815260206004820152600e60248201526d496e76616c69642073746174757360901b6044820152606490fd5b60405162461bcd60e51b815260206004820152601160248201527020b737b6b0b63c9035b2bc903a30b5b2b760791b6044820152606490fd5b60405162461bcd60e51b815260206004820152600c60248201526b12d95e481c995c5d5a5c995960a21b6044820152606490fd5b92600190611df4565b3461132f575f36600319011261132f5760206001600160401b0360095416604051908152f35b3461132f57602036600319011261132f576004355f526017602052608060405f2080549060ff600182015416906003600282015491015491604051938452612039816146d3565b602084015260408301526060820152f35b3461132f57602036600319011261132f576120636144e9565b6009546001600160a01b03604082901c811692919061208333851461487b565b821680156120f557611707937ff8ccb027dfcd135e000e9d45e6cc2d662578a8825d4c45b5e32e0adf67e79ec65f80a368010000000000000000600160e01b031916604082811b68010000000000000000600160e01b0316919091176009556006545f90815260136020522054615a8d565b60405162461bcd60e51b815260206004820152600d60248201526c24b73b30b634b21030b236b4b760991b6044820152606490fd5b3461132f5760208060031936011261132f576004355f52600f815260405f2090600282016003830154600484015460058501549060018096015492604051958687828854928381520180985f52835f20928b5f5b868382106121e5575050505061219692500388614643565b6040519660a088019060a089525180915260c0880196905f5b8181106121d2575050508680985001526040850152606084015260808301520390f35b8251895297830197918301918a016121af565b86548552958201958d955090930192810161217e565b3461132f575f36600319011261132f576020600154604051908152f35b3461132f5760208060031936011261132f576004359060018060a01b036122478160095460401c16331461487b565b825f52600c825260405f2060ff6004820154166005811015610397578015159081612310575b50156122cb579060017fd66dcfbfcac2af2a7f56df02a8c28a5241ae4e195069132a366badab966ca4ff93920154165f52600d81525f6040812055825f52600c8152600460405f2001600460ff1982541617905560405160048152a2005b60405162461bcd60e51b815260048101849052601960248201527f5061727469636970616e74206e6f742072656d6f7661626c65000000000000006044820152606490fd5b6004915014158561226d565b3461132f57602036600319011261132f5760043561234860018060a01b0360095460401c16331461487b565b805f52600c60205260ff600460405f2001541660058110156103975760026123709114614794565b805f52600c602052600460405f2001600360ff198254161790557fd66dcfbfcac2af2a7f56df02a8c28a5241ae4e195069132a366badab966ca4ff602060405160038152a2005b3461132f57602036600319011261132f576004355f52600e60205261240a60405f2060028101546003820154916123f5600160048301549201614c17565b926040519485946080865260808601906146a0565b926020850152604084015260608301520390f35b3461132f57602036600319011261132f5760043561244a60018060a01b0360095460401c16331461487b565b801515806124e5575b156124a857600754811461246a5761170790615452565b60405162461bcd60e51b815260206004820152601660248201527556657273696f6e20616c72656164792061637469766560501b6044820152606490fd5b60405162461bcd60e51b815260206004820152601560248201527424b73b30b634b21036b7b232b6103b32b939b4b7b760591b6044820152606490fd5b50600554811115612453565b3461132f575f36600319011261132f5760405180600a5491828152602080910192600a5f527fc65a7bb8d6351c1cf70c95a316cc6a92839c986682d98bc35f958f4883f9d2a8915f905b82821061256657610f258561255281890382614643565b604051918291602083526020830190614664565b83546001600160a01b03168652948501946001938401939091019061253b565b3461132f575f36600319011261132f576020600854604051908152f35b3461132f57604036600319011261132f576117076004356125c26144ff565b9060018060a01b036125dc8160095460401c16331461487b565b6125f7610f58835f526014602052600260405f200154151590565b82165f52601560205261261060ff60405f205416614bdd565b615846565b3461132f5760208060031936011261132f5760043580151580612918575b61263c90614b1e565b805f52600e825260405f20916003808401805491825f52600c845260018060a01b039160019661267f612677858a60405f20015416876157ef565b9533906157ef565b8015612908575b156128c3578790875f52601887526126a560ff60405f20541615614b5a565b019384541561133357845f5287865f20548180925b61288e575b506126d791506001600160401b03809754169061534d565b946006545f526013875260405f205490878792881561287e575b8015612870575b6064885f80516020615bbb8339815191525416945f60405196879485936385362ee760e01b8552600485015260248401528160448401525af1918215611324575f92612841575b5061274a3088615a8d565b6127543083615a8d565b885f52601688525f8a60408220828155015560065460405192606084019284841090841117610c63578b986002936040528452898401908152604084019182528a5f5260148a5260405f2093518455518884015551910155612822575b5090915f905b6127eb575b847fede05882839e3db85d9c2d5528f30c0d68578008ddb033608d8f468c5f46016685600654604051908152a2005b600a5481101561281d57908582612814856128078497966149ca565b905490861b1c1688615846565b019091926127b7565b6127bc565b545f52600c845261283b828460405f2001541686615846565b866127b1565b9091508781813d8311612869575b6128598183614643565b8101031261132f5751908a61273f565b503d61284f565b50612879615b67565b6126f8565b9250612888615b67565b926126f1565b9087548310156128bd576128b382916128a7858b6149ff565b905490891b1c9061576b565b92019190806126ba565b906126bf565b60405162461bcd60e51b815260048101879052601860248201527f4e6f7420617574686f72697a656420666f7220626174636800000000000000006044820152606490fd5b508360095460401c163314612686565b505f54811115612633565b3461132f57602036600319011261132f576001600160a01b036129446144e9565b165f526015602052602060ff60405f2054166040519015158152f35b3461132f57604036600319011261132f576004355f526020601b815260405f206024355f52815260405f2090815491612998836148b4565b906129a66040519283614643565b8382526129b2846148b4565b601f199190820136848601376129c7856148cb565b6129d0866148b4565b956129de6040519788614643565b8087526129ea816148b4565b87870194013685376129fb816148cb565b925f5b828110612a79575050509484612a32612a2597604051988997608089526080890190614664565b90878203848901526143e1565b91858303604087015251918281520192945f5b828110612a60578580610f25878783820360608501526143e1565b8651151585529581019587955093810193600101612a45565b80612a8c600192849b989a97999b614911565b50828060a01b03905416612aa0828c6148fd565b5281612aac8285614911565b500154612ab982876148fd565b5260ff6002612ac88386614911565b50015416612ad682896148fd565b90151590526003612ae78285614911565b500154612af4828a6148fd565b52019795939694976129fe565b3461132f57612b0f36614397565b929091335f52602093600d855260405f2054938415612d3e57612b33831515614ada565b845f52600c865260405f20600281016001600160401b0391828611610c6357612b6686612b608454614515565b846147ef565b5f9186601f8111600114612cd45780612b96916003955f91612cc9575b508160011b915f199060031b1c19161790565b90555b01908311610c6357612bb583612baf8354614515565b836147ef565b5f601f8411600114612c4057918391612c0983612c30967fef6fd0ecfa5afdd80ceae121d114dff6058b248d46ff4b815ad5d4cc6324dd6c9a9b965f91612c3557508160011b915f199060031b1c19161790565b90555b612c23604051968796604088526040880191614834565b9285840390860152614834565b0390a2005b90508401358c612b83565b601f19841690825f52885f20915f5b818110612cb2575091859391612c30967fef6fd0ecfa5afdd80ceae121d114dff6058b248d46ff4b815ad5d4cc6324dd6c9a9b969410612c99575b5050600183811b019055612c0c565b8301355f19600386901b60f8161c191690558980612c8a565b91928a600181928689013581550194019201612c4f565b90508a01358d612b83565b508792601f19881690825f52888c5f20928d5f905b828210612d225750506003965010612d0b575b5050600187811b019055612b99565b8901355f1989861b60f8161c191690558a80612cfc565b9784013585558c97600190950194938401938c9350018e612ce9565b60405162461bcd60e51b815260048101879052600e60248201526d139bdd081c9959da5cdd195c995960921b6044820152606490fd5b3461132f5760c036600319011261132f576004356001600160401b03811161132f57612da4903690600401614467565b6044356001600160401b03811161132f57612dc390369060040161436a565b9290916084356001600160401b03811161132f57612de590369060040161436a565b92909160a4356001600160401b03811161132f57612e0790369060040161436a565b969095606435151580613181575b612e1e90614a3a565b6064355f52600c60205260ff600460405f2001541693600585101561039757612e4c6002612e599614614794565b6064359360243591615485565b90612e653684836146dd565b60208151910120948315611f8f57612e7e811515614756565b855f52601a60205260405f2054611f565760085494600186018611610deb576001860160085560405196612eb188614627565b600187018852612ec23687866146dd565b60208901528460408901526064356060890152336080890152612ee63684846146dd565b60a08901524260c08901524260e0890152600161010089015260016101208901525f6101408901525f610160890152600187015f52601960205260405f20978051895560208101518051906001600160401b038211610c6357612f59828c6001612f5281830154614515565b91016147ef565b602090601f831160011461311357612f8792915f91836131085750508160011b915f199060031b1c19161790565b60018a01555b604081015160028a0155606081015160038a01556004890160018060a01b036080830151166001600160601b0360a01b82541617905560a08101519889516001600160401b038111610c635760209a612fed82611cb36005860154614515565b8b90601f831160011461309457600a61303e94611d29855f80516020615bdb8339815191529b9a9998966001600160401b0396610160965f92611dfd5750508160011b915f199060031b1c19161790565b5f52601a88526001870160405f2055613063604051928392339860018b019785614854565b0390a4604051600181526001838201525f80516020615c3b83398151915260406001840192a2600160405191018152f35b90600584015f528c5f20915f5b601f19851681106130f1575061303e946001856001600160401b039561016095600a955f80516020615bdb8339815191529e9d9c9b99601f19811610611e8257505050811b016005820155611d2f565b91928e6001819286850151815501940192016130a1565b015190508c806114bf565b919060018c015f5260205f20905f935b601f1984168510613166576001945083601f1981161061314e575b505050811b0160018a0155612f8d565b01515f1960f88460031b161c191690558b808061313e565b81810151835560209485019460019093019290910190613123565b50335f908152600d602052604090205460643514612e15565b3461132f576131a836614497565b93849593919295151580613628575b6131c090614a3a565b845f52602093600c855260ff600460405f2001541660058110156103975760026131ea9114614794565b60045492835f526010865260405f20906001988983019687549460ff8616600681101561039757808d613225921490811561361d5750614a7e565b600385015442116135e057875f5260118a5260405f20335f528a5260ff60405f2054166135a55760ff600b541687036135605760068501988954159687613536575b5050613272876148b4565b966132806040519889614643565b808852601f1961328f826148b4565b01368c8a01378c5f5b82811061347757505050506008926132b96132f095936132bf9336916146dd565b906158da565b936132ca3086615a8d565b6132d43386615a8d565b6132dd85615ae1565b9015613462579182915b01553090615a8d565b835493600160401b9485811015610c63576133148189938b61332a940181556149ff565b819391549060031b91821b915f19901b19161790565b9055825f526011855260405f20335f52855260405f208760ff19825416179055865496808801809811610deb5787815560405194613367866145f9565b8886528686019485526040860193845260608601928352608086019388855260a08701954287528a5f52600f895260405f209751885551838801556002870190518051926001600160401b038411610c63578311610c635788908254848455808510613438575b5001905f52875f205f5b83811061342757855160038a0155865160048a0155875160058a0155604080518c815242818d01528d917fe04da73e35b507612433ca8e184a39268f3398fa15eb80eed46b715ea94e55b591a2005b8251828201559189019184016133d8565b835f528585845f2092830192015b8281106134545750506133ce565b5f81558c9450879101613446565b61346f908383015461576b565b9182916132e7565b613491613485828587614aca565b356132b936888a6146dd565b61349b828c6148fd565b526134b0306134aa838d6148fd565b51615a8d565b6134be336134aa838d6148fd565b6134d16134cb828c6148fd565b51615ae1565b8915613514575b6134e23082615a8d565b89156134fd576134f59060078a01614a14565b018d90613298565b61350d6133148360078c016149ff565b90556134f5565b613531906135258360078c016149ff565b90549060031b1c61576b565b6134d8565b60029060ff191617905584545f80516020615bfb8339815191528b60405160028152a28c80613267565b60405162461bcd60e51b8152600481018b9052601960248201527f5765696768742064696d656e73696f6e206d69736d61746368000000000000006044820152606490fd5b60405162461bcd60e51b8152600481018b90526013602482015272105b1c9958591e4818dbdb9d1c9a589d5d1959606a1b6044820152606490fd5b60405162461bcd60e51b8152600481018b90526015602482015274149bdd5b9908191958591b1a5b99481c185cdcd959605a1b6044820152606490fd5b60029150148e61072d565b50335f908152600d602052604090205485146131b7565b3461132f575f36600319011261132f576020600654604051908152f35b3461132f575f36600319011261132f576020600254604051908152f35b3461132f57602036600319011261132f576004355f52600c60205260405f20805460018060a01b03600183015416916040516136c3816136bc816002860161454d565b0382614643565b61372561371a6040516136dd816136bc816003890161454d565b61370c600560ff600488015416960154946040519889988952602089015260c0604089015260c0880190614435565b908682036060880152614435565b92608085019061445a565b60a08301520390f35b3461132f57602036600319011261132f5760043561375a60018060a01b0360095460401c16331461487b565b805f52600c60205260ff600460405f200154166005811015610397576001036137865761170790615724565b60405162461bcd60e51b815260206004820152601760248201527f5061727469636970616e74206e6f742070656e64696e670000000000000000006044820152606490fd5b3461132f57602036600319011261132f57600435805f52601760205260405f20600160ff81830154166137fd816146d3565b0361385257600381015442111561381757611707916156b1565b60405162461bcd60e51b815260206004820152601360248201527214995c5d595cdd081b9bdd08195e1c1a5c9959606a1b6044820152606490fd5b60405162461bcd60e51b815260206004820152601360248201527252657175657374206e6f742070656e64696e6760681b6044820152606490fd5b3461132f57602036600319011261132f576001600160a01b036138ae6144e9565b165f52600d602052602060405f2054604051908152f35b3461132f576138d336614497565b938493919315158061391a575b6138e990614a3a565b845f52600c60205260ff600460405f200154169560058710156103975761391560026117079814614794565b615485565b50335f908152600d602052604090205485146138e0565b3461132f57606036600319011261132f576004355f52601c60205260405f206024355f5260205260405f206044355f52602052602060ff60405f2054166040519015158152f35b3461132f575f36600319011261132f576139a060018060a01b0360095460401c16331461487b565b600454805f526020906010825260405f20600191600182019060ff8254166006811015610397576003809103613b2757600684016001600160401b03815416916005549660018801809811610deb579188928895949286600555865f526012855260405f2091878355866001840155613a1c8460048501614942565b426005840155805f9260078c0160028601925b613ac2575b505050505082916003613a7b92613a717f2288f935e29b73bf63cc5a2c6c28a8c94215a389019d7df89e99e3831665d964979660088d015461534d565b91829101556153fd565b426005880155846009880155604051908152a3600460ff19825416179055545f80516020615bfb8339815191528360405160048152a2613aba81615452565b604051908152f35b91939990929495969782548b1015613b1b5750508389613b09613af98a613aee859a9b9c9d9e876149ff565b905490881b1c61534d565b613b038b826153fd565b86614a14565b019290918d9795928d9a999795613a2f565b97969594819a50613a34565b60405162461bcd60e51b815260048101879052601060248201526f149bdd5b99081b9bdd0818db1bdcd95960821b6044820152606490fd5b3461132f57602036600319011261132f576004355f52600c60205260405f2060018060a01b0360018201541660ff6004830154166005830154613c04613bf96003613bcf60405197613bbf89613bb8816002850161454d565b038a614643565b6136bc604051809481930161454d565b613beb604051978897885260a0602089015260a0880190614435565b908682036040880152614435565b92606085019061445a565b60808301520390f35b3461132f575f36600319011261132f576020600354604051908152f35b3461132f57604036600319011261132f576001600160401b0360043581811161132f57613c5b90369060040161436a565b916024908135928315159485850361132f57613c7691615277565b93845f526020916019835260405f20335f52600d845260405f20549586151580613fa7575b613ca490614794565b60038201548714613f6a576008820196600160ff895416613cc4816146d3565b03613f3657885f52601c865260405f20946009840195865490815f52885260405f20835f52885260ff60405f205416613eff578a5f52601c885260405f20905f52875260405f20825f52875260405f209760ff199860018a8254161790558a5f52601b885260405f2087545f52885260405f20604051613d43816145de565b33815289810185815260408201918583526060810193428552805490600160401b821015613eec5790613d7b91600182018155614911565b959095613edb575091899897969594939160039360018060a01b039051166001600160601b0360a01b8654161785555160018501558c60ff600286019251151591835416911617905551910155865490604051928352888301524260408301528a7fa3d50b99f04c3febe7ca7679603ad3bd1cab48b7b01093b8c827f89dbb4b5b1a60603394a415613e5f57600a01805492915081613e1b84821661492a565b1680936001600160401b031916179055600954161115613e3757005b8360026040945f80516020615c3b8339815191529654161790555482519160028352820152a2005b600a01613ea1613e7483835460401c1661492a565b82546fffffffffffffffff0000000000000000191660409190911b67ffffffffffffffff60401b16178255565b5460401c1690600954161115613eb357005b8360036040945f80516020615c3b8339815191529654161790555482519160038352820152a2005b634e487b7160e01b5f525f6004525ffd5b86634e487b7160e01b5f5260416004525ffd5b60405162461bcd60e51b8152600481018990526010818b01526f105b1c9958591e481c995d9a595dd95960821b6044820152606490fd5b60405162461bcd60e51b815260048101879052600d818901526c14995d9a595dc818db1bdcd959609a1b6044820152606490fd5b60405162461bcd60e51b815260048101869052601681880152755265706f727465722063616e6e6f742072657669657760501b6044820152606490fd5b50865f52600c855260ff600460405f200154166005811015613fcb57600214613c9b565b86634e487b7160e01b5f5260216004525ffd5b3461132f57602036600319011261132f576004355f52601a602052602060405f2054604051908152f35b3461132f575f36600319011261132f576005805490614026826148cb565b90614030836148cb565b9261403a816148cb565b915f5b8281106140805761406485610f25866140728a6040519586956060875260608701906143e1565b9085820360208701526143e1565b9083820360408501526143e1565b600190818101808211610deb576001926004915f52601260205260405f20908101546140ac848a6148fd565b52848101546140bb848b6148fd565b5201546140c882876148fd565b520161403d565b3461132f575f36600319011261132f5760205f54604051908152f35b3461132f575f36600319011261132f5761411360018060a01b0360095460401c16331461487b565b600454805f52601060205261412b60405f20916152d5565b1561413f5761170790426005820155615323565b60405162461bcd60e51b815260206004820152600f60248201526e139bc81858dd1a5d99481c9bdd5b99608a1b6044820152606490fd5b3461132f5761418436614397565b9161418f8185615277565b9261419b811515614756565b835f5260206019815260405f2090335f52600d815260405f205480151580614343575b6141c89150614794565b6004820154336001600160a01b03909116036143085760058201906001600160401b038411610c63576141ff84612b608454614515565b5f90601f851160011461427c5750918391614255837fb30d3aed64c38abd48ee4af4c98b859a0f4c07b8f9d4847028b10cc60bf236f398979661426c965f9161427157508160011b915f199060031b1c19161790565b90555b600742910155604051938493339885614854565b0390a3005b90508801358c612b83565b90601f198516835f52825f20925f905b8282106142f0575050918593917fb30d3aed64c38abd48ee4af4c98b859a0f4c07b8f9d4847028b10cc60bf236f398979661426c9694106142d7575b5050600183811b019055614258565b8701355f19600386901b60f8161c1916905589806142c8565b80600185968294968d0135815501950193019061428c565b6064906040519062461bcd60e51b8252600482015260146024820152732737ba1030b737b6b0b63c903932b837b93a32b960611b6044820152fd5b505f52600c815260ff600460405f2001541660058110156103975760026141c891146141be565b9181601f8401121561132f578235916001600160401b03831161132f576020838186019501011161132f57565b604060031982011261132f576001600160401b039160043583811161132f57826143c39160040161436a565b9390939260243591821161132f576143dd9160040161436a565b9091565b9081518082526020808093019301915f5b828110614400575050505090565b8351855293810193928101926001016143f2565b5f5b8381106144255750505f910152565b8181015183820152602001614416565b9060209161444e81518092818552858086019101614414565b601f01601f1916010190565b9060058210156103975752565b9181601f8401121561132f578235916001600160401b03831161132f576020808501948460051b01011161132f57565b608060031982011261132f576001600160401b039060043582811161132f57816144c391600401614467565b939093926024359260443591821161132f576144e19160040161436a565b909160643590565b600435906001600160a01b038216820361132f57565b602435906001600160a01b038216820361132f57565b90600182811c92168015614543575b602083101461452f57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691614524565b80545f939261455b82614515565b918282526020936001916001811690815f146145bf5750600114614581575b5050505050565b90939495505f92919252835f2092845f945b8386106145ab57505050500101905f8080808061457a565b805485870183015294019385908201614593565b60ff19168685015250505090151560051b010191505f8080808061457a565b608081019081106001600160401b03821117610c6357604052565b60c081019081106001600160401b03821117610c6357604052565b6001600160401b038111610c6357604052565b61018081019081106001600160401b03821117610c6357604052565b90601f801991011681019081106001600160401b03821117610c6357604052565b9081518082526020808093019301915f5b828110614683575050505090565b83516001600160a01b031685529381019392810192600101614675565b9081518082526020808093019301915f5b8281106146bf575050505090565b8351855293810193928101926001016146b1565b6004111561039757565b9291926001600160401b038211610c635760405191614706601f8201601f191660200184614643565b82948184528183011161132f578281602093845f960137010152565b9080601f8301121561132f5781602061473d933591016146dd565b90565b600435906001600160401b038216820361132f57565b1561475d57565b60405162461bcd60e51b815260206004820152600f60248201526e149958dbdc99081c995c5d5a5c9959608a1b6044820152606490fd5b1561479b57565b60405162461bcd60e51b81526020600482015260166024820152755061727469636970616e74206e6f742061637469766560501b6044820152606490fd5b8181106147e4575050565b5f81556001016147d9565b9190601f81116147fe57505050565b614828925f5260205f20906020601f840160051c8301931061482a575b601f0160051c01906147d9565b565b909150819061481b565b908060209392818452848401375f828201840152601f01601f1916010190565b929061486d9061473d9593604086526040860191614834565b926020818503910152614834565b1561488257565b60405162461bcd60e51b815260206004820152600a60248201526927b7363c9030b236b4b760b11b6044820152606490fd5b6001600160401b038111610c635760051b60200190565b906148d5826148b4565b6148e26040519182614643565b82815280926148f3601f19916148b4565b0190602036910137565b80518210156113335760209160051b010190565b8054821015611333575f5260205f209060021b01905f90565b9060016001600160401b0380931601918211610deb57565b8181146149c6578154916001600160401b038311610c6357600160401b8311610c635781548383558084106149aa575b505f5260205f20905f5260205f208154915f925b848410614994575050505050565b6001809192019384549281850155019290614986565b6149c090835f528460205f2091820191016147d9565b5f614972565b5050565b600a5481101561133357600a5f527fc65a7bb8d6351c1cf70c95a316cc6a92839c986682d98bc35f958f4883f9d2a801905f90565b8054821015611333575f5260205f2001905f90565b805490600160401b821015610c635781613314916001614a36940181556149ff565b9055565b15614a4157565b60405162461bcd60e51b81526020600482015260156024820152742737ba103830b93a34b1b4b830b73a1037bbb732b960591b6044820152606490fd5b15614a8557565b60405162461bcd60e51b815260206004820152601b60248201527f526f756e64206e6f7420616363657074696e67207570646174657300000000006044820152606490fd5b91908110156113335760051b0190565b15614ae157565b60405162461bcd60e51b815260206004820152601560248201527413dc99d85b9a5e985d1a5bdb881c995c5d5a5c9959605a1b6044820152606490fd5b15614b2557565b60405162461bcd60e51b815260206004820152600d60248201526c092dcecc2d8d2c840c4c2e8c6d609b1b6044820152606490fd5b15614b6157565b60405162461bcd60e51b8152602060048201526012602482015271446973636c6f737572652070656e64696e6760701b6044820152606490fd5b15614ba257565b60405162461bcd60e51b815260206004820152601360248201527214995cdd5b1d081b9bdd0818dbdb5c1d5d1959606a1b6044820152606490fd5b15614be457565b60405162461bcd60e51b815260206004820152600b60248201526a2737ba1030bab234ba37b960a91b6044820152606490fd5b90604051918281549182825260209260208301915f5260205f20935f905b828210614c4b5750505061482892500383614643565b855484526001958601958895509381019390910190614c35565b91908110156113335760051b8101359060be198136030182121561132f570190565b903590601e198136030182121561132f57018035906001600160401b03821161132f5760200191813603831361132f57565b356001600160a01b038116810361132f5790565b614ce5815f526014602052600260405f200154151590565b15614e18575f9081526014602090815260409182902080545f80516020615c1b8339815191525493516382027b6d60e01b80825260048201929092526001600160a01b03868116602483015292959094909216908385604481855afa948515611324575f95614de1575b5084614d5f575b50505050905090565b6001959095015460405195865260048601526001600160a01b03919091166024850152909291508290829060449082905afa918215611324575f92614dab575b5050805f808080614d56565b90809250813d8311614dda575b614dc28183614643565b8101031261132f57614dd390614e36565b5f80614d9f565b503d614db8565b9094508381813d8311614e11575b614df98183614643565b8101031261132f57614e0a90614e36565b935f614d4f565b503d614def565b50505f90565b90614e28816146d3565b60ff80198354169116179055565b5190811515820361132f57565b91825f52602091601783526040805f20926001938481019660ff885416614e69816146d3565b80156151b55780614e7a88926146d3565b03615171576003820154421161516057805f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808852845f20541561514f57815f528752835f2092845180858a8297549384815201905f528a5f20925f5b8b8d83831061513a5750505050614ef292500385614643565b85519384890194858a11610deb578601809511610deb5785518751888b01968b939189918491614f25818489018d614414565b8201908682015203848101845201614f3d9083614643565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035488516378542ead60e01b8152606060048201529485936001600160a01b03909216928492839291614f94906064850190615b34565b906003199182858203016024860152614fac91614435565b90838203016044840152614fbf91614435565b03915a905f91f1908115615130575f916150fb575b50156150ea577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a260ff19966002888254161790555495865f5260188652825f20908154169055818380518101031261132f5751936001600160401b039283861680960361132f57826150499101614e36565b916014825269ff00000000000000000068ff00000000000000006002835f200154958351986150778a6145de565b895284890195151586526016848a019589875260608b019889528b5f5252835f2098511692885495511515901b169251151560481b169269ffffffffffffffffffff19161717178355519101557fa469ded9ee047c2055e3b524302e2774290cfe872243c0ee75ac09d5c037dbba5f80a2565b835163cf6c44e960e01b8152600490fd5b90508781813d8311615129575b6151128183614643565b8101031261132f5761512390614e36565b5f614fd4565b503d615108565b85513d5f823e3d90fd5b86548552958101958a95509093019201614ed9565b845163d66ca67560e01b8152600490fd5b9450945050505061482892506156b1565b835162461bcd60e51b815260048101889052601760248201527f5265717565737420616c726561647920736574746c65640000000000000000006044820152606490fd5b845162461bcd60e51b815260048101899052600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b6044820152606490fd5b90604051918281549182825260209260208301915f5260205f20935f905b82821061521f5750505061482892500383614643565b855484526001958601958895509381019390910190615209565b1561524057565b60405162461bcd60e51b815260206004820152600f60248201526e145d5bdc9d5b481c995c5d5a5c9959608a1b6044820152606490fd5b6152829136916146dd565b602081519101205f52601a60205260405f2054801561529e5790565b60405162461bcd60e51b815260206004820152600f60248201526e556e6b6e6f776e20616e6f6d616c7960881b6044820152606490fd5b5f52601060205260ff600160405f20015416600681101590816103975760018114918215615316575b821561530957505090565b9091506103975760031490565b506002811491505f6152fe565b60018101600560ff19825416179055545f80516020615bfb833981519152602060405160058152a2565b6001600160401b039160209180156153eb575b5f80516020615bbb83398151915254604051635a53accb60e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115611324575f916153bc575090565b90506020813d6020116153e3575b816153d760209383614643565b8101031261132f575190565b3d91506153ca565b5060646153f6615b67565b9050615360565b91906154093084615a8d565b5f5b815481101561544c5780615421600192846149ff565b90549060031b1c5f52600c602052615446828060a01b038360405f2001541686615a8d565b0161540b565b50509050565b7f8c606e6ffb7e01c7d5541f83c785023ef753d1b8f45c206b25e026dda075d436602060075483600755604051908152a2565b93949291909160ff600b5416830361566c576154a0836148b4565b956040956154b087519889614643565b8488526154bc856148b4565b60209590601f1901368a8801375f5b818110615626575050506154e592916132b99136916146dd565b6154ef3082615a8d565b6154f93382615a8d565b5f54946001808701809711610deb57865f5585519260a08401916001600160401b039285811084821117610c63578852888552858501938452878501918252606085019287845260808601944286528a5f52600e8852895f20965187556001870190518051928311610c6357600160401b8311610c6357889082548484558085106155fc575b50988c9a98969b999795949392919701905f52865f205f5b8381106155e8575050505050907f955118f6e4ebb5f0538d4fab56ed505b66b7a4815d824d44133ddfbe9e6ea3c496976004925160028501555160038401555191015582519182524290820152a290565b8251818301558d9b50918801918401615597565b835f528585845f2092830192015b82811061561857505061557f565b5f81558c945087910161560a565b8061563f85876156396001958789614aca565b3561589b565b615649828d6148fd565b52615658306134aa838e6148fd565b615666336134aa838e6148fd565b016154cb565b60405162461bcd60e51b815260206004820152601a60248201527f466561747572652064696d656e73696f6e206d69736d617463680000000000006044820152606490fd5b906001810160ff199060038282541617905581545f52601860205260405f2090815416905554907f8b2808dbe440ff36b9c3f43dfca588a3ffeb2af2ef2d67aad297f32284ad4c0e606060405160208152600f60208201526e14995c5d595cdd08195e1c1a5c9959608a1b6040820152a3565b805f52600c602052600460405f2001600260ff198254161790557fd66dcfbfcac2af2a7f56df02a8c28a5241ae4e195069132a366badab966ca4ff602060405160028152a2565b9081156157df575b80156157cd575b602090606460018060a01b035f80516020615bbb8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115611324575f916153bc575090565b5060206157d8615b67565b905061577a565b90506157e9615b67565b90615773565b8015159182615826575b5081615803575090565b90505f52600c60205260ff600460405f2001541660058110156103975760021490565b6001600160a01b03165f908152600d6020526040812054821492506157f9565b90815f52601460205261586b81600160405f20615864838254615a8d565b0154615a8d565b6001600160a01b0316907ffee493c21f1581d9a0b3ba5a06bc6d9ea28fe99ef5e5c6f9d66c6eb8b319178d5f80a3565b9091602060ff600b5460081c16146158c25761473d926158bc9136916146dd565b906159d8565b906132b961473d936158d59336916146dd565b615ae1565b5f80516020615bbb8339815191525460405163196d0b9b60e01b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f908290615932906084830190614435565b6004606483015203925af1908115611324575f916159a6575b5080925f80516020615c1b8339815191525416803b1561132f57604051630f8e573b60e21b815260048101929092523360248301525f908290818381604481015b03925af180156113245761599d5750565b61482890614614565b90506020813d6020116159d0575b816159c160209383614643565b8101031261132f57515f61594b565b3d91506159b4565b5f80516020615bbb8339815191525460405163196d0b9b60e01b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f908290615a30906084830190614435565b6005606483015203925af1908115611324575f916159a6575080925f80516020615c1b8339815191525416803b1561132f57604051630f8e573b60e21b815260048101929092523360248301525f9082908183816044810161598c565b5f80516020615c1b833981519152546001600160a01b031691823b1561132f57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f9082908183816044810161598c565b5f80516020615bbb833981519152546040516307227b9160e21b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af1908115611324575f916153bc575090565b9081518082526020808093019301915f5b828110615b53575050505090565b835185529381019392810192600101615b45565b5f80516020615bbb83398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115611324575f916153bc57509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970191b94c47146267acd8d44c42dc10600218128bd561759b1b5340ab0960368ec8d96e2835b6d786c690419e463f839a6b82b70864178108924bb0985c0b85cafd9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970044aefd4a8d8bc6b3b263f778b0a8cfa334171e853a03a38c80805b76514eea64a164736f6c6343000818000a";
+
+type FederatedAnomalyFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: FederatedAnomalyFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class FederatedAnomalyFHE__factory extends ContractFactory {
+  constructor(...args: FederatedAnomalyFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    featureDimension: BigNumberish,
+    featureBitWidth: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      featureDimension,
+      featureBitWidth,
+      overrides || {}
+    );
+  }
+  override deploy(
+    featureDimension: BigNumberish,
+    featureBitWidth: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(
+      featureDimension,
+      featureBitWidth,
+      overrides || {}
+    ) as Promise<
+      FederatedAnomalyFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): FederatedAnomalyFHE__factory {
+    return super.connect(runner) as FederatedAnomalyFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): FederatedAnomalyFHEInterface {
+    return new Interface(_abi) as FederatedAnomalyFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): FederatedAnomalyFHE {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as FederatedAnomalyFHE;
+  }
+}
@@ -1,5 +1,4 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { FedClusterFHE__factory } from "./FedClusterFHE__factory";
-export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
+export { FederatedAnomalyFHE__factory } from "./FederatedAnomalyFHE__factory";
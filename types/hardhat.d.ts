@@ -46,13 +46,9 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IInputVerifier__factory>;
     getContractFactory(
-      name: "FedClusterFHE",
+      name: "FederatedAnomalyFHE",
       signerOrOptions?: ethers.Signer | FactoryOptions
-    ): Promise<Contracts.FedClusterFHE__factory>;
-    getContractFactory(
-      name: "UniversalAdapter",
-      signerOrOptions?: ethers.Signer | FactoryOptions
-    ): Promise<Contracts.UniversalAdapter__factory>;
+    ): Promise<Contracts.FederatedAnomalyFHE__factory>;
 
     getContractAt(
       name: "EthereumConfig",
@@ -95,15 +91,10 @@ declare module "hardhat/types/runtime" {
       signer?: ethers.Signer
     ): Promise<Contracts.IInputVerifier>;
     getContractAt(
-      name: "FedClusterFHE",
-      address: string | ethers.Addressable,
-      signer?: ethers.Signer
-    ): Promise<Contracts.FedClusterFHE>;
-    getContractAt(
-      name: "UniversalAdapter",
+      name: "FederatedAnomalyFHE",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.FederatedAnomalyFHE>;
 
     deployContract(
       name: "EthereumConfig",
@@ -138,13 +129,9 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "FedClusterFHE",
+      name: "FederatedAnomalyFHE",
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.FedClusterFHE>;
-    deployContract(
-      name: "UniversalAdapter",
-      signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.FederatedAnomalyFHE>;
 
     deployContract(
       name: "EthereumConfig",
@@ -187,15 +174,10 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "FedClusterFHE",
-      args: any[],
-      signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.FedClusterFHE>;
-    deployContract(
-      name: "UniversalAdapter",
+      name: "FederatedAnomalyFHE",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.FederatedAnomalyFHE>;
 
     // default types
     getContractFactory(
@@ -22,7 +22,5 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
-export type { FedClusterFHE } from "./contracts/FedClusterFHE";
-export { FedClusterFHE__factory } from "./factories/contracts/FedClusterFHE__factory";
-export type { UniversalAdapter } from "./contracts/UniversalAdapter";
-export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";
+export type { FederatedAnomalyFHE } from "./contracts/FederatedAnomalyFHE";
+export { FederatedAnomalyFHE__factory } from "./factories/contracts/FederatedAnomalyFHE__factory";